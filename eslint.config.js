@@ -20,4 +20,13 @@ export default defineConfig([
       globals: globals.browser,
     },
   },
+  {
+    // The thread is virtualized with TanStack Virtual, whose hook can't be
+    // memoized. The app isn't built with React Compiler, so nothing would
+    // memoize it anyway - the warning only applies there.
+    files: ['src/components/MessageList.tsx'],
+    rules: {
+      'react-hooks/incompatible-library': 'off',
+    },
+  },
 ])
@@ -0,0 +1,137 @@
+/**
+ * Local stand-in for the backend event stream (/api/events/stream).
+ *
+ * Usage:
+ *   npm run mock:events
+ *   VITE_EVENTS_BASE_URL=http://localhost:8090 npm run dev
+ *
+ * Endpoints:
+ *   GET  /api/events/stream  - Server-Sent Events, honours Last-Event-ID
+ *   POST /emit               - Body { "type": "message.created", ...payload } is broadcast
+ *   POST /drop               - Closes every open stream (to exercise reconnect)
+ *
+ * With DEMO_CHAT_ID set, an inbound message for that chat is emitted every DEMO_INTERVAL_MS.
+ */
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8090);
+const HEARTBEAT_MS = 15000;
+const HISTORY_SIZE = 500;
+const DEMO_CHAT_ID = process.env.DEMO_CHAT_ID;
+const DEMO_INTERVAL_MS = Number(process.env.DEMO_INTERVAL_MS || 10000);
+
+const clients = new Set();
+const history = [];
+let nextId = 1;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, X-Tenant-ID, Last-Event-ID, Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const format = (event) => {
+  const { type, ...payload } = event.data;
+  return `id: ${event.id}\nevent: ${type}\ndata: ${JSON.stringify(payload)}\n\n`;
+};
+
+const broadcast = (data) => {
+  const event = { id: String(nextId++), data };
+  history.push(event);
+  if (history.length > HISTORY_SIZE) history.shift();
+  for (const res of clients) res.write(format(event));
+  console.log(`[event ${event.id}] ${data.type} -> ${clients.size} client(s)`);
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && req.url?.startsWith('/api/events/stream')) {
+    if (!req.headers.authorization) {
+      res.writeHead(401, corsHeaders);
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    // Replay whatever the client missed
+    const lastEventId = Number(req.headers['last-event-id'] || 0);
+    if (lastEventId) {
+      for (const event of history) {
+        if (Number(event.id) > lastEventId) res.write(format(event));
+      }
+    }
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+    clients.add(res);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      clients.delete(res);
+    });
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/emit') {
+    try {
+      const data = JSON.parse(await readBody(req));
+      if (!data.type) throw new Error('Missing "type"');
+      broadcast(data);
+      res.writeHead(202, corsHeaders);
+      res.end();
+    } catch (error) {
+      res.writeHead(400, corsHeaders);
+      res.end(String(error.message || error));
+    }
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/drop') {
+    for (const client of clients) client.destroy();
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  res.writeHead(404, corsHeaders);
+  res.end();
+});
+
+if (DEMO_CHAT_ID) {
+  setInterval(() => {
+    const createdAt = new Date().toISOString();
+    broadcast({
+      type: 'message.created',
+      chatId: DEMO_CHAT_ID,
+      message: {
+        id: `mock-${Date.now()}`,
+        chatId: DEMO_CHAT_ID,
+        content: `Test message at ${createdAt}`,
+        direction: 'IN',
+        createdAt,
+      },
+    });
+  }, DEMO_INTERVAL_MS);
+}
+
+server.listen(PORT, () => {
+  console.log(`Mock event server listening on http://localhost:${PORT}`);
+});
@@ -15,6 +15,10 @@ const TermsPage = lazy(() => import('./pages/TermsPage'));
 const DashboardPage = lazy(() => import('./pages/DashboardPage'));
 const ChatsPage = lazy(() => import('./pages/ChatsPage'));
 const CustomersPage = lazy(() => import('./pages/CustomersPage'));
+const CustomerDetailPage = lazy(() => import('./pages/CustomerDetailPage'));
+const CampaignsPage = lazy(() => import('./pages/CampaignsPage'));
+const CampaignBuilderPage = lazy(() => import('./pages/CampaignBuilderPage'));
+const CampaignDetailPage = lazy(() => import('./pages/CampaignDetailPage'));
 const ServicesPage = lazy(() => import('./pages/ServicesPage'));
 const AvailabilityPage = lazy(() => import('./pages/AvailabilityPage'));
 const AppointmentsPage = lazy(() => import('./pages/AppointmentsPage'));
@@ -47,6 +51,10 @@ function App() {
               <Route path="/dashboard" element={<DashboardPage />} />
               <Route path="/chats" element={<ChatsPage />} />
               <Route path="/customers" element={<CustomersPage />} />
+              <Route path="/customers/:id" element={<CustomerDetailPage />} />
+              <Route path="/campaigns" element={<CampaignsPage />} />
+              <Route path="/campaigns/new" element={<CampaignBuilderPage />} />
+              <Route path="/campaigns/:id" element={<CampaignDetailPage />} />
               <Route path="/services" element={<ServicesPage />} />
               <Route path="/availability" element={<AvailabilityPage />} />
               <Route path="/appointments" element={<AppointmentsPage />} />
@@ -1,10 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { X, AlertCircle, CheckCircle, Clock, User, Calendar, FileText } from 'lucide-react';
 import {
   createAppointment,
   checkAvailability,
   getDoctors,
   searchPatients,
+  type AppointmentResponse,
   type CreateAppointmentRequest,
   type Staff,
   type PatientSearchResult,
@@ -16,10 +17,13 @@ import api from '../lib/api';
 interface AddAppointmentModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess: () => void;
+  onSuccess: (appointment: AppointmentResponse) => void;
   defaultDate?: Date;
   defaultTime?: string;
   defaultProvider?: string;
+  defaultPhone?: string;
+  defaultPatientName?: string;
+  chatId?: string; // Links the appointment to the conversation it was booked from
 }
 
 export default function AddAppointmentModal({
@@ -29,13 +33,18 @@ export default function AddAppointmentModal({
   defaultDate,
   defaultTime,
   defaultProvider,
+  defaultPhone,
+  defaultPatientName,
+  chatId,
 }: AddAppointmentModalProps) {
   // Form state
-  const [phone, setPhone] = useState('');
+  const [phone, setPhone] = useState(defaultPhone || '');
   const [patient, setPatient] = useState<PatientSearchResult | null>(null);
   const [searchingPatient, setSearchingPatient] = useState(false);
-  const [patientName, setPatientName] = useState('');
+  const [patientName, setPatientName] = useState(defaultPatientName || '');
   const [patientEmail, setPatientEmail] = useState('');
+  // Name we were given for the prefilled phone (e.g. the WhatsApp profile name)
+  const defaultPatientRef = useRef({ phone: defaultPhone, name: defaultPatientName });
 
   const [serviceId, setServiceId] = useState('');
   const [services, setServices] = useState<ServiceItem[]>([]);
@@ -116,7 +125,9 @@ export default function AddAppointmentModal({
         setPatientEmail(foundPatient.email || '');
       } else {
         setPatient(null);
-        setPatientName('');
+        // Keep the name we were given for a new patient
+        const fallback = defaultPatientRef.current;
+        setPatientName(phoneNumber === fallback.phone ? fallback.name || '' : '');
         setPatientEmail('');
       }
     } catch (err) {
@@ -201,12 +212,13 @@ export default function AddAppointmentModal({
       durationMinutes: selectedService?.durationMinutes,
       notes: notes || undefined,
       source: 'MANUAL',
+      chatId,
     };
 
     setSubmitting(true);
     try {
-      await createAppointment(request);
-      onSuccess();
+      const appointment = await createAppointment(request);
+      onSuccess(appointment);
       onClose();
       resetForm();
     } catch (err: any) {
@@ -218,9 +230,9 @@ export default function AddAppointmentModal({
   };
 
   const resetForm = () => {
-    setPhone('');
+    setPhone(defaultPhone || '');
     setPatient(null);
-    setPatientName('');
+    setPatientName(defaultPatientName || '');
     setPatientEmail('');
     setServiceId('');
     setProviderId('');
@@ -241,7 +253,7 @@ export default function AddAppointmentModal({
   if (!isOpen) return null;
 
   return (
-    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         {/* Header */}
         <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import dayjs from 'dayjs';
+import { CalendarCheck, CalendarClock, Check, X } from 'lucide-react';
+import {
+  cancelAppointment,
+  checkAvailability,
+  updateAppointment,
+  updateAppointmentStatus,
+  getApiErrorMessage,
+  type BookingActionMetadata,
+} from '../lib/api';
+import { canChangeBooking, setBookedAppointment } from '../lib/bookingActions';
+import { useBookedAppointment } from '../hooks/useBookedAppointment';
+
+const STATUS_COLORS: Record<string, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  CONFIRMED: 'bg-green-100 text-green-800',
+  COMPLETED: 'bg-blue-100 text-blue-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+interface BookingActionCardProps {
+  booking: BookingActionMetadata;
+}
+
+/**
+ * Appointment booked by the assistant, with inline actions for staff
+ */
+const BookingActionCard: React.FC<BookingActionCardProps> = ({ booking }) => {
+  const appointment = useBookedAppointment(booking.appointmentId);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [rescheduling, setRescheduling] = useState(false);
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+
+  // The message metadata is a snapshot from booking time - prefer the live appointment
+  const serviceName = appointment?.serviceName || booking.serviceName;
+  const providerName = appointment?.providerName || booking.providerName;
+  const startTime = appointment?.startTime || booking.startTime;
+  const status = appointment?.status || booking.status || 'PENDING';
+  const actionable = Boolean(appointment) && canChangeBooking(status);
+
+  const runAction = async (action: () => Promise<void>, fallbackError: string) => {
+    setError('');
+    try {
+      setBusy(true);
+      await action();
+    } catch (err) {
+      console.error(fallbackError, err);
+      setError(getApiErrorMessage(err, fallbackError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!appointment) return;
+    runAction(async () => {
+      setBookedAppointment(await updateAppointmentStatus(appointment.id, 'CONFIRMED'));
+    }, 'Failed to confirm appointment');
+  };
+
+  const handleCancel = () => {
+    if (!appointment || !confirm('Cancel this appointment?')) return;
+    runAction(async () => {
+      await cancelAppointment(appointment.id);
+      setBookedAppointment({ ...appointment, status: 'CANCELLED' });
+    }, 'Failed to cancel appointment');
+  };
+
+  const handleStartReschedule = () => {
+    const current = dayjs(startTime);
+    setDate(current.format('YYYY-MM-DD'));
+    setTime(current.format('HH:mm'));
+    setError('');
+    setRescheduling(true);
+  };
+
+  const handleReschedule = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!appointment || !date || !time) return;
+
+    const newStartTime = `${date}T${time}:00+05:30`; // IST timezone
+    runAction(async () => {
+      const availability = await checkAvailability(
+        appointment.providerName,
+        newStartTime,
+        appointment.durationMinutes,
+        appointment.id
+      );
+      if (!availability.available) {
+        setError(availability.message || 'That slot is not available');
+        return;
+      }
+      setBookedAppointment(await updateAppointment(appointment.id, { startTime: newStartTime }));
+      setRescheduling(false);
+    }, 'Failed to reschedule appointment');
+  };
+
+  return (
+    <div className="mt-2 bg-white text-gray-900 rounded-lg border border-gray-200 p-3 min-w-[16rem]">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <CalendarCheck className="w-4 h-4 text-green-600 flex-shrink-0" />
+          <p className="text-sm font-semibold truncate">{serviceName || 'Appointment'}</p>
+        </div>
+        <span
+          className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_COLORS[status] || 'bg-gray-100 text-gray-800'}`}
+        >
+          {status}
+        </span>
+      </div>
+      {startTime && (
+        <p className="text-xs text-gray-600 mt-1">{dayjs(startTime).format('ddd, DD MMM YYYY · h:mm A')}</p>
+      )}
+      {providerName && <p className="text-xs text-gray-500">{providerName}</p>}
+
+      {rescheduling ? (
+        <form onSubmit={handleReschedule} className="mt-3 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="date"
+              required
+              value={date}
+              min={dayjs().format('YYYY-MM-DD')}
+              onChange={(e) => setDate(e.target.value)}
+              className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="time"
+              required
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setRescheduling(false)}
+              className="px-3 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+            >
+              Back
+            </button>
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {busy ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        actionable && (
+          <div className="flex gap-2 mt-3">
+            {status === 'PENDING' && (
+              <button
+                onClick={handleConfirm}
+                disabled={busy}
+                className="flex items-center gap-1 px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+              >
+                <Check className="w-3.5 h-3.5" />
+                Confirm
+              </button>
+            )}
+            <button
+              onClick={handleStartReschedule}
+              disabled={busy}
+              className="flex items-center gap-1 px-2 py-1 text-xs border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              <CalendarClock className="w-3.5 h-3.5" />
+              Reschedule
+            </button>
+            <button
+              onClick={handleCancel}
+              disabled={busy}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-red-600 rounded hover:bg-red-50 disabled:opacity-50"
+            >
+              <X className="w-3.5 h-3.5" />
+              Cancel
+            </button>
+          </div>
+        )
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default BookingActionCard;
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import { Bot, UserRound } from 'lucide-react';
+import { setChatBotStatus, getApiErrorMessage, type Chat } from '../lib/api';
+import { isBotActive } from '../lib/handoff';
+
+// Extend dayjs with relativeTime plugin
+dayjs.extend(relativeTime);
+
+interface BotHandoffToggleProps {
+  chat: Chat;
+  now: number;
+  onChange: (chat: Chat) => void;
+}
+
+/**
+ * Shows whether the AI assistant or staff are handling a chat, and switches between them
+ */
+const BotHandoffToggle: React.FC<BotHandoffToggleProps> = ({ chat, now, onChange }) => {
+  const [saving, setSaving] = useState(false);
+  const active = isBotActive(chat, now);
+
+  const handleToggle = async () => {
+    try {
+      setSaving(true);
+      const updated = await setChatBotStatus(chat.id, !active);
+      onChange(updated);
+    } catch (error) {
+      console.error('Failed to update AI assistant:', error);
+      alert(getApiErrorMessage(error, 'Failed to update the AI assistant. Please try again.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={saving}
+      className={`flex items-center gap-2 px-2.5 py-1 border rounded-full text-xs font-medium transition disabled:opacity-50 ${
+        active
+          ? 'bg-purple-50 text-purple-700 border-purple-200 hover:bg-purple-100'
+          : 'bg-gray-50 text-gray-700 border-gray-200 hover:bg-gray-100'
+      }`}
+      title={active ? 'AI assistant is replying - click to take over' : 'Staff are handling this chat - click to hand back to the AI assistant'}
+    >
+      {active ? <Bot className="w-3.5 h-3.5" /> : <UserRound className="w-3.5 h-3.5" />}
+      {active ? 'AI active' : 'AI paused'}
+      {!active && chat.botResumeAt && (
+        <span className="font-normal text-gray-500">· resumes {dayjs(chat.botResumeAt).from(now)}</span>
+      )}
+      <span
+        className={`relative inline-flex h-4 w-7 items-center rounded-full transition ${
+          active ? 'bg-purple-600' : 'bg-gray-300'
+        }`}
+      >
+        <span
+          className={`inline-block h-3 w-3 rounded-full bg-white transition ${
+            active ? 'translate-x-3.5' : 'translate-x-0.5'
+          }`}
+        />
+      </span>
+    </button>
+  );
+};
+
+export default BotHandoffToggle;
@@ -0,0 +1,296 @@
+import { useState, useEffect } from 'react';
+import { Plus, Pencil, Trash2, MessageSquareText } from 'lucide-react';
+import {
+  listCannedResponses,
+  createCannedResponse,
+  updateCannedResponse,
+  deleteCannedResponse,
+  getApiErrorMessage,
+  type CannedResponse,
+  type CannedResponseRequest,
+} from '../lib/api';
+import { CANNED_VARIABLES } from '../lib/cannedResponses';
+
+// Shortcuts are typed after "/" so they can't contain spaces
+const SHORTCUT_PATTERN = /^[a-z0-9_-]+$/;
+
+const EMPTY_FORM: CannedResponseRequest = {
+  shortcut: '',
+  title: '',
+  body: '',
+};
+
+export default function CannedResponsesTab() {
+  const [responses, setResponses] = useState<CannedResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingResponse, setEditingResponse] = useState<CannedResponse | null>(null);
+  const [formData, setFormData] = useState<CannedResponseRequest>(EMPTY_FORM);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadResponses();
+  }, []);
+
+  const loadResponses = async () => {
+    try {
+      setLoading(true);
+      const data = await listCannedResponses();
+      setResponses(data.sort((a, b) => b.usageCount - a.usageCount));
+    } catch (err) {
+      console.error('Failed to load canned responses:', err);
+      setError('Failed to load canned responses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenModal = (response?: CannedResponse) => {
+    setEditingResponse(response || null);
+    setFormData(
+      response ? { shortcut: response.shortcut, title: response.title, body: response.body } : EMPTY_FORM
+    );
+    setShowModal(true);
+  };
+
+  const handleCloseModal = () => {
+    setShowModal(false);
+    setEditingResponse(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleInsertVariable = (key: string) => {
+    setFormData({ ...formData, body: `${formData.body}{{${key}}}` });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+
+    if (!SHORTCUT_PATTERN.test(formData.shortcut)) {
+      setError('Shortcut can only contain lowercase letters, numbers, dashes and underscores');
+      return;
+    }
+    if (
+      responses.some((r) => r.shortcut === formData.shortcut && r.id !== editingResponse?.id)
+    ) {
+      setError(`The shortcut /${formData.shortcut} is already in use`);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      if (editingResponse) {
+        await updateCannedResponse(editingResponse.id, formData);
+        setSuccess('Canned response updated');
+      } else {
+        await createCannedResponse(formData);
+        setSuccess('Canned response added');
+      }
+      handleCloseModal();
+      await loadResponses();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to save canned response'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (response: CannedResponse) => {
+    if (!confirm(`Delete the canned response "/${response.shortcut}"?`)) return;
+
+    try {
+      await deleteCannedResponse(response.id);
+      setSuccess('Canned response deleted');
+      await loadResponses();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to delete canned response'));
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      {/* Header */}
+      <div className="px-6 py-4 border-b flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Canned Responses</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Saved answers your team can insert in a chat by typing / followed by the shortcut
+          </p>
+        </div>
+        <button
+          onClick={() => handleOpenModal()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4" />
+          New Response
+        </button>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="mx-6 mt-4 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          {success}
+        </div>
+      )}
+
+      {/* Response List */}
+      <div className="p-6">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-500">Loading canned responses...</p>
+          </div>
+        ) : responses.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-lg">
+            <MessageSquareText className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+            <p className="text-gray-500">No canned responses yet</p>
+            <button
+              onClick={() => handleOpenModal()}
+              className="mt-4 text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Add your clinic address, fees or timings
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {responses.map((response) => (
+              <div
+                key={response.id}
+                className="border border-gray-200 rounded-lg p-4 hover:border-blue-300 transition"
+              >
+                <div className="flex justify-between items-start">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-3 flex-wrap">
+                      <span className="text-sm font-mono text-blue-700">/{response.shortcut}</span>
+                      <h4 className="text-base font-semibold text-gray-900">{response.title}</h4>
+                      <span className="text-xs text-gray-500">
+                        Used {response.usageCount} time{response.usageCount !== 1 ? 's' : ''}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-2 line-clamp-3 whitespace-pre-wrap">{response.body}</p>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleOpenModal(response)}
+                      className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded"
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(response)}
+                      className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Create / Edit Modal */}
+      {showModal && (
+        <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingResponse ? 'Edit Canned Response' : 'New Canned Response'}
+              </h3>
+              <button onClick={handleCloseModal} className="text-gray-400 hover:text-gray-600">
+                ✕
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Shortcut *</label>
+                  <div className="flex items-center">
+                    <span className="px-3 py-2 bg-gray-50 border border-r-0 border-gray-300 rounded-l-lg text-gray-500 font-mono">
+                      /
+                    </span>
+                    <input
+                      type="text"
+                      required
+                      value={formData.shortcut}
+                      onChange={(e) => setFormData({ ...formData, shortcut: e.target.value.toLowerCase() })}
+                      placeholder="address"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-r-lg font-mono focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Title *</label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                    placeholder="Clinic address and directions"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Message *</label>
+                <textarea
+                  required
+                  value={formData.body}
+                  onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+                  rows={6}
+                  placeholder="Hi {{patient_name}}, {{clinic_name}} is located at {{clinic_address}}."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  <span className="text-xs text-gray-500">Insert:</span>
+                  {CANNED_VARIABLES.map((variable) => (
+                    <button
+                      key={variable.key}
+                      type="button"
+                      onClick={() => handleInsertVariable(variable.key)}
+                      className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                    >
+                      {variable.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-3 pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={handleCloseModal}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {submitting ? 'Saving...' : editingResponse ? 'Save Changes' : 'Add Response'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import dayjs from 'dayjs';
+import { ChevronDown, Check, History, UserMinus } from 'lucide-react';
+import {
+  assignChat,
+  getChatAssignments,
+  listStaff,
+  getApiErrorMessage,
+  type Chat,
+  type ChatAssignment,
+  type Staff,
+} from '../lib/api';
+import { findCurrentStaff } from '../lib/inbox';
+import StaffAvatar from './StaffAvatar';
+
+interface ChatAssignmentMenuProps {
+  chat: Chat;
+  onAssigned: (chat: Chat) => void;
+  open?: boolean; // Controls the menu, e.g. when opened from a keyboard shortcut
+  onOpenChange?: (open: boolean) => void;
+}
+
+/**
+ * Assignee picker for the chat header, with the chat's assignment history
+ */
+const ChatAssignmentMenu: React.FC<ChatAssignmentMenuProps> = ({
+  chat,
+  onAssigned,
+  open: controlledOpen,
+  onOpenChange,
+}) => {
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const open = controlledOpen ?? uncontrolledOpen;
+  const [showHistory, setShowHistory] = useState(false);
+  const [staff, setStaff] = useState<Staff[]>([]);
+  const [history, setHistory] = useState<ChatAssignment[]>([]);
+  const [saving, setSaving] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const currentStaff = findCurrentStaff(staff);
+  // The current user comes first, so assigning to yourself is one key away
+  const staffOptions = currentStaff
+    ? [currentStaff, ...staff.filter((member) => member.id !== currentStaff.id)]
+    : staff;
+
+  const onOpenChangeRef = useRef(onOpenChange);
+  useEffect(() => {
+    onOpenChangeRef.current = onOpenChange;
+  });
+
+  const setOpen = useCallback((next: boolean) => {
+    setUncontrolledOpen(next);
+    onOpenChangeRef.current?.(next);
+  }, []);
+
+  // Close when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open, setOpen]);
+
+  // Load staff and history each time the menu opens
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setShowHistory(false);
+    Promise.all([listStaff(), getChatAssignments(chat.id)])
+      .then(([staffData, historyData]) => {
+        if (cancelled) return;
+        setStaff(staffData);
+        setHistory(historyData);
+      })
+      .catch((error) => console.error('Failed to load assignment data:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, chat.id]);
+
+  // Put the keyboard on the first choice, so Enter assigns it
+  useEffect(() => {
+    if (open && staff.length > 0) {
+      menuRef.current?.querySelector<HTMLButtonElement>('[data-menu-item]')?.focus();
+    }
+  }, [open, staff.length]);
+
+  const handleToggle = () => {
+    setOpen(!open);
+  };
+
+  const handleAssign = async (staffId: string | null) => {
+    if (staffId === (chat.assigneeId ?? null)) {
+      setOpen(false);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const updated = await assignChat(chat.id, staffId);
+      onAssigned(updated);
+      setOpen(false);
+    } catch (error) {
+      console.error('Failed to assign chat:', error);
+      alert(getApiErrorMessage(error, 'Failed to assign chat. Please try again.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describeAssignment = (entry: ChatAssignment) => {
+    const target = entry.assigneeId ? `Assigned to ${entry.assigneeName || 'staff member'}` : 'Unassigned';
+    return entry.assignedByName ? `${target} by ${entry.assignedByName}` : target;
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={handleToggle}
+        disabled={saving}
+        className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-100 transition text-sm text-gray-700 disabled:opacity-50"
+        title="Assign this chat"
+      >
+        <StaffAvatar name={chat.assigneeId ? chat.assigneeName : undefined} />
+        <span className="max-w-[8rem] truncate">
+          {chat.assigneeId ? chat.assigneeName || 'Assigned' : 'Unassigned'}
+        </span>
+        <ChevronDown className="w-4 h-4 text-gray-400" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-20">
+          {showHistory ? (
+            <div className="max-h-72 overflow-y-auto p-3">
+              <button
+                onClick={() => setShowHistory(false)}
+                className="text-xs text-blue-600 hover:text-blue-700 font-medium mb-2"
+              >
+                Back
+              </button>
+              {history.length === 0 ? (
+                <p className="text-sm text-gray-500">No assignment changes yet</p>
+              ) : (
+                <ul className="space-y-2">
+                  {history.map((entry) => (
+                    <li key={entry.id} className="text-sm">
+                      <p className="text-gray-800">{describeAssignment(entry)}</p>
+                      <p className="text-xs text-gray-400">{dayjs(entry.createdAt).format('DD MMM YYYY, HH:mm')}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <>
+              <div className="max-h-64 overflow-y-auto py-1">
+                {currentStaff && currentStaff.id !== chat.assigneeId && (
+                  <button
+                    data-menu-item
+                    onClick={() => handleAssign(currentStaff.id)}
+                    className="w-full px-3 py-2 text-left text-sm font-medium text-blue-600 hover:bg-blue-50"
+                  >
+                    Assign to me
+                  </button>
+                )}
+                {staffOptions.map((member) => (
+                  <button
+                    key={member.id}
+                    data-menu-item
+                    onClick={() => handleAssign(member.id)}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <StaffAvatar name={member.name} size="sm" />
+                    <span className="flex-1 truncate">{member.name}</span>
+                    {member.id === chat.assigneeId && <Check className="w-4 h-4 text-blue-600" />}
+                  </button>
+                ))}
+                {staff.length === 0 && (
+                  <p className="px-3 py-2 text-sm text-gray-500">Loading staff...</p>
+                )}
+              </div>
+              <div className="border-t border-gray-100 py-1">
+                {chat.assigneeId && (
+                  <button
+                    onClick={() => handleAssign(null)}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <UserMinus className="w-4 h-4" />
+                    Unassign
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowHistory(true)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <History className="w-4 h-4" />
+                  Assignment history
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatAssignmentMenu;
@@ -1,38 +1,123 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import dayjs from 'dayjs';
 import relativeTime from 'dayjs/plugin/relativeTime';
-import api from '../lib/api';
+import { AlertTriangle, Download, MessageSquarePlus, Search, X } from 'lucide-react';
+import {
+  listChats,
+  listStaff,
+  searchChats,
+  updateChatState,
+  getApiErrorMessage,
+  type Chat,
+  type ChatSearchResult,
+  type ChatState,
+  type Staff,
+} from '../lib/api';
+import {
+  chatMatchesView,
+  findCurrentStaff,
+  getSavedInboxView,
+  getViewFilter,
+  saveInboxView,
+  type InboxView,
+} from '../lib/inbox';
+import { getMessageTypeLabel } from '../lib/media';
+import { CHAT_STATES, getChatState, reopenOnInbound } from '../lib/chatState';
+import ServiceWindowIndicator from './ServiceWindowIndicator';
+import StaffAvatar from './StaffAvatar';
+import ChatAssignmentMenu from './ChatAssignmentMenu';
+import HighlightedText from './HighlightedText';
+import NewConversationModal from './NewConversationModal';
+import ExportTranscriptModal from './ExportTranscriptModal';
+import { useDebounce } from '../hooks/useDebounce';
 import { useInterval } from '../hooks/useInterval';
+import { useNow } from '../hooks/useNow';
+import { useRealtimeEvent, useRealtimeStatus } from '../hooks/useRealtime';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { formatShortcut } from '../lib/shortcuts';
 
 // Extend dayjs with relativeTime plugin
 dayjs.extend(relativeTime);
 
-interface Chat {
-  id: string;
-  customerId: string;
-  customerName?: string;
-  customerPhone: string;
-  lastMessageText?: string;
-  lastMessageAt?: string;
-  unreadCount?: number;
-}
+// Shortest query sent to the server
+const MIN_SEARCH_LENGTH = 2;
+
+// Most recent conversation first
+const sortChats = (chats: Chat[]) =>
+  [...chats].sort((a, b) => dayjs(b.lastMessageAt).valueOf() - dayjs(a.lastMessageAt).valueOf());
 
 interface ChatListProps {
   selectedChatId: string | null;
-  onSelect: (chatId: string) => void;
+  onSelect: (chatId: string, messageId?: string) => void;
 }
 
 const ChatList: React.FC<ChatListProps> = ({ selectedChatId, onSelect }) => {
   const [chats, setChats] = useState<Chat[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const realtimeStatus = useRealtimeStatus();
+  const isLive = realtimeStatus === 'open';
+  // Keeps the service window countdowns current
+  const now = useNow(60000);
+  const [view, setView] = useState<InboxView>(getSavedInboxView);
+  // Open chats are the to-do queue; the rest are only shown on request
+  const [stateFilter, setStateFilter] = useState<ChatState>('OPEN');
+  const [showNewConversation, setShowNewConversation] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [staff, setStaff] = useState<Staff[]>([]);
+  const currentStaffId = findCurrentStaff(staff)?.id;
+  // Ignore responses for a view that is no longer selected
+  const requestIdRef = useRef(0);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ChatSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const debouncedQuery = useDebounce(searchQuery.trim(), 300);
+  const isSearching = debouncedQuery.length >= MIN_SEARCH_LENGTH;
+  // Keyboard cursor (j/k), separate from the open chat
+  const [focusedIndex, setFocusedIndex] = useState(-1);
+  // Chat whose assignee picker was opened from the keyboard
+  const [assigningChatId, setAssigningChatId] = useState<string | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Search across all chats on the server
+  useEffect(() => {
+    if (debouncedQuery.length < MIN_SEARCH_LENGTH) return;
+
+    let cancelled = false;
+    const runSearch = async () => {
+      try {
+        setSearching(true);
+        const results = await searchChats(debouncedQuery);
+        if (!cancelled) setSearchResults(results);
+      } catch (err) {
+        console.error('Failed to search chats:', err);
+        if (!cancelled) setSearchResults([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    };
+    runSearch();
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  // Staff for the per-person views and to work out who "me" is
+  useEffect(() => {
+    listStaff()
+      .then(setStaff)
+      .catch((err) => console.error('Failed to load staff:', err));
+  }, []);
 
   const fetchChats = async () => {
+    const requestId = ++requestIdRef.current;
     try {
-      const response = await api.get<Chat[]>('/api/chats?limit=50');
-      setChats(response.data);
+      const data = await listChats(50, { ...getViewFilter(view, currentStaffId), state: stateFilter });
+      if (requestId !== requestIdRef.current) return;
+      setChats(data);
       setError(null);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Failed to fetch chats:', err);
       setError('Failed to load chats');
     } finally {
@@ -40,15 +125,135 @@ const ChatList: React.FC<ChatListProps> = ({ selectedChatId, onSelect }) => {
     }
   };
 
-  // Initial fetch
+  // Initial fetch, on view change, and catch up whenever the event stream (re)connects
   useEffect(() => {
     fetchChats();
-  }, []);
+  }, [isLive, view, currentStaffId, stateFilter]);
+
+  const viewTabs: { value: InboxView; label: string }[] = [
+    { value: 'all', label: 'All' },
+    ...(currentStaffId ? [{ value: 'mine' as const, label: 'Mine' }] : []),
+    { value: 'unassigned', label: 'Unassigned' },
+  ];
+
+  const handleViewChange = (next: InboxView) => {
+    setView(next);
+    saveInboxView(next);
+    setFocusedIndex(-1);
+  };
 
-  // Poll every 3 seconds
+  const handleStateFilterChange = (next: ChatState) => {
+    setStateFilter(next);
+    setFocusedIndex(-1);
+  };
+
+  // Fall back to polling every 3 seconds while the event stream is down
   useInterval(() => {
     fetchChats();
-  }, 3000);
+  }, isLive ? null : 3000);
+
+  // Drop chats that no longer belong in this view (e.g. reassigned)
+  const applyChatUpdate = (updated: Chat) => {
+    setChats((prev) => {
+      const rest = prev.filter((chat) => chat.id !== updated.id);
+      return chatMatchesView(updated, view, currentStaffId) ? sortChats([updated, ...rest]) : rest;
+    });
+  };
+
+  // Apply pushed updates
+  useRealtimeEvent((event) => {
+    switch (event.type) {
+      case 'message.created': {
+        // Chats outside this view or past the first page are left out. New and
+        // reassigned chats arrive as chat.updated.
+        if (!chats.some((chat) => chat.id === event.chatId)) return;
+        setChats((prev) =>
+          sortChats(
+            prev.map((chat) =>
+              chat.id === event.chatId
+                ? {
+                    ...reopenOnInbound(chat, event.message),
+                    lastMessageText: event.message.content,
+                    lastMessageType: event.message.type,
+                    lastMessageAt: event.message.createdAt,
+                    lastInboundAt:
+                      event.message.direction === 'IN' ? event.message.createdAt : chat.lastInboundAt,
+                  }
+                : chat
+            )
+          )
+        );
+        break;
+      }
+      case 'chat.updated':
+        applyChatUpdate(event.chat);
+        break;
+      case 'chat.unread':
+        setChats((prev) =>
+          prev.map((chat) =>
+            chat.id === event.chatId ? { ...chat, unreadCount: event.unreadCount } : chat
+          )
+        );
+        break;
+    }
+  });
+
+  const handleConversationStarted = (chat: Chat) => {
+    setShowNewConversation(false);
+    setChats((prev) => sortChats([chat, ...prev.filter((c) => c.id !== chat.id)]));
+    onSelect(chat.id);
+  };
+
+  // Chats that changed state (e.g. a snooze ran out) leave the list straight away
+  const visibleChats = chats.filter((chat) => getChatState(chat, now) === stateFilter);
+
+  // Rows the keyboard cursor moves over
+  const keyboardTargets = isSearching
+    ? searchResults.map((result) => ({ chatId: result.chatId, messageId: result.messageId }))
+    : visibleChats.map((chat) => ({ chatId: chat.id, messageId: undefined }));
+  const cursor = Math.min(focusedIndex, keyboardTargets.length - 1);
+
+  const moveCursor = (step: number) => {
+    if (keyboardTargets.length === 0) return;
+    const next = cursor < 0 ? 0 : Math.max(0, Math.min(keyboardTargets.length - 1, cursor + step));
+    setFocusedIndex(next);
+    listRef.current?.querySelector(`[data-index="${next}"]`)?.scrollIntoView({ block: 'nearest' });
+  };
+
+  // The chat under the cursor, otherwise the open one
+  const getTargetChat = () =>
+    isSearching ? undefined : visibleChats[cursor] ?? visibleChats.find((chat) => chat.id === selectedChatId);
+
+  const handleResolve = async () => {
+    const chat = getTargetChat();
+    if (!chat || getChatState(chat, now) === 'RESOLVED') return;
+    try {
+      applyChatUpdate(await updateChatState(chat.id, 'RESOLVED'));
+    } catch (err) {
+      console.error('Failed to resolve chat:', err);
+      alert(getApiErrorMessage(err, 'Failed to resolve chat'));
+    }
+  };
+
+  const handleOpenAssignment = () => {
+    const chat = getTargetChat();
+    if (chat) setAssigningChatId(chat.id);
+  };
+
+  useKeyboardShortcuts(
+    {
+      j: () => moveCursor(1),
+      k: () => moveCursor(-1),
+      Enter: () => {
+        const target = keyboardTargets[cursor];
+        if (target) onSelect(target.chatId, target.messageId);
+      },
+      e: handleResolve,
+      a: handleOpenAssignment,
+      '/': () => searchInputRef.current?.focus(),
+    },
+    !showNewConversation && !showExport && !assigningChatId
+  );
 
   const formatTimestamp = (timestamp?: string) => {
     if (!timestamp) return '';
@@ -60,6 +265,13 @@ const ChatList: React.FC<ChatListProps> = ({ selectedChatId, onSelect }) => {
     return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
   };
 
+  // Media messages are shown as e.g. "📷 Photo <caption>"
+  const previewMessage = (chat: Chat) => {
+    const label = getMessageTypeLabel(chat.lastMessageType);
+    if (!label) return truncateMessage(chat.lastMessageText);
+    return chat.lastMessageText ? `${label} ${truncateMessage(chat.lastMessageText, 40)}` : label;
+  };
+
   if (loading) {
     return (
       <div className="w-80 bg-white border-r border-gray-200 flex items-center justify-center">
@@ -80,32 +292,187 @@ const ChatList: React.FC<ChatListProps> = ({ selectedChatId, onSelect }) => {
     <div className="w-80 bg-white border-r border-gray-200 flex flex-col h-full">
       {/* Header */}
       <div className="p-4 border-b border-gray-200">
-        <h2 className="text-lg font-semibold text-gray-900">Chats</h2>
-        <p className="text-sm text-gray-500">{chats.length} conversations</p>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Chats</h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowExport(true)}
+              className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg transition"
+              title="Export conversations"
+            >
+              <Download className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowNewConversation(true)}
+              className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+              title="New conversation"
+            >
+              <MessageSquarePlus className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500">{visibleChats.length} conversations</p>
+          <span
+            className={`flex items-center gap-1 text-xs ${isLive ? 'text-green-600' : 'text-gray-400'}`}
+            title={isLive ? 'Receiving live updates' : 'Live updates unavailable - refreshing periodically'}
+          >
+            <span className={`h-2 w-2 rounded-full ${isLive ? 'bg-green-500' : 'bg-gray-300'}`} />
+            {isLive ? 'Live' : 'Reconnecting'}
+          </span>
+        </div>
+
+        {/* Search */}
+        <div className="relative mt-3">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            ref={searchInputRef}
+            type="text"
+            value={searchQuery}
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              setFocusedIndex(-1);
+            }}
+            onKeyDown={(e) => {
+              // Back to the list
+              if (e.key === 'Escape' || e.key === 'ArrowDown') {
+                if (e.key === 'Escape') setSearchQuery('');
+                e.currentTarget.blur();
+                if (e.key === 'ArrowDown') moveCursor(1);
+              }
+            }}
+            placeholder="Search messages, names, phones..."
+            className="w-full pl-9 pr-8 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {searchQuery && (
+            <button
+              onClick={() => setSearchQuery('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+              title="Clear search"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        {/* Conversation States */}
+        <div className="flex border-b border-gray-200 mt-3 -mx-4 px-4">
+          {CHAT_STATES.map((state) => (
+            <button
+              key={state.value}
+              onClick={() => handleStateFilterChange(state.value)}
+              className={`flex-1 pb-2 text-xs font-medium border-b-2 transition ${
+                stateFilter === state.value
+                  ? 'border-blue-600 text-blue-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {state.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Inbox Views */}
+        <div className="flex items-center gap-1 mt-3">
+          {viewTabs.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => handleViewChange(tab.value)}
+              className={`px-2.5 py-1 text-xs font-medium rounded-full transition ${
+                view === tab.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+          {staff.length > 0 && (
+            <select
+              value={view.startsWith('staff:') ? view : ''}
+              onChange={(e) => handleViewChange((e.target.value || 'all') as InboxView)}
+              className={`ml-auto max-w-[6.5rem] px-1.5 py-1 text-xs border rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                view.startsWith('staff:') ? 'border-blue-600 text-blue-700' : 'border-gray-200 text-gray-700'
+              }`}
+            >
+              <option value="">Staff...</option>
+              {staff.map((member) => (
+                <option key={member.id} value={`staff:${member.id}`}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
       </div>
 
       {/* Chat List */}
-      <div className="flex-1 overflow-y-auto">
-        {chats.length === 0 ? (
+      <div ref={listRef} className="flex-1 overflow-y-auto">
+        {isSearching ? (
+          searching && searchResults.length === 0 ? (
+            <div className="p-4 text-center text-gray-500">Searching...</div>
+          ) : searchResults.length === 0 ? (
+            <div className="p-4 text-center text-gray-500">No matches for "{debouncedQuery}"</div>
+          ) : (
+            searchResults.map((result, index) => (
+              <div
+                key={`${result.chatId}-${result.messageId || index}`}
+                data-index={index}
+                onClick={() => onSelect(result.chatId, result.messageId)}
+                className={`p-4 border-b border-gray-100 cursor-pointer transition ${
+                  selectedChatId === result.chatId ? 'bg-gray-200' : 'hover:bg-gray-100'
+                } ${cursor === index ? 'ring-2 ring-inset ring-blue-400' : ''}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="text-sm font-medium text-gray-900 truncate">
+                    <HighlightedText text={result.customerName || result.customerPhone} query={debouncedQuery} />
+                  </h3>
+                  {result.createdAt && (
+                    <span className="ml-2 text-xs text-gray-400 whitespace-nowrap">
+                      {formatTimestamp(result.createdAt)}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600 line-clamp-2">
+                  <HighlightedText
+                    text={result.matchedField === 'PHONE' ? result.customerPhone : result.snippet}
+                    query={debouncedQuery}
+                  />
+                </p>
+              </div>
+            ))
+          )
+        ) : visibleChats.length === 0 ? (
           <div className="p-4 text-center text-gray-500">
-            No chats available
+            {stateFilter === 'OPEN' ? 'No open chats - all caught up' : 'No chats available'}
           </div>
         ) : (
-          chats.map((chat) => (
+          visibleChats.map((chat, index) => (
             <div
               key={chat.id}
+              data-index={index}
               onClick={() => onSelect(chat.id)}
               className={`p-4 border-b border-gray-100 cursor-pointer transition ${
                 selectedChatId === chat.id
                   ? 'bg-gray-200 font-semibold'
                   : 'hover:bg-gray-100'
-              }`}
+              } ${cursor === index ? 'ring-2 ring-inset ring-blue-400' : ''}`}
             >
               {/* Customer Name/Phone */}
               <div className="flex items-center justify-between mb-1">
-                <h3 className="text-sm font-medium text-gray-900 truncate">
-                  {chat.customerName || chat.customerPhone}
-                </h3>
+                <div className="flex items-center gap-2 min-w-0">
+                  {chat.assigneeId && <StaffAvatar name={chat.assigneeName} size="sm" />}
+                  <h3 className="text-sm font-medium text-gray-900 truncate">
+                    {chat.customerName || chat.customerPhone}
+                  </h3>
+                </div>
+                {chat.escalated && (
+                  <span
+                    className="ml-2 flex items-center gap-1 bg-red-100 text-red-700 text-[10px] font-semibold px-1.5 py-0.5 rounded-full whitespace-nowrap"
+                    title={chat.escalationReason || 'The AI assistant asked for a human'}
+                  >
+                    <AlertTriangle className="w-3 h-3" />
+                    Needs human
+                  </span>
+                )}
                 {chat.unreadCount && chat.unreadCount > 0 && (
                   <span className="ml-2 bg-blue-600 text-white text-xs font-bold px-2 py-1 rounded-full">
                     {chat.unreadCount}
@@ -115,17 +482,53 @@ const ChatList: React.FC<ChatListProps> = ({ selectedChatId, onSelect }) => {
 
               {/* Last Message Snippet */}
               <p className="text-sm text-gray-600 truncate mb-1">
-                {truncateMessage(chat.lastMessageText)}
+                {previewMessage(chat)}
               </p>
 
-              {/* Timestamp */}
-              <p className="text-xs text-gray-400">
-                {formatTimestamp(chat.lastMessageAt)}
-              </p>
+              {/* Timestamp and service window */}
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-gray-400">
+                  {formatTimestamp(chat.lastMessageAt)}
+                </p>
+                {/* Left out when the server didn't send it, rather than showing the window closed */}
+                {chat.lastInboundAt && <ServiceWindowIndicator lastInboundAt={chat.lastInboundAt} now={now} compact />}
+              </div>
+
+              {/* Assignee picker opened with the a shortcut */}
+              {assigningChatId === chat.id && (
+                <div className="mt-2 flex justify-end" onClick={(e) => e.stopPropagation()}>
+                  <ChatAssignmentMenu
+                    chat={chat}
+                    open
+                    onOpenChange={(open) => {
+                      if (!open) setAssigningChatId(null);
+                    }}
+                    onAssigned={applyChatUpdate}
+                  />
+                </div>
+              )}
             </div>
           ))
         )}
       </div>
+
+      {/* Keyboard Shortcuts */}
+      <div className="px-4 py-2 border-t border-gray-200 text-[11px] text-gray-400 leading-relaxed">
+        <kbd className="font-mono">j</kbd>/<kbd className="font-mono">k</kbd> move ·{' '}
+        <kbd className="font-mono">Enter</kbd> open · <kbd className="font-mono">e</kbd> resolve ·{' '}
+        <kbd className="font-mono">a</kbd> assign · <kbd className="font-mono">/</kbd> search ·{' '}
+        <kbd className="font-mono">{formatShortcut('mod+/')}</kbd> canned reply ·{' '}
+        <kbd className="font-mono">{formatShortcut('mod+k')}</kbd> jump to
+      </div>
+
+      {showExport && <ExportTranscriptModal onClose={() => setShowExport(false)} />}
+
+      {showNewConversation && (
+        <NewConversationModal
+          onClose={() => setShowNewConversation(false)}
+          onStarted={handleConversationStarted}
+        />
+      )}
     </div>
   );
 };
@@ -1,44 +1,230 @@
-import { useState, useEffect, useRef } from 'react';
-import MessageBubble from './MessageBubble';
-import api from '../lib/api';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import dayjs from 'dayjs';
+import { AlertTriangle, BellOff, Download, PanelRight, Sparkles } from 'lucide-react';
+import MessageList from './MessageList';
+import MessageComposer from './MessageComposer';
+import TemplatePickerModal from './TemplatePickerModal';
+import ServiceWindowIndicator from './ServiceWindowIndicator';
+import ChatAssignmentMenu from './ChatAssignmentMenu';
+import BotHandoffToggle from './BotHandoffToggle';
+import ChatStateMenu from './ChatStateMenu';
+import CustomerSidePanel from './CustomerSidePanel';
+import AddAppointmentModal from './AddAppointmentModal';
+import ScheduledMessagesBar from './ScheduledMessagesBar';
+import ExportTranscriptModal from './ExportTranscriptModal';
+import ConversationSummaryPanel from './ConversationSummaryPanel';
+import {
+  getChat,
+  getChatMessages,
+  sendWhatsAppMedia,
+  uploadChatMedia,
+  sendWhatsAppTemplate,
+  resolveChatEscalation,
+  addChatNote,
+  recordCannedResponseUse,
+  scheduleMessage,
+  getApiErrorMessage,
+  type AppointmentResponse,
+  type CannedResponse,
+  type Chat,
+  type ConversationSummary,
+  type Message,
+  type MessageStatus,
+  type MessageTemplate,
+  type NoteMention,
+} from '../lib/api';
+import { getMediaType } from '../lib/media';
+import { renderTemplateText } from '../lib/templates';
+import { getLastInboundAt, getWindowRemainingMs, isWindowClosedError } from '../lib/serviceWindow';
+import { reopenOnInbound } from '../lib/chatState';
+import { pauseBotForStaffReply } from '../lib/handoff';
+import { renderCannedResponse } from '../lib/cannedResponses';
+import { setActiveNotificationChat } from '../lib/notifications';
+import { validateScheduleTime } from '../lib/scheduling';
+import { summarizeConversation } from '../lib/assistant';
+import {
+  queueTextMessage,
+  retryOutboxMessage,
+  discardOutboxMessage,
+  type OutboxEntry,
+} from '../lib/outbox';
 import { useInterval } from '../hooks/useInterval';
+import { useNow } from '../hooks/useNow';
+import { useOutbox, useOutboxSent } from '../hooks/useOutbox';
+import { useRealtimeEvent, useRealtimeStatus } from '../hooks/useRealtime';
+import { useMessageLanguage } from '../hooks/useTranslation';
+import { useSuggestedReplies } from '../hooks/useAssistant';
 
-interface Message {
-  id: string;
-  content: string;
-  direction: 'IN' | 'OUT';
-  createdAt: string;
-  metadata?: {
-    action?: string;
-    [key: string]: any;
-  };
-}
-
-interface Chat {
-  id: string;
-  customerId: string;
-  customerName?: string;
-  customerPhone: string;
-}
+// Number of messages fetched per page
+const PAGE_SIZE = 50;
+// How far back to page when jumping to a message
+const MAX_REVEAL_PAGES = 20;
+// Allowance for the server clock running behind ours
+const CLOCK_SKEW_MS = 60000;
 
 interface ChatPanelProps {
   chatId: string | null;
+  focusMessageId?: string | null; // Message to scroll to, e.g. from a search result
 }
 
-const ChatPanel: React.FC<ChatPanelProps> = ({ chatId }) => {
+/**
+ * Merge fetched messages into the thread (oldest first).
+ * Unchanged messages keep their identity so their bubbles don't re-render,
+ * and optimistic `temp-` messages are dropped once the server copy arrives.
+ * The server copy carries the temp id as `clientMessageId`; without it, only a
+ * matching message new to the thread and sent after the temp one will do.
+ */
+const mergeMessages = (existing: Message[], incoming: Message[]): Message[] => {
+  const byId = new Map(existing.map((m) => [m.id, m]));
+  let pending = existing.filter((m) => m.id.startsWith('temp-'));
+
+  for (const message of incoming) {
+    const current = byId.get(message.id);
+    if (!current || JSON.stringify(current) !== JSON.stringify(message)) {
+      byId.set(message.id, message);
+    }
+
+    const optimistic = message.clientMessageId
+      ? pending.find((m) => m.id === message.clientMessageId)
+      : !current &&
+        pending.find(
+          (m) =>
+            m.direction === message.direction &&
+            (m.type || 'TEXT') === (message.type || 'TEXT') &&
+            m.content === message.content &&
+            new Date(message.createdAt).getTime() >= new Date(m.createdAt).getTime() - CLOCK_SKEW_MS
+        );
+    if (optimistic) {
+      byId.delete(optimistic.id);
+      pending = pending.filter((m) => m !== optimistic);
+    }
+  }
+
+  return [...byId.values()].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+};
+
+// Message sent to the patient after booking from the chat
+const getBookingConfirmationText = (appointment: AppointmentResponse): string => {
+  const when = dayjs(appointment.startTime).format('dddd, DD MMM YYYY [at] h:mm A');
+  return `Your appointment for ${appointment.serviceName} with ${appointment.providerName} is booked for ${when}.`;
+};
+
+// Status updates can arrive out of order - only ever move forward (failure always applies)
+const STATUS_RANK: Record<MessageStatus, number> = {
+  PENDING: 0,
+  SENT: 1,
+  DELIVERED: 2,
+  READ: 3,
+  FAILED: 4,
+};
+
+const applyMessageStatus = (message: Message, status: MessageStatus, errorMessage?: string): Message => {
+  if (status !== 'FAILED' && STATUS_RANK[status] <= STATUS_RANK[message.status || 'PENDING']) {
+    return message;
+  }
+  return { ...message, status, errorMessage };
+};
+
+// Show a queued or failed outbox entry in the thread
+const outboxEntryToMessage = (entry: OutboxEntry): Message => ({
+  id: entry.id,
+  chatId: entry.chatId,
+  type: 'TEXT',
+  content: entry.text,
+  direction: 'OUT',
+  createdAt: entry.createdAt,
+  status: entry.status,
+  errorMessage: entry.errorMessage,
+  metadata: {},
+});
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ chatId, focusMessageId = null }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [chat, setChat] = useState<Chat | null>(null);
-  const [messageText, setMessageText] = useState('');
   const [loading, setLoading] = useState(false);
   const [sending, setSending] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Cursor for the next page of older messages (undefined until the first page loads)
+  const [nextCursor, setNextCursor] = useState<string | null | undefined>(undefined);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  // Assistant's summary of the conversation, shown once requested
+  const [showSummary, setShowSummary] = useState(false);
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
+  const [summarizing, setSummarizing] = useState(false);
+  const [summaryError, setSummaryError] = useState('');
+  const [showCustomerPanel, setShowCustomerPanel] = useState(true);
+  const [showBookingModal, setShowBookingModal] = useState(false);
+  // Bumped to reload the side panel's appointments
+  const [appointmentsVersion, setAppointmentsVersion] = useState(0);
+  const [scheduledVersion, setScheduledVersion] = useState(0);
+  // Inbound time at which WhatsApp rejected a free-form send; cleared by the next customer message
+  const [windowRejectedFor, setWindowRejectedFor] = useState<string | null>(null);
+  // Files of failed attachments, kept so they can be retried
+  const failedUploadsRef = useRef(new Map<string, { file: File; caption: string }>());
+  // Local previews of attachments being sent, freed once their message leaves the thread
+  const previewUrlsRef = useRef(new Set<string>());
+  const outboxEntries = useOutbox(chatId);
+  const realtimeStatus = useRealtimeStatus();
+  const isLive = realtimeStatus === 'open';
+  const now = useNow(30000);
 
-  // Scroll to bottom
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  // Free previews whose optimistic message was replaced by the server copy (or discarded)
+  useEffect(() => {
+    const inThread = new Set(messages.map((m) => m.media?.url));
+    previewUrlsRef.current.forEach((url) => {
+      if (!inThread.has(url)) {
+        URL.revokeObjectURL(url);
+        previewUrlsRef.current.delete(url);
+      }
+    });
+  }, [messages]);
+
+  useEffect(() => {
+    const previewUrls = previewUrlsRef.current;
+    return () => {
+      previewUrls.forEach((url) => URL.revokeObjectURL(url));
+      previewUrls.clear();
+    };
+  }, []);
+
+  // 24-hour customer service window
+  const lastInboundAt = getLastInboundAt(chat?.lastInboundAt, messages);
+
+  // Loaded messages plus anything still waiting in the outbox
+  const threadMessages = useMemo(
+    () =>
+      outboxEntries.length === 0
+        ? messages
+        : [...messages, ...outboxEntries.map(outboxEntryToMessage)].sort(
+            (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+          ),
+    [messages, outboxEntries]
+  );
+  const windowOpen =
+    getWindowRemainingMs(lastInboundAt, now) > 0 && windowRejectedFor !== (lastInboundAt ?? '');
+
+  // Replies can be translated into the language the customer last wrote in
+  const lastInboundText = useMemo(() => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].direction === 'IN' && messages[i].type !== 'NOTE' && messages[i].content.trim()) {
+        return messages[i];
+      }
+    }
+    return undefined;
+  }, [messages]);
+  const customerLanguage = useMessageLanguage(lastInboundText);
+  const suggestedReplies = useSuggestedReplies(chat, messages, windowOpen);
+
+  // WhatsApp says the window has closed even though our clock disagrees
+  const handleWindowClosed = () => {
+    setWindowRejectedFor(lastInboundAt ?? '');
+    setShowTemplatePicker(true);
   };
 
-  // Fetch chat details and messages
+  // Fetch chat details and the latest page of messages
   const fetchMessages = async () => {
     if (!chatId) return;
 
@@ -46,12 +232,13 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ chatId }) => {
       setLoading(true);
       
       // Fetch chat details to get customer phone
-      const chatResponse = await api.get<Chat>(`/api/chats/${chatId}`);
-      setChat(chatResponse.data);
+      const chatData = await getChat(chatId);
+      setChat(chatData);
 
-      // Fetch messages
-      const messagesResponse = await api.get<Message[]>(`/api/chats/${chatId}/messages`);
-      setMessages(messagesResponse.data);
+      // Fetch the latest messages and merge them into what is already loaded
+      const page = await getChatMessages(chatId, { limit: PAGE_SIZE });
+      setMessages((prev) => mergeMessages(prev, page.content));
+      setNextCursor((prev) => (prev === undefined ? page.nextCursor : prev));
     } catch (error) {
       console.error('Failed to fetch messages:', error);
     } finally {
@@ -59,7 +246,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ chatId }) => {
     }
   };
 
-  // Fetch messages when chatId changes
+  // Fetch messages when chatId changes, and catch up whenever the event stream (re)connects
   useEffect(() => {
     if (chatId) {
       fetchMessages();
@@ -67,69 +254,380 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ chatId }) => {
       setMessages([]);
       setChat(null);
     }
+  }, [chatId, isLive]);
+
+  // No alerts for the chat on screen
+  useEffect(() => {
+    setActiveNotificationChat(chatId);
+    return () => setActiveNotificationChat(null);
   }, [chatId]);
 
-  // Auto-scroll when messages change
+  // Page back from the latest message until the focused one is loaded
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    if (!chatId || !focusMessageId) return;
+
+    let cancelled = false;
+    const revealMessage = async () => {
+      try {
+        const loaded: Message[] = [];
+        let cursor: string | null | undefined = undefined;
+        for (let i = 0; i < MAX_REVEAL_PAGES; i++) {
+          const page = await getChatMessages(chatId, { before: cursor ?? undefined, limit: PAGE_SIZE });
+          loaded.push(...page.content);
+          cursor = page.nextCursor;
+          if (page.content.some((m) => m.id === focusMessageId) || !cursor) break;
+        }
+        if (cancelled) return;
+        setMessages((prev) => mergeMessages(prev, loaded));
+        setNextCursor(cursor);
+      } catch (error) {
+        console.error('Failed to load the selected message:', error);
+      }
+    };
+    revealMessage();
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId, focusMessageId]);
+
+  // Load the page of messages before the oldest one loaded
+  const loadOlderMessages = async () => {
+    if (!chatId || !nextCursor || loadingOlder) return;
 
-  // Poll for new messages every 2 seconds
+    try {
+      setLoadingOlder(true);
+      const page = await getChatMessages(chatId, { before: nextCursor, limit: PAGE_SIZE });
+      setMessages((prev) => mergeMessages(prev, page.content));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  // Fall back to polling every 2 seconds while the event stream is down
   useInterval(() => {
     if (chatId) {
       fetchMessages();
     }
-  }, 2000);
+  }, isLive ? null : 2000);
+
+  // Apply pushed updates for this chat
+  useRealtimeEvent((event) => {
+    if (event.type === 'message.created' && event.chatId === chatId) {
+      setMessages((prev) => mergeMessages(prev, [event.message]));
+      setChat((prev) => (prev ? reopenOnInbound(prev, event.message) : prev));
+      if (event.message.direction === 'OUT') {
+        // May be a scheduled message going out
+        setScheduledVersion((v) => v + 1);
+      }
+    } else if (event.type === 'message.status' && event.chatId === chatId) {
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === event.messageId ? applyMessageStatus(m, event.status, event.errorMessage) : m
+        )
+      );
+    } else if (event.type === 'chat.updated' && event.chat.id === chatId) {
+      setChat((prev) => ({ ...prev, ...event.chat }));
+    } else if (event.type === 'customer.consent' && event.customerId === chat?.customerId) {
+      setChat((prev) => (prev ? { ...prev, customerConsent: event.consent.status } : prev));
+    } else if (event.type === 'appointment.updated' && event.appointment.patientId === chat?.customerId) {
+      // Keep the side panel in step with booking card actions and calendar changes
+      setAppointmentsVersion((v) => v + 1);
+    }
+  });
+
+  // Apply an updated chat from the server
+  const handleChatChange = (updated: Chat) => {
+    setChat((prev) => ({ ...prev, ...updated }));
+  };
+
+  // A staff reply takes the conversation over from the AI assistant. Text
+  // replies do this from the outbox, which also sends them while another chat is open.
+  const pauseBotOnReply = (replyChatId: string) => {
+    pauseBotForStaffReply(replyChatId)
+      .then(handleChatChange)
+      .catch((error) => console.error('Failed to pause AI assistant:', error));
+  };
+
+  const handleSummarize = async () => {
+    if (!chat) return;
+    setShowSummary(true);
+    try {
+      setSummarizing(true);
+      setSummaryError('');
+      setSummary(await summarizeConversation(chat, messages));
+    } catch (error) {
+      console.error('Failed to summarize conversation:', error);
+      setSummaryError(getApiErrorMessage(error, 'Failed to summarize the conversation. Please try again.'));
+    } finally {
+      setSummarizing(false);
+    }
+  };
+
+  const handleResolveEscalation = async () => {
+    if (!chat) return;
+    try {
+      handleChatChange(await resolveChatEscalation(chat.id));
+    } catch (error) {
+      console.error('Failed to resolve escalation:', error);
+      alert(getApiErrorMessage(error, 'Failed to resolve. Please try again.'));
+    }
+  };
 
-  // Send message
-  const handleSend = async () => {
-    if (!messageText.trim() || !chat || sending) return;
+  // Keep a sent outbox message in the thread until the server copy arrives
+  useOutboxSent((entry) => {
+    if (entry.chatId !== chatId) return;
+    setMessages((prev) => mergeMessages(prev, [{ ...outboxEntryToMessage(entry), status: 'SENT' }]));
+    fetchMessages();
+  });
 
+  // Send a text message through the outbox. Failures stay in the thread with a retry action.
+  const handleSendText = async (text: string) => {
+    if (!chat || !chatId || sending) return;
+    if (!windowOpen) {
+      setShowTemplatePicker(true);
+      return;
+    }
+
+    try {
+      setSending(true);
+      await queueTextMessage(chatId, chat.customerPhone, text);
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      if (isWindowClosedError(error)) {
+        handleWindowClosed();
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Upload a file and send it as a media message
+  const handleSendMedia = async (file: File, caption: string, onProgress: (percent: number) => void) => {
+    if (!chat || !chatId || sending) return;
+    if (!windowOpen) {
+      setShowTemplatePicker(true);
+      return;
+    }
+
+    const type = getMediaType(file);
+    const previewUrl = URL.createObjectURL(file);
+    previewUrlsRef.current.add(previewUrl);
     const optimisticMessage: Message = {
       id: `temp-${Date.now()}`,
-      content: messageText,
+      type,
+      content: caption,
       direction: 'OUT',
       createdAt: new Date().toISOString(),
+      media: {
+        url: previewUrl,
+        mimeType: file.type,
+        fileName: file.name,
+        sizeBytes: file.size,
+      },
+      status: 'PENDING',
       metadata: {}
     };
 
     try {
       setSending(true);
-
-      // Optimistically add message
       setMessages(prev => [...prev, optimisticMessage]);
-      setMessageText('');
 
-      // Send message to backend
-      const response = await api.post('/api/whatsapp/send', {
+      const uploaded = await uploadChatMedia(chatId, file, onProgress);
+      await sendWhatsAppMedia({
         to: chat.customerPhone,
-        text: messageText
+        type,
+        mediaId: uploaded.mediaId,
+        caption: caption || undefined,
+        fileName: type === 'DOCUMENT' ? uploaded.fileName : undefined,
+        clientMessageId: optimisticMessage.id,
       });
+      pauseBotOnReply(chat.id);
+
+      await fetchMessages();
+    } catch (error) {
+      console.error('Failed to send attachment:', error);
+
+      // Keep it in the thread so it can be retried
+      failedUploadsRef.current.set(optimisticMessage.id, { file, caption });
+      const errorMessage = getApiErrorMessage(error, 'Failed to send attachment');
+      setMessages(prev =>
+        prev.map(m => (m.id === optimisticMessage.id ? { ...m, status: 'FAILED', errorMessage } : m))
+      );
+
+      if (isWindowClosedError(error)) {
+        handleWindowClosed();
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Add an internal note - it goes to the team, never to WhatsApp
+  const handleAddNote = async (text: string, mentions: NoteMention[]) => {
+    if (!chatId || sending) return;
+
+    try {
+      setSending(true);
+      const note = await addChatNote(chatId, text, mentions);
+      setMessages(prev => mergeMessages(prev, [note]));
+    } catch (error) {
+      console.error('Failed to add note:', error);
+      alert(getApiErrorMessage(error, 'Failed to add note. Please try again.'));
+      throw error;
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Fill in a canned response for this chat and count the use
+  const handleUseCannedResponse = async (response: CannedResponse): Promise<string> => {
+    recordCannedResponseUse(response.id).catch((error) =>
+      console.error('Failed to record canned response use:', error)
+    );
+    return chat ? renderCannedResponse(response.body, chat) : response.body;
+  };
+
+  // Confirm a booking made from this chat back to the patient
+  const handleBooked = async (appointment: AppointmentResponse) => {
+    setAppointmentsVersion((v) => v + 1);
+    if (windowOpen) {
+      await handleSendText(getBookingConfirmationText(appointment));
+    } else {
+      // Free text isn't allowed - let staff pick a confirmation template
+      setShowTemplatePicker(true);
+    }
+  };
+
+  // Remove a failed message from the thread
+  const handleDiscard = (messageId: string) => {
+    if (outboxEntries.some((entry) => entry.id === messageId)) {
+      discardOutboxMessage(messageId);
+      return;
+    }
 
-      console.log('Send message response:', response.data);
+    failedUploadsRef.current.delete(messageId);
+    setMessages(prev => prev.filter(m => m.id !== messageId));
+  };
+
+  // Send a failed message again
+  const handleRetry = async (messageId: string) => {
+    if (!windowOpen) {
+      setShowTemplatePicker(true);
+      return;
+    }
+
+    if (outboxEntries.some((entry) => entry.id === messageId)) {
+      try {
+        await retryOutboxMessage(messageId);
+      } catch (error) {
+        console.error('Retry failed:', error);
+        if (isWindowClosedError(error)) {
+          handleWindowClosed();
+        }
+      }
+      return;
+    }
+
+    const upload = failedUploadsRef.current.get(messageId);
+    if (!upload) return;
+    handleDiscard(messageId);
+    await handleSendMedia(upload.file, upload.caption, () => {});
+  };
+
+  // Send an approved template; errors are rethrown so the picker stays open
+  const handleSendTemplate = async (template: MessageTemplate, values: string[], headerMediaUrl?: string) => {
+    if (!chat) return;
+
+    const optimisticMessage: Message = {
+      id: `temp-${Date.now()}`,
+      type: 'TEXT',
+      content: renderTemplateText(template.body, values),
+      direction: 'OUT',
+      createdAt: new Date().toISOString(),
+      status: 'PENDING',
+      metadata: { templateName: template.name }
+    };
+
+    try {
+      setSending(true);
+      setMessages(prev => [...prev, optimisticMessage]);
+
+      await sendWhatsAppTemplate({
+        to: chat.customerPhone,
+        templateName: template.name,
+        language: template.language,
+        bodyParams: values,
+        headerMediaUrl,
+        clientMessageId: optimisticMessage.id,
+      });
+      pauseBotOnReply(chat.id);
 
-      // Refresh messages to get the actual message from server
       await fetchMessages();
-    } catch (error: any) {
-      console.error('Failed to send message:', error);
-      console.error('Error response:', error.response?.data);
-      console.error('Error status:', error.response?.status);
-      
-      // Remove optimistic message on error
+    } catch (error) {
+      console.error('Failed to send template:', error);
+
       setMessages(prev => prev.filter(m => m.id !== optimisticMessage.id));
-      
-      const errorMsg = error.response?.data?.error || error.response?.data?.message || 'Failed to send message. Please try again.';
-      alert(errorMsg);
+
+      alert(getApiErrorMessage(error, 'Failed to send template. Please try again.'));
+      throw error;
     } finally {
       setSending(false);
     }
   };
 
-  // Handle Enter key to send
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      handleSend();
+  // Queue a free-form message to go out later, while the service window is still open
+  const handleScheduleText = async (text: string, scheduledFor: Date) => {
+    if (!chat) return;
+
+    const timeError = validateScheduleTime(scheduledFor, Date.now(), true, lastInboundAt);
+    if (timeError) {
+      alert(timeError);
+      throw new Error(timeError);
+    }
+
+    try {
+      await scheduleMessage({
+        chatId: chat.id,
+        to: chat.customerPhone,
+        text,
+        scheduledFor: scheduledFor.toISOString(),
+      });
+      setScheduledVersion((v) => v + 1);
+    } catch (error) {
+      console.error('Failed to schedule message:', error);
+      alert(getApiErrorMessage(error, 'Failed to schedule message. Please try again.'));
+      throw error;
+    }
+  };
+
+  const handleScheduleTemplate = async (
+    template: MessageTemplate,
+    values: string[],
+    headerMediaUrl: string | undefined,
+    scheduledFor: Date
+  ) => {
+    if (!chat) return;
+
+    try {
+      await scheduleMessage({
+        chatId: chat.id,
+        to: chat.customerPhone,
+        template: {
+          templateName: template.name,
+          language: template.language,
+          bodyParams: values,
+          headerMediaUrl,
+        },
+        scheduledFor: scheduledFor.toISOString(),
+      });
+      setScheduledVersion((v) => v + 1);
+    } catch (error) {
+      console.error('Failed to schedule template:', error);
+      alert(getApiErrorMessage(error, 'Failed to schedule template. Please try again.'));
+      throw error;
     }
   };
 
@@ -143,60 +641,159 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ chatId }) => {
   }
 
   return (
-    <div className="flex-1 flex flex-col bg-gray-50">
-      {/* Chat Header */}
-      <div className="h-16 bg-white border-b border-gray-200 flex items-center px-6">
-        <div>
-          <h2 className="text-lg font-semibold text-gray-900">
-            {chat?.customerName || chat?.customerPhone || 'Loading...'}
-          </h2>
-          {chat?.customerPhone && (
-            <p className="text-sm text-gray-500">{chat.customerPhone}</p>
+    <div className="flex-1 flex min-w-0">
+      <div className="flex-1 flex flex-col bg-gray-50 min-w-0">
+        {/* Chat Header */}
+        <div className="h-16 bg-white border-b border-gray-200 flex items-center justify-between px-6">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              {chat?.customerName || chat?.customerPhone || 'Loading...'}
+            </h2>
+            {chat?.customerPhone && (
+              <p className="text-sm text-gray-500">{chat.customerPhone}</p>
+            )}
+          </div>
+          {chat && (
+            <div className="flex items-center gap-3">
+              <ServiceWindowIndicator lastInboundAt={windowOpen ? lastInboundAt : undefined} now={now} />
+              <ChatStateMenu chat={chat} now={now} onChange={handleChatChange} />
+              <BotHandoffToggle chat={chat} now={now} onChange={handleChatChange} />
+              <ChatAssignmentMenu chat={chat} onAssigned={handleChatChange} />
+              <button
+                onClick={handleSummarize}
+                disabled={summarizing}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-purple-700 border border-purple-200 rounded-lg hover:bg-purple-50 transition disabled:opacity-50"
+                title="Summarize this conversation"
+              >
+                <Sparkles className="w-4 h-4" />
+                Summarize
+              </button>
+              <button
+                onClick={() => setShowExport(true)}
+                className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 transition"
+                title="Export conversation"
+              >
+                <Download className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowCustomerPanel(!showCustomerPanel)}
+                className={`p-2 rounded-lg transition ${
+                  showCustomerPanel ? 'bg-blue-50 text-blue-600' : 'text-gray-500 hover:bg-gray-100'
+                }`}
+                title={showCustomerPanel ? 'Hide customer details' : 'Show customer details'}
+              >
+                <PanelRight className="w-5 h-5" />
+              </button>
+            </div>
           )}
         </div>
-      </div>
 
-      {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4">
+        {showSummary && (
+          <ConversationSummaryPanel
+            summary={summary}
+            loading={summarizing}
+            error={summaryError}
+            onRefresh={handleSummarize}
+            onClose={() => setShowSummary(false)}
+          />
+        )}
+
+        {/* Escalation raised by the AI assistant */}
+        {chat?.escalated && (
+          <div className="flex items-center gap-3 px-6 py-2 bg-red-50 border-b border-red-200">
+            <AlertTriangle className="w-4 h-4 text-red-600 flex-shrink-0" />
+            <p className="flex-1 text-sm text-red-800">
+              <span className="font-medium">The AI assistant asked for a human to take over</span>
+              {chat.escalationReason && <span>: {chat.escalationReason}</span>}
+            </p>
+            <button
+              onClick={handleResolveEscalation}
+              className="px-3 py-1 text-sm font-medium text-red-700 border border-red-300 rounded-lg hover:bg-red-100 transition"
+            >
+              Mark resolved
+            </button>
+          </div>
+        )}
+
+        {/* Customer replied STOP or was opted out by staff */}
+        {chat?.customerConsent === 'OPTED_OUT' && (
+          <div className="flex items-center gap-3 px-6 py-2 bg-yellow-50 border-b border-yellow-200">
+            <BellOff className="w-4 h-4 text-yellow-700 flex-shrink-0" />
+            <p className="text-sm text-yellow-800">
+              This customer opted out of marketing messages. Replies and appointment updates are still allowed.
+            </p>
+          </div>
+        )}
+
+        {/* Messages Area */}
         {loading && messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full">
+          <div className="flex-1 flex items-center justify-center">
             <p className="text-gray-500">Loading messages...</p>
           </div>
-        ) : messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full">
+        ) : threadMessages.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center">
             <p className="text-gray-500">No messages yet</p>
           </div>
         ) : (
-          <>
-            {messages.map((message) => (
-              <MessageBubble key={message.id} message={message} />
-            ))}
-            <div ref={messagesEndRef} />
-          </>
+          <MessageList
+            messages={threadMessages}
+            hasMore={!!nextCursor}
+            loadingOlder={loadingOlder}
+            onLoadOlder={loadOlderMessages}
+            focusMessageId={focusMessageId}
+            onRetry={handleRetry}
+            onDiscard={handleDiscard}
+          />
         )}
-      </div>
 
-      {/* Message Input Area */}
-      <div className="bg-white border-t border-gray-200 p-4">
-        <div className="flex items-end gap-2">
-          <textarea
-            value={messageText}
-            onChange={(e) => setMessageText(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Type a message"
-            rows={2}
-            disabled={sending}
-            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none"
+        {/* Message Input Area */}
+        <ScheduledMessagesBar chatId={chatId} lastInboundAt={lastInboundAt} refreshKey={scheduledVersion} />
+
+        <MessageComposer
+          sending={sending}
+          windowOpen={windowOpen || !chat}
+          onSendText={handleSendText}
+          onSendMedia={handleSendMedia}
+          onOpenTemplates={() => setShowTemplatePicker(true)}
+          onAddNote={handleAddNote}
+          onUseCannedResponse={handleUseCannedResponse}
+          onScheduleText={handleScheduleText}
+          customerLanguage={customerLanguage}
+          suggestedReplies={suggestedReplies}
+        />
+
+        {showExport && chat && <ExportTranscriptModal chat={chat} onClose={() => setShowExport(false)} />}
+
+        {showTemplatePicker && chat && (
+          <TemplatePickerModal
+            chat={chat}
+            onClose={() => setShowTemplatePicker(false)}
+            onSend={handleSendTemplate}
+            onSchedule={handleScheduleTemplate}
           />
-          <button
-            onClick={handleSend}
-            disabled={!messageText.trim() || sending}
-            className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition h-[72px]"
-          >
-            {sending ? 'Sending...' : 'Send'}
-          </button>
-        </div>
+        )}
       </div>
+
+      {/* Customer Details */}
+      {showCustomerPanel && chat && (
+        <CustomerSidePanel
+          chat={chat}
+          refreshKey={appointmentsVersion}
+          onBook={() => setShowBookingModal(true)}
+          onConsentChange={(consent) => handleChatChange({ ...chat, customerConsent: consent.status })}
+        />
+      )}
+
+      {showBookingModal && chat && (
+        <AddAppointmentModal
+          isOpen
+          onClose={() => setShowBookingModal(false)}
+          onSuccess={handleBooked}
+          defaultPhone={chat.customerPhone}
+          defaultPatientName={chat.customerName}
+          chatId={chat.id}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,123 @@
+import { useState, useEffect, useRef } from 'react';
+import dayjs from 'dayjs';
+import { Archive, CheckCircle2, ChevronDown, Clock, RotateCcw } from 'lucide-react';
+import { updateChatState, getApiErrorMessage, type Chat, type ChatState } from '../lib/api';
+import { CHAT_STATES, CHAT_STATE_COLORS, SNOOZE_OPTIONS, getChatState } from '../lib/chatState';
+
+interface ChatStateMenuProps {
+  chat: Chat;
+  now: number;
+  onChange: (chat: Chat) => void;
+}
+
+/**
+ * Lifecycle actions for the chat header: resolve, snooze, archive and reopen
+ */
+const ChatStateMenu: React.FC<ChatStateMenuProps> = ({ chat, now, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const state = getChatState(chat, now);
+  const label = CHAT_STATES.find((s) => s.value === state)?.label || state;
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const changeState = async (next: ChatState, snoozedUntil?: Date) => {
+    try {
+      setSaving(true);
+      const updated = await updateChatState(chat.id, next, snoozedUntil?.toISOString());
+      onChange(updated);
+      setOpen(false);
+    } catch (error) {
+      console.error('Failed to update chat state:', error);
+      alert(getApiErrorMessage(error, 'Failed to update the conversation. Please try again.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={saving}
+        className={`flex items-center gap-1 px-2.5 py-1 border rounded-full text-xs font-medium transition disabled:opacity-50 ${CHAT_STATE_COLORS[state]}`}
+        title="Conversation status"
+      >
+        {label}
+        {state === 'PENDING' && chat.snoozedUntil && (
+          <span className="font-normal">until {dayjs(chat.snoozedUntil).format('DD MMM, HH:mm')}</span>
+        )}
+        <ChevronDown className="w-3.5 h-3.5" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+          {state !== 'RESOLVED' && (
+            <button
+              onClick={() => changeState('RESOLVED')}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <CheckCircle2 className="w-4 h-4 text-blue-600" />
+              Resolve
+            </button>
+          )}
+          {state !== 'OPEN' && (
+            <button
+              onClick={() => changeState('OPEN')}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <RotateCcw className="w-4 h-4 text-green-600" />
+              Reopen
+            </button>
+          )}
+
+          <div className="border-t border-gray-100 mt-1 pt-1">
+            <p className="flex items-center gap-2 px-3 py-1 text-xs font-medium text-gray-500">
+              <Clock className="w-3.5 h-3.5" />
+              Snooze until a reply or...
+            </p>
+            {SNOOZE_OPTIONS.map((option) => {
+              const until = option.getUntil(now);
+              return (
+                <button
+                  key={option.label}
+                  onClick={() => changeState('PENDING', until)}
+                  className="w-full flex justify-between px-3 py-1.5 pl-8 text-left text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  {option.label}
+                  <span className="text-xs text-gray-400">{dayjs(until).format('ddd HH:mm')}</span>
+                </button>
+              );
+            })}
+          </div>
+
+          {state !== 'ARCHIVED' && (
+            <div className="border-t border-gray-100 mt-1 pt-1">
+              <button
+                onClick={() => changeState('ARCHIVED')}
+                className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+              >
+                <Archive className="w-4 h-4 text-gray-500" />
+                Archive
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatStateMenu;
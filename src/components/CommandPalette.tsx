@@ -0,0 +1,213 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { Calendar, FileText, MessageCircle, Search, User } from 'lucide-react';
+import {
+  listAppointments,
+  queryCustomers,
+  searchChats,
+  type AppointmentResponse,
+  type ChatSearchResult,
+  type Customer,
+} from '../lib/api';
+import { NAV_ITEMS } from '../lib/navigation';
+import { useDebounce } from '../hooks/useDebounce';
+
+// Shortest query sent to the server
+const MIN_SEARCH_LENGTH = 2;
+// Most results shown per group
+const MAX_GROUP_RESULTS = 5;
+
+const PAGES = [
+  { path: '/dashboard', label: 'Dashboard' },
+  ...NAV_ITEMS,
+  { path: '/campaigns/new', label: 'New Campaign' },
+];
+
+type CommandGroup = 'Pages' | 'Chats' | 'Patients' | 'Appointments';
+
+interface Command {
+  id: string;
+  group: CommandGroup;
+  label: string;
+  detail?: string;
+  path: string;
+}
+
+const GROUP_ICONS: Record<CommandGroup, React.ElementType> = {
+  Pages: FileText,
+  Chats: MessageCircle,
+  Patients: User,
+  Appointments: Calendar,
+};
+
+interface CommandPaletteProps {
+  onClose: () => void;
+}
+
+/**
+ * Jump to any page, chat, patient or appointment from the keyboard
+ */
+export default function CommandPalette({ onClose }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [chatResults, setChatResults] = useState<ChatSearchResult[]>([]);
+  const [customerResults, setCustomerResults] = useState<Customer[]>([]);
+  // Appointments around today, searched locally
+  const [appointments, setAppointments] = useState<AppointmentResponse[]>([]);
+  const listRef = useRef<HTMLDivElement>(null);
+  const debouncedQuery = useDebounce(query.trim(), 250);
+  const isSearching = debouncedQuery.length >= MIN_SEARCH_LENGTH;
+
+  useEffect(() => {
+    listAppointments({
+      startDate: dayjs().subtract(30, 'day').format('YYYY-MM-DD'),
+      endDate: dayjs().add(60, 'day').format('YYYY-MM-DD'),
+      size: 500,
+    })
+      .then((page) => setAppointments(page.content))
+      .catch((err) => console.error('Failed to load appointments for search:', err));
+  }, []);
+
+  useEffect(() => {
+    if (debouncedQuery.length < MIN_SEARCH_LENGTH) return;
+
+    let cancelled = false;
+    const runSearch = async () => {
+      const [chats, customers] = await Promise.all([
+        searchChats(debouncedQuery, MAX_GROUP_RESULTS).catch(() => []),
+        queryCustomers({ search: debouncedQuery, size: MAX_GROUP_RESULTS })
+          .then((page) => page.content)
+          .catch(() => []),
+      ]);
+      if (cancelled) return;
+      setChatResults(chats);
+      setCustomerResults(customers);
+    };
+    runSearch();
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  const lowerQuery = query.trim().toLowerCase();
+  const commands: Command[] = [
+    ...PAGES.filter((page) => page.label.toLowerCase().includes(lowerQuery)).map((page) => ({
+      id: `page-${page.path}`,
+      group: 'Pages' as const,
+      label: page.label,
+      path: page.path,
+    })),
+    ...(isSearching
+      ? [
+          ...chatResults.map((result, index) => ({
+            id: `chat-${result.chatId}-${result.messageId || index}`,
+            group: 'Chats' as const,
+            label: result.customerName || result.customerPhone,
+            detail: result.snippet,
+            path: `/chats?chatId=${result.chatId}${result.messageId ? `&messageId=${result.messageId}` : ''}`,
+          })),
+          ...customerResults.map((customer) => ({
+            id: `patient-${customer.id}`,
+            group: 'Patients' as const,
+            label: customer.name || customer.phoneNumber,
+            detail: customer.phoneNumber,
+            path: `/customers/${customer.id}`,
+          })),
+          ...appointments
+            .filter((a) =>
+              `${a.patientName} ${a.patientPhone} ${a.serviceName}`.toLowerCase().includes(lowerQuery)
+            )
+            .slice(0, MAX_GROUP_RESULTS)
+            .map((appointment) => ({
+              id: `appointment-${appointment.id}`,
+              group: 'Appointments' as const,
+              label: `${appointment.patientName} · ${appointment.serviceName}`,
+              detail: dayjs(appointment.startTime).format('ddd, DD MMM · h:mm A'),
+              path: `/appointments?date=${dayjs(appointment.startTime).format('YYYY-MM-DD')}`,
+            })),
+        ]
+      : []),
+  ];
+  const active = Math.min(highlighted, commands.length - 1);
+
+  const runCommand = (command: Command) => {
+    navigate(command.path);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (commands.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      const next = (active + step + commands.length) % commands.length;
+      setHighlighted(next);
+      listRef.current?.querySelector(`[data-index="${next}"]`)?.scrollIntoView({ block: 'nearest' });
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (commands[active]) runCommand(commands[active]);
+    } else if (e.key === 'Escape' || ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k')) {
+      // Page shortcuts are off while the palette is open, so it closes itself on Ctrl+K too
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 p-4 pt-[15vh]" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl max-w-xl w-full overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-3 px-4 border-b border-gray-200">
+          <Search className="w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setHighlighted(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Jump to a page, chat, patient or appointment..."
+            className="flex-1 py-4 text-sm outline-none"
+          />
+          <kbd className="text-xs text-gray-400 font-mono">Esc</kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-96 overflow-y-auto py-2">
+          {commands.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">
+              {isSearching || !query.trim() ? 'No results' : 'Keep typing to search chats, patients and appointments'}
+            </p>
+          ) : (
+            commands.map((command, index) => {
+              const Icon = GROUP_ICONS[command.group];
+              return (
+                <div key={command.id}>
+                  {command.group !== commands[index - 1]?.group && (
+                    <p className="px-4 pt-2 pb-1 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                      {command.group}
+                    </p>
+                  )}
+                  <button
+                    data-index={index}
+                    onClick={() => runCommand(command)}
+                    onMouseMove={() => setHighlighted(index)}
+                    className={`w-full flex items-center gap-3 px-4 py-2 text-left ${
+                      index === active ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                    <span className="text-sm font-medium truncate">{command.label}</span>
+                    {command.detail && <span className="ml-auto text-xs text-gray-500 truncate">{command.detail}</span>}
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
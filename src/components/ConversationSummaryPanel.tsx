@@ -0,0 +1,68 @@
+import dayjs from 'dayjs';
+import { RefreshCw, Sparkles, X } from 'lucide-react';
+import type { ConversationSummary } from '../lib/api';
+
+interface ConversationSummaryPanelProps {
+  summary: ConversationSummary | null;
+  loading: boolean;
+  error: string;
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Assistant's summary of the conversation, shown under the chat header
+ */
+const ConversationSummaryPanel: React.FC<ConversationSummaryPanelProps> = ({
+  summary,
+  loading,
+  error,
+  onRefresh,
+  onClose,
+}) => {
+  return (
+    <div className="px-6 py-3 bg-purple-50 border-b border-purple-200">
+      <div className="flex items-center gap-2 mb-1">
+        <Sparkles className="w-4 h-4 text-purple-600 flex-shrink-0" />
+        <h3 className="text-sm font-semibold text-purple-900">Conversation summary</h3>
+        {summary && !loading && (
+          <span className="text-xs text-purple-700">as of {dayjs(summary.generatedAt).format('DD MMM, h:mm A')}</span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={onRefresh}
+            disabled={loading}
+            className="p-1 rounded text-purple-600 hover:bg-purple-100 disabled:opacity-50"
+            title="Summarize again"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={onClose} className="p-1 rounded text-purple-600 hover:bg-purple-100" title="Close summary">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-purple-800">Summarizing...</p>
+      ) : error ? (
+        <p className="text-sm text-red-700">{error}</p>
+      ) : (
+        summary && (
+          <>
+            <p className="text-sm text-gray-800 whitespace-pre-wrap">{summary.summary}</p>
+            {summary.keyPoints.length > 0 && (
+              <ul className="mt-1 list-disc list-inside text-sm text-gray-700 space-y-0.5">
+                {summary.keyPoints.map((point, index) => (
+                  <li key={index}>{point}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ConversationSummaryPanel;
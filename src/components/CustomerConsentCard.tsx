@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import dayjs from 'dayjs';
+import { ShieldCheck } from 'lucide-react';
+import {
+  getCustomerConsent,
+  updateCustomerConsent,
+  getApiErrorMessage,
+  type ConsentRequest,
+  type ConsentSource,
+  type CustomerConsent,
+} from '../lib/api';
+import { useRealtimeEvent } from '../hooks/useRealtime';
+import {
+  CONSENT_SOURCE_LABELS,
+  CONSENT_STATUS_COLORS,
+  CONSENT_STATUS_LABELS,
+  MANUAL_CONSENT_SOURCES,
+} from '../lib/consent';
+
+interface CustomerConsentCardProps {
+  customerId: string;
+  onChange?: (consent: CustomerConsent) => void;
+}
+
+/**
+ * A customer's marketing consent, with a form to record a change by hand
+ */
+const CustomerConsentCard: React.FC<CustomerConsentCardProps> = ({ customerId, onChange }) => {
+  const [consent, setConsent] = useState<CustomerConsent | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<ConsentRequest>({ status: 'OPTED_IN', source: 'STAFF' });
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadConsent = async () => {
+      try {
+        const data = await getCustomerConsent(customerId);
+        if (!cancelled) setConsent(data);
+      } catch (error) {
+        console.error('Failed to load consent:', error);
+      }
+    };
+    loadConsent();
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId]);
+
+  // The server records STOP/START replies as they arrive
+  useRealtimeEvent((event) => {
+    if (event.type === 'customer.consent' && event.customerId === customerId) {
+      setConsent(event.consent);
+    }
+  });
+
+  const startEditing = () => {
+    setForm({ status: consent?.status === 'OPTED_IN' ? 'OPTED_OUT' : 'OPTED_IN', source: 'STAFF' });
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const updated = await updateCustomerConsent(customerId, { ...form, note: form.note?.trim() || undefined });
+      setConsent(updated);
+      setEditing(false);
+      onChange?.(updated);
+    } catch (error) {
+      console.error('Failed to update consent:', error);
+      alert(getApiErrorMessage(error, 'Failed to update consent'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const status = consent?.status || 'UNKNOWN';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <ShieldCheck className="w-4 h-4 text-gray-400" />
+          <span className={`px-2 py-0.5 text-xs font-medium rounded ${CONSENT_STATUS_COLORS[status]}`}>
+            {CONSENT_STATUS_LABELS[status]}
+          </span>
+        </div>
+        {!editing && (
+          <button onClick={startEditing} className="text-xs text-blue-600 hover:text-blue-700 font-medium">
+            Update
+          </button>
+        )}
+      </div>
+      {consent?.updatedAt && (
+        <p className="text-xs text-gray-500 mt-1">
+          {consent.source ? CONSENT_SOURCE_LABELS[consent.source] : 'Recorded'}
+          {consent.updatedByName ? ` by ${consent.updatedByName}` : ''} ·{' '}
+          {dayjs(consent.updatedAt).format('DD MMM YYYY, h:mm A')}
+        </p>
+      )}
+      {consent?.note && <p className="text-xs text-gray-500 italic mt-1">{consent.note}</p>}
+
+      {editing && (
+        <form onSubmit={handleSave} className="mt-3 space-y-2">
+          <select
+            value={form.status}
+            onChange={(e) => setForm({ ...form, status: e.target.value as ConsentRequest['status'] })}
+            className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="OPTED_IN">Opted in</option>
+            <option value="OPTED_OUT">Opted out</option>
+          </select>
+          <select
+            value={form.source}
+            onChange={(e) => setForm({ ...form, source: e.target.value as ConsentSource })}
+            className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            {MANUAL_CONSENT_SOURCES.map((source) => (
+              <option key={source} value={source}>
+                {CONSENT_SOURCE_LABELS[source]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={form.note || ''}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+            placeholder="Note (e.g. signed form at reception)"
+            className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="px-3 py-1 text-xs border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CustomerConsentCard;
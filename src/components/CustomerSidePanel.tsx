@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import dayjs from 'dayjs';
+import { CalendarPlus, Calendar, Phone, User } from 'lucide-react';
+import { getPatientHistory, type AppointmentResponse, type Chat, type CustomerConsent } from '../lib/api';
+import CustomerConsentCard from './CustomerConsentCard';
+
+// Past appointments shown before "show all"
+const PAST_PREVIEW_COUNT = 5;
+
+const STATUS_COLORS: Record<string, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  CONFIRMED: 'bg-green-100 text-green-800',
+  COMPLETED: 'bg-blue-100 text-blue-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+interface CustomerSidePanelProps {
+  chat: Chat;
+  refreshKey: number; // Bump to reload appointments (e.g. after booking)
+  onBook: () => void;
+  onConsentChange?: (consent: CustomerConsent) => void;
+}
+
+/**
+ * Customer details and appointments alongside a conversation
+ */
+const CustomerSidePanel: React.FC<CustomerSidePanelProps> = ({ chat, refreshKey, onBook, onConsentChange }) => {
+  const [appointments, setAppointments] = useState<AppointmentResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAllPast, setShowAllPast] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadAppointments = async () => {
+      try {
+        const history = await getPatientHistory(chat.customerId);
+        if (!cancelled) setAppointments(history.appointments);
+      } catch (error) {
+        console.error('Failed to load appointments:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadAppointments();
+    return () => {
+      cancelled = true;
+    };
+  }, [chat.customerId, refreshKey]);
+
+  const now = dayjs();
+  const upcoming = appointments
+    .filter((a) => dayjs(a.startTime).isAfter(now) && a.status !== 'CANCELLED')
+    .sort((a, b) => dayjs(a.startTime).valueOf() - dayjs(b.startTime).valueOf());
+  const past = appointments
+    .filter((a) => !upcoming.includes(a))
+    .sort((a, b) => dayjs(b.startTime).valueOf() - dayjs(a.startTime).valueOf());
+  const visiblePast = showAllPast ? past : past.slice(0, PAST_PREVIEW_COUNT);
+
+  const renderAppointment = (appointment: AppointmentResponse) => (
+    <li key={appointment.id} className="border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-gray-900 truncate">{appointment.serviceName}</p>
+        <span
+          className={`px-2 py-0.5 text-xs font-medium rounded ${
+            STATUS_COLORS[appointment.status] || 'bg-gray-100 text-gray-800'
+          }`}
+        >
+          {appointment.status}
+        </span>
+      </div>
+      <p className="text-xs text-gray-600 mt-1">
+        {dayjs(appointment.startTime).format('ddd, DD MMM YYYY · h:mm A')}
+      </p>
+      <p className="text-xs text-gray-500">{appointment.providerName}</p>
+    </li>
+  );
+
+  return (
+    <aside className="w-72 bg-white border-l border-gray-200 flex flex-col h-full">
+      {/* Customer */}
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center gap-2 text-gray-900">
+          <User className="w-4 h-4 text-gray-400" />
+          <p className="font-semibold truncate">{chat.customerName || 'Unknown patient'}</p>
+        </div>
+        <div className="flex items-center gap-2 mt-1 text-sm text-gray-600">
+          <Phone className="w-4 h-4 text-gray-400" />
+          <span>{chat.customerPhone}</span>
+        </div>
+        <div className="mt-3">
+          <CustomerConsentCard customerId={chat.customerId} onChange={onConsentChange} />
+        </div>
+        <button
+          onClick={onBook}
+          className="mt-4 w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition"
+        >
+          <CalendarPlus className="w-4 h-4" />
+          Book Appointment
+        </button>
+      </div>
+
+      {/* Appointments */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        {loading ? (
+          <p className="text-sm text-gray-500 text-center">Loading appointments...</p>
+        ) : (
+          <>
+            <section>
+              <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
+                Upcoming ({upcoming.length})
+              </h3>
+              {upcoming.length === 0 ? (
+                <p className="text-sm text-gray-500">No upcoming appointments</p>
+              ) : (
+                <ul className="space-y-2">{upcoming.map(renderAppointment)}</ul>
+              )}
+            </section>
+
+            <section>
+              <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
+                Past ({past.length})
+              </h3>
+              {past.length === 0 ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Calendar className="w-4 h-4" />
+                  No previous visits
+                </div>
+              ) : (
+                <>
+                  <ul className="space-y-2">{visiblePast.map(renderAppointment)}</ul>
+                  {past.length > PAST_PREVIEW_COUNT && (
+                    <button
+                      onClick={() => setShowAllPast(!showAllPast)}
+                      className="mt-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      {showAllPast ? 'Show less' : `Show all ${past.length}`}
+                    </button>
+                  )}
+                </>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default CustomerSidePanel;
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import dayjs from 'dayjs';
+import { X, Download } from 'lucide-react';
+import { exportChats, getTenantProfile, getApiErrorMessage, type Chat, type TranscriptFormat } from '../lib/api';
+import { getUserInfo } from '../lib/auth';
+import { downloadFile } from '../lib/files';
+import {
+  TRANSCRIPT_FORMATS,
+  buildTranscript,
+  getTranscriptFileName,
+  loadFullHistory,
+  openPrintWindow,
+  printHtml,
+  renderTranscriptHtml,
+} from '../lib/transcripts';
+
+interface ExportTranscriptModalProps {
+  chat?: Chat; // Export this chat, otherwise every chat in a date range
+  onClose: () => void;
+}
+
+/**
+ * Export a conversation transcript, or all conversations in a date range
+ */
+export default function ExportTranscriptModal({ chat, onClose }: ExportTranscriptModalProps) {
+  const [format, setFormat] = useState<TranscriptFormat>('PDF');
+  const [includeNotes, setIncludeNotes] = useState(false);
+  const [from, setFrom] = useState(() => dayjs().subtract(30, 'day').format('YYYY-MM-DD'));
+  const [to, setTo] = useState(() => dayjs().format('YYYY-MM-DD'));
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const exportChat = async (chat: Chat, printWindow: Window | null) => {
+    const [messages, tenant] = await Promise.all([
+      loadFullHistory(chat.id),
+      getTenantProfile().catch(() => null),
+    ]);
+    const transcript = buildTranscript(chat, messages, {
+      includeNotes,
+      clinicName: tenant?.name,
+      exportedBy: getUserInfo()?.sub,
+    });
+
+    if (printWindow) {
+      printHtml(printWindow, renderTranscriptHtml(transcript));
+    } else if (format === 'JSON') {
+      downloadFile(JSON.stringify(transcript, null, 2), getTranscriptFileName(transcript, 'json'), 'application/json');
+    } else {
+      downloadFile(renderTranscriptHtml(transcript), getTranscriptFileName(transcript, 'html'), 'text/html');
+    }
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!chat && dayjs(to).isBefore(dayjs(from))) {
+      setError('The end date must be on or after the start date');
+      return;
+    }
+
+    // A single chat's PDF is printed by the browser
+    const printWindow = chat && format === 'PDF' ? openPrintWindow() : null;
+    if (chat && format === 'PDF' && !printWindow) {
+      setError('Please allow pop-ups for this site to print the transcript');
+      return;
+    }
+
+    try {
+      setExporting(true);
+      if (chat) {
+        await exportChat(chat, printWindow);
+      } else {
+        const archive = await exportChats({ from, to, format, includeNotes });
+        downloadFile(archive, `transcripts-${from}-to-${to}.zip`, 'application/zip');
+      }
+      onClose();
+    } catch (err) {
+      console.error('Failed to export transcript:', err);
+      printWindow?.close();
+      setError(getApiErrorMessage(err, 'Export failed. Please try again.'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="px-6 py-4 border-b flex justify-between items-center">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <Download className="w-5 h-5 text-blue-600" />
+            {chat ? 'Export Conversation' : 'Export Conversations'}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleExport} className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+          )}
+
+          {chat ? (
+            <p className="text-sm text-gray-600">
+              Full history with {chat.customerName || chat.customerPhone}, including timestamps, sender, media
+              links and delivery status.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="date"
+                  required
+                  value={from}
+                  max={to}
+                  onChange={(e) => setFrom(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input
+                  type="date"
+                  required
+                  value={to}
+                  min={from}
+                  max={dayjs().format('YYYY-MM-DD')}
+                  onChange={(e) => setTo(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <p className="col-span-2 text-xs text-gray-500">
+                Every conversation with messages in this range, one transcript per conversation in a ZIP file.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {TRANSCRIPT_FORMATS.map((option) => (
+              <label key={option.value} className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name="format"
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                  className="mt-0.5"
+                />
+                <span>
+                  {/* A single chat's PDF comes from the browser's print dialog */}
+                  <span className="font-medium text-gray-900">
+                    {chat && option.value === 'PDF' ? 'Print / Save as PDF' : option.label}
+                  </span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input type="checkbox" checked={includeNotes} onChange={(e) => setIncludeNotes(e.target.checked)} />
+            Include internal notes
+          </label>
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={exporting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {exporting ? 'Exporting...' : chat && format === 'PDF' ? 'Print' : 'Export'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { escapeRegExp } from '../lib/text';
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+/**
+ * Text with every search term highlighted
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query }) => {
+  const terms = query.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (terms.length === 0) return <>{text}</>;
+
+  // The capture group keeps the matches in the split result, at odd indexes
+  const parts = text.split(new RegExp(`(${terms.join('|')})`, 'gi'));
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
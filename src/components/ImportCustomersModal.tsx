@@ -0,0 +1,412 @@
+import { useState } from 'react';
+import { X, Upload, AlertTriangle, Download, CheckCircle } from 'lucide-react';
+import {
+  findCustomersByPhone,
+  importCustomers,
+  getApiErrorMessage,
+  type Customer,
+  type ImportCustomersResult,
+  type ImportDuplicateAction,
+} from '../lib/api';
+import {
+  IMPORT_FIELDS,
+  buildImportErrorReport,
+  checkImportRows,
+  findDuplicateRows,
+  guessColumnMapping,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRowCheck,
+} from '../lib/customerImport';
+import { downloadFile } from '../lib/files';
+import { SPREADSHEET_ACCEPT, readSpreadsheet } from '../lib/spreadsheets';
+
+// Rows sent to the server per request
+const BATCH_SIZE = 500;
+// Rows with errors listed before "and N more"
+const MAX_ERRORS_SHOWN = 100;
+
+type ImportStep = 'upload' | 'map' | 'review' | 'import';
+
+const STEP_TITLES: Record<ImportStep, string> = {
+  upload: 'Choose a file',
+  map: 'Match columns',
+  review: 'Review',
+  import: 'Import',
+};
+
+interface ImportCustomersModalProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+/**
+ * Import patient records from a CSV or Excel file
+ */
+export default function ImportCustomersModal({ onClose, onImported }: ImportCustomersModalProps) {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [checks, setChecks] = useState<ImportRowCheck[]>([]);
+  const [duplicates, setDuplicates] = useState<Map<number, Customer>>(new Map());
+  const [onDuplicate, setOnDuplicate] = useState<ImportDuplicateAction>('SKIP');
+  const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState(0); // Rows sent so far
+  const [result, setResult] = useState<ImportCustomersResult | null>(null);
+  const [error, setError] = useState('');
+
+  const headers = rows[0] || [];
+  const invalid = checks.filter((check) => check.errors.length > 0);
+  const ready = checks.filter((check) => check.customer);
+  const toImport = onDuplicate === 'SKIP' ? ready.filter((check) => !duplicates.has(check.row)) : ready;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      setWorking(true);
+      const data = await readSpreadsheet(file);
+      if (data.filter((row) => row.some((cell) => cell.trim())).length < 2) {
+        setError('The file needs a header row and at least one patient');
+        return;
+      }
+      setFileName(file.name);
+      setRows(data);
+      setMapping(guessColumnMapping(data[0]));
+      setStep('map');
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      setError(err instanceof Error ? err.message : 'Could not read this file');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const updateMapping = (field: ImportField, column: string) => {
+    const next = { ...mapping };
+    if (column === '') {
+      delete next[field];
+    } else {
+      next[field] = Number(column);
+    }
+    setMapping(next);
+  };
+
+  // Validate the rows and look up phone numbers that already belong to customers
+  const handleReview = async () => {
+    setError('');
+    const rowChecks = checkImportRows(rows, mapping);
+    const phoneNumbers = rowChecks.flatMap((check) => (check.customer ? [check.customer.phoneNumber] : []));
+
+    try {
+      setWorking(true);
+      const existing: Customer[] = [];
+      for (let i = 0; i < phoneNumbers.length; i += BATCH_SIZE) {
+        existing.push(...(await findCustomersByPhone(phoneNumbers.slice(i, i + BATCH_SIZE))));
+      }
+      setChecks(rowChecks);
+      setDuplicates(findDuplicateRows(rowChecks, existing));
+      setStep('review');
+    } catch (err) {
+      console.error('Failed to check for existing customers:', err);
+      setError(getApiErrorMessage(err, 'Failed to check for existing customers'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setError('');
+    setStep('import');
+    setProgress(0);
+    // Duplicates we never send still count as skipped
+    const totals: ImportCustomersResult = { created: 0, updated: 0, skipped: ready.length - toImport.length, errors: [] };
+    let sent = 0;
+
+    try {
+      setWorking(true);
+      for (let i = 0; i < toImport.length; i += BATCH_SIZE) {
+        const batch = toImport.slice(i, i + BATCH_SIZE).flatMap((check) => (check.customer ? [check.customer] : []));
+        const batchResult = await importCustomers({ customers: batch, onDuplicate });
+        totals.created += batchResult.created;
+        totals.updated += batchResult.updated;
+        totals.skipped += batchResult.skipped;
+        totals.errors.push(...batchResult.errors);
+        sent = Math.min(i + BATCH_SIZE, toImport.length);
+        setProgress(sent);
+      }
+      setResult(totals);
+      onImported();
+    } catch (err) {
+      console.error('Failed to import customers:', err);
+      setError(getApiErrorMessage(err, 'The import stopped part way. Rows already imported have been saved.'));
+      // Rows from the failed batch on go in the error report, so they can be imported again
+      totals.errors.push(
+        ...toImport.slice(sent).map((check) => ({ row: check.row, message: 'Not imported - the import stopped before this row' }))
+      );
+      setResult(totals);
+      if (totals.created || totals.updated) onImported();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Every row that wasn't imported, from validation and from the server
+  const handleDownloadErrors = () => {
+    const byRow = new Map(checks.map((check) => [check.row, check.cells]));
+    const failures = [
+      ...invalid.map((check) => ({ row: check.row, cells: check.cells, message: check.errors.join('; ') })),
+      ...(result?.errors || []).map((e) => ({ row: e.row, cells: byRow.get(e.row) || [], message: e.message })),
+    ].sort((a, b) => a.row - b.row);
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    downloadFile(buildImportErrorReport(headers, failures), `${baseName}-errors.csv`, 'text/csv');
+  };
+
+  const failedCount = invalid.length + (result?.errors.length || 0);
+  const phoneMapped = mapping.phoneNumber !== undefined;
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b flex justify-between items-center">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <Upload className="w-5 h-5 text-blue-600" />
+            Import Patients · {STEP_TITLES[step]}
+          </h3>
+          <button onClick={onClose} disabled={working && step === 'import'} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+          )}
+
+          {/* Step 1: File */}
+          {step === 'upload' && (
+            <>
+              <p className="text-sm text-gray-600">
+                Upload a CSV or Excel (.xlsx) file with one patient per row and a header row. Only the first sheet of
+                a workbook is read. Phone numbers without a country code are taken as Indian numbers.
+              </p>
+              <label className="flex flex-col items-center justify-center gap-2 px-6 py-10 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
+                <Upload className="w-8 h-8 text-gray-400" />
+                <span className="text-sm font-medium text-blue-600">{working ? 'Reading file...' : 'Choose a file'}</span>
+                <span className="text-xs text-gray-500">.csv or .xlsx</span>
+                <input
+                  type="file"
+                  accept={SPREADSHEET_ACCEPT}
+                  onChange={handleFileChange}
+                  disabled={working}
+                  className="hidden"
+                />
+              </label>
+            </>
+          )}
+
+          {/* Step 2: Columns */}
+          {step === 'map' && (
+            <>
+              <p className="text-sm text-gray-600">
+                Choose which column of <span className="font-medium">{fileName}</span> holds each detail. A phone
+                number is required.
+              </p>
+              <div className="space-y-3">
+                {IMPORT_FIELDS.map(({ field, label, required }) => {
+                  const column = mapping[field];
+                  const sample = column !== undefined ? rows.slice(1).find((row) => row[column]?.trim())?.[column] : '';
+                  return (
+                    <div key={field} className="grid grid-cols-3 items-center gap-3">
+                      <label className="text-sm font-medium text-gray-700">
+                        {label}
+                        {required && <span className="text-red-500"> *</span>}
+                      </label>
+                      <select
+                        value={column ?? ''}
+                        onChange={(e) => updateMapping(field, e.target.value)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Don't import</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header.trim() || `Column ${index + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                      <span className="text-xs text-gray-500 truncate">{sample && `e.g. ${sample}`}</span>
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-gray-500">
+                Tags can be separated by commas or semicolons. Marketing consent should be yes or no - patients
+                marked no won't receive campaigns.
+              </p>
+            </>
+          )}
+
+          {/* Step 3: Review */}
+          {step === 'review' && (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="p-3 bg-green-50 rounded-lg">
+                  <p className="text-2xl font-semibold text-green-800">{ready.length - duplicates.size}</p>
+                  <p className="text-xs text-green-800">New patients</p>
+                </div>
+                <div className="p-3 bg-blue-50 rounded-lg">
+                  <p className="text-2xl font-semibold text-blue-800">{duplicates.size}</p>
+                  <p className="text-xs text-blue-800">Already customers</p>
+                </div>
+                <div className="p-3 bg-red-50 rounded-lg">
+                  <p className="text-2xl font-semibold text-red-800">{invalid.length}</p>
+                  <p className="text-xs text-red-800">Rows with errors</p>
+                </div>
+              </div>
+
+              {duplicates.size > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-700">Patients whose phone number is already saved</p>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input type="radio" checked={onDuplicate === 'SKIP'} onChange={() => setOnDuplicate('SKIP')} />
+                    Skip them and keep the details we have
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input type="radio" checked={onDuplicate === 'UPDATE'} onChange={() => setOnDuplicate('UPDATE')} />
+                    Update them with the details in the file
+                  </label>
+                </div>
+              )}
+
+              {invalid.length > 0 && (
+                <div className="border border-red-200 rounded-lg">
+                  <div className="flex items-center justify-between px-4 py-2 bg-red-50 border-b border-red-200">
+                    <span className="flex items-center gap-2 text-sm font-medium text-red-800">
+                      <AlertTriangle className="w-4 h-4" />
+                      These rows won't be imported
+                    </span>
+                    <button
+                      onClick={handleDownloadErrors}
+                      className="flex items-center gap-1 text-xs font-medium text-red-700 hover:underline"
+                    >
+                      <Download className="w-3.5 h-3.5" />
+                      Download
+                    </button>
+                  </div>
+                  <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 text-sm">
+                    {invalid.slice(0, MAX_ERRORS_SHOWN).map((check) => (
+                      <li key={check.row} className="flex gap-3 px-4 py-2">
+                        <span className="text-gray-500 w-14 flex-shrink-0">Row {check.row}</span>
+                        <span className="text-gray-800">{check.errors.join('; ')}</span>
+                      </li>
+                    ))}
+                    {invalid.length > MAX_ERRORS_SHOWN && (
+                      <li className="px-4 py-2 text-gray-500">and {invalid.length - MAX_ERRORS_SHOWN} more...</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Step 4: Import */}
+          {step === 'import' && (
+            <>
+              {working ? (
+                <div>
+                  <div className="flex justify-between text-sm text-gray-600 mb-1">
+                    <span>Importing...</span>
+                    <span>
+                      {progress} of {toImport.length}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 transition-all"
+                      style={{ width: `${toImport.length ? (progress / toImport.length) * 100 : 100}%` }}
+                    />
+                  </div>
+                </div>
+              ) : (
+                result && (
+                  <div className="space-y-3">
+                    {!error && (
+                      <p className="flex items-center gap-2 text-sm font-medium text-green-700">
+                        <CheckCircle className="w-5 h-5" />
+                        Import finished
+                      </p>
+                    )}
+                    <ul className="text-sm text-gray-700 space-y-1">
+                      <li>{result.created} new patients added</li>
+                      <li>{result.updated} existing patients updated</li>
+                      <li>{result.skipped} existing patients skipped</li>
+                      <li>{failedCount} rows not imported</li>
+                    </ul>
+                    {failedCount > 0 && (
+                      <button
+                        onClick={handleDownloadErrors}
+                        className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        <Download className="w-4 h-4" />
+                        Download error report
+                      </button>
+                    )}
+                  </div>
+                )
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t">
+          {step === 'map' && (
+            <>
+              <button
+                onClick={() => setStep('upload')}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleReview}
+                disabled={!phoneMapped || working}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {working ? 'Checking...' : 'Next'}
+              </button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <button
+                onClick={() => setStep('map')}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={toImport.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Import {toImport.length} patient{toImport.length !== 1 ? 's' : ''}
+              </button>
+            </>
+          )}
+          {(step === 'upload' || (step === 'import' && !working)) && (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              {step === 'import' ? 'Done' : 'Cancel'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
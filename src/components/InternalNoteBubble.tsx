@@ -0,0 +1,46 @@
+import dayjs from 'dayjs';
+import { Lock } from 'lucide-react';
+import type { Message } from '../lib/api';
+import { escapeRegExp } from '../lib/text';
+
+interface InternalNoteBubbleProps {
+  message: Message;
+}
+
+/**
+ * Internal staff note in a chat thread - only visible to the team
+ */
+const InternalNoteBubble: React.FC<InternalNoteBubbleProps> = ({ message }) => {
+  const mentionNames = (message.mentions || []).map((m) => escapeRegExp(`@${m.name}`));
+
+  // Highlight @mentions (the capture group keeps them at odd indexes)
+  const parts = mentionNames.length > 0
+    ? message.content.split(new RegExp(`(${mentionNames.join('|')})`, 'g'))
+    : [message.content];
+
+  return (
+    <div className="flex justify-center mb-2">
+      <div className="w-full max-w-[80%] bg-yellow-50 border border-yellow-200 rounded-lg px-4 py-2">
+        <div className="flex items-center gap-1.5 text-xs text-yellow-800 mb-1">
+          <Lock className="w-3 h-3" />
+          <span className="font-medium">Internal note</span>
+          {message.authorName && <span>· {message.authorName}</span>}
+          <span className="ml-auto text-yellow-700">{dayjs(message.createdAt).format('HH:mm')}</span>
+        </div>
+        <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">
+          {parts.map((part, index) =>
+            index % 2 === 1 ? (
+              <span key={index} className="font-semibold text-blue-700">
+                {part}
+              </span>
+            ) : (
+              part
+            )
+          )}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default InternalNoteBubble;
@@ -0,0 +1,124 @@
+import { FileText, Download, MapPin, User, Phone } from 'lucide-react';
+import type { Message } from '../lib/api';
+import { formatFileSize } from '../lib/media';
+
+interface MessageAttachmentProps {
+  message: Message;
+}
+
+/**
+ * Renders the non-text part of a message (image, document, audio, video, location, contact)
+ */
+const MessageAttachment: React.FC<MessageAttachmentProps> = ({ message }) => {
+  const isIncoming = message.direction === 'IN';
+  const { media, location, contacts } = message;
+  const mutedText = isIncoming ? 'text-gray-600' : 'text-blue-100';
+  const panel = isIncoming ? 'bg-white/70' : 'bg-blue-700/50';
+
+  switch (message.type) {
+    case 'IMAGE':
+      if (!media) return null;
+      return (
+        <a href={media.url} target="_blank" rel="noopener noreferrer" className="block mb-1">
+          <img
+            src={media.thumbnailUrl || media.url}
+            alt={media.fileName || 'Image'}
+            loading="lazy"
+            className="rounded-lg max-h-64 max-w-full object-cover"
+          />
+        </a>
+      );
+
+    case 'VIDEO':
+      if (!media) return null;
+      return (
+        <video
+          src={media.url}
+          poster={media.thumbnailUrl}
+          controls
+          preload="metadata"
+          className="rounded-lg max-h-64 max-w-full mb-1"
+        />
+      );
+
+    case 'AUDIO':
+      if (!media) return null;
+      return <audio src={media.url} controls preload="metadata" className="max-w-full mb-1" />;
+
+    case 'DOCUMENT':
+      if (!media) return null;
+      return (
+        <div className={`flex items-center gap-3 rounded-lg p-3 mb-1 ${panel}`}>
+          <FileText className="w-8 h-8 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{media.fileName || 'Document'}</p>
+            <p className={`text-xs ${mutedText}`}>
+              {[media.mimeType?.split('/').pop()?.toUpperCase(), formatFileSize(media.sizeBytes)]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          </div>
+          <a
+            href={media.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            download={media.fileName}
+            title="Download"
+            className="p-2 rounded-full hover:bg-black/10 transition"
+          >
+            <Download className="w-5 h-5" />
+          </a>
+        </div>
+      );
+
+    case 'LOCATION':
+      if (!location) return null;
+      return (
+        <a
+          href={`https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`flex items-start gap-3 rounded-lg p-3 mb-1 hover:opacity-90 ${panel}`}
+        >
+          <MapPin className="w-6 h-6 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium">{location.name || 'Shared location'}</p>
+            <p className={`text-xs ${mutedText}`}>
+              {location.address || `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`}
+            </p>
+          </div>
+        </a>
+      );
+
+    case 'CONTACT':
+      if (!contacts || contacts.length === 0) return null;
+      return (
+        <div className="space-y-1 mb-1">
+          {contacts.map((contact, index) => (
+            <div key={index} className={`rounded-lg p-3 ${panel}`}>
+              <div className="flex items-center gap-2">
+                <User className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm font-medium">{contact.name}</p>
+              </div>
+              {contact.phones.map((phone) => (
+                <a
+                  key={phone}
+                  href={`tel:${phone}`}
+                  className={`flex items-center gap-2 text-xs mt-1 hover:underline ${mutedText}`}
+                >
+                  <Phone className="w-3 h-3" />
+                  {phone}
+                </a>
+              ))}
+              {contact.email && <p className={`text-xs mt-1 ${mutedText}`}>{contact.email}</p>}
+            </div>
+          ))}
+        </div>
+      );
+
+    default:
+      return null;
+  }
+};
+
+export default MessageAttachment;
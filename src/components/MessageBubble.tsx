@@ -1,67 +1,123 @@
+import { memo } from 'react';
 import dayjs from 'dayjs';
-
-interface Message {
-  id: string;
-  content: string;
-  direction: 'IN' | 'OUT';
-  createdAt: string;
-  metadata?: {
-    action?: string;
-    [key: string]: any;
-  };
-}
+import { Check, CheckCheck, Clock, AlertCircle, BellOff, Bell } from 'lucide-react';
+import MessageAttachment from './MessageAttachment';
+import InternalNoteBubble from './InternalNoteBubble';
+import BookingActionCard from './BookingActionCard';
+import MessageTranslation from './MessageTranslation';
+import { getBookingAction } from '../lib/bookingActions';
+import type { Message } from '../lib/api';
 
 interface MessageBubbleProps {
   message: Message;
+  onRetry?: (messageId: string) => void;
+  onDiscard?: (messageId: string) => void;
+  highlighted?: boolean; // e.g. the message a search result points to
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onRetry, onDiscard, highlighted = false }) => {
+  if (message.type === 'NOTE') {
+    return <InternalNoteBubble message={message} />;
+  }
+
   const isIncoming = message.direction === 'IN';
 
   const formatTime = (timestamp: string) => {
     return dayjs(timestamp).format('HH:mm');
   };
 
-  const hasBookingAction = message.metadata?.action === 'CREATE_BOOKING';
+  const booking = getBookingAction(message);
+  const failed = message.status === 'FAILED';
+
+  // WhatsApp-style ticks for outgoing messages
+  const statusIcon = () => {
+    switch (message.status) {
+      case 'PENDING':
+        return <Clock className="w-3.5 h-3.5" aria-label="Sending" />;
+      case 'SENT':
+        return <Check className="w-3.5 h-3.5" aria-label="Sent" />;
+      case 'DELIVERED':
+        return <CheckCheck className="w-3.5 h-3.5" aria-label="Delivered" />;
+      case 'READ':
+        return <CheckCheck className="w-3.5 h-3.5 text-sky-300" aria-label="Read" />;
+      case 'FAILED':
+        return <AlertCircle className="w-3.5 h-3.5 text-red-200" aria-label="Failed" />;
+      default:
+        return null;
+    }
+  };
 
   return (
     <div
-      className={`flex mb-2 ${
-        isIncoming ? 'justify-start' : 'justify-end'
+      className={`flex flex-col mb-2 ${
+        isIncoming ? 'items-start' : 'items-end'
       }`}
     >
       <div
-        className={`rounded-xl px-4 py-2 max-w-[70%] ${
+        className={`rounded-xl px-4 py-2 max-w-[70%] ${highlighted ? 'ring-4 ring-yellow-300' : ''} ${
           isIncoming
             ? 'bg-gray-200 text-black'
-            : 'bg-blue-600 text-white'
+            : failed
+              ? 'bg-blue-400 text-white'
+              : 'bg-blue-600 text-white'
         }`}
       >
-        {/* Message Content */}
-        <p className="text-sm whitespace-pre-wrap break-words">
-          {message.content}
-        </p>
+        {/* Media / Location / Contact */}
+        <MessageAttachment message={message} />
 
-        {/* Action Tag (if booking) */}
-        {hasBookingAction && (
-          <div className="mt-2">
-            <span className="text-xs bg-green-200 text-green-800 rounded px-2 py-1">
-              Booking
-            </span>
-          </div>
+        {/* Message Content (caption for media) */}
+        {message.content && (
+          <p className="text-sm whitespace-pre-wrap break-words">
+            {message.content}
+          </p>
         )}
 
-        {/* Timestamp */}
+        {/* Detected language and translation */}
+        {isIncoming && message.content && <MessageTranslation message={message} />}
+
+        {/* Booking made by the assistant */}
+        {booking && <BookingActionCard booking={booking} />}
+
+        {/* Timestamp and delivery status */}
         <p
-          className={`text-xs mt-1 ${
+          className={`flex items-center justify-end gap-1 text-xs mt-1 ${
             isIncoming ? 'text-gray-600' : 'text-blue-100'
           }`}
         >
           {formatTime(message.createdAt)}
+          {!isIncoming && statusIcon()}
         </p>
       </div>
+
+      {/* Consent change the server recorded from a STOP/START reply */}
+      {isIncoming && message.consentChange && (
+        <div className="flex items-center gap-1 mt-1 text-xs text-gray-500">
+          {message.consentChange === 'OPTED_OUT' ? <BellOff className="w-3.5 h-3.5" /> : <Bell className="w-3.5 h-3.5" />}
+          {message.consentChange === 'OPTED_OUT' ? 'Opted out of marketing messages' : 'Opted back in to marketing messages'}
+        </div>
+      )}
+
+      {/* Failure reason and actions */}
+      {failed && (
+        <div className="flex items-center gap-2 mt-1 text-xs text-red-600 max-w-[70%]">
+          <span className="truncate" title={message.errorMessage}>
+            Not sent{message.errorMessage ? `: ${message.errorMessage}` : ''}
+          </span>
+          {onRetry && (
+            <button onClick={() => onRetry(message.id)} className="font-medium hover:underline">
+              Retry
+            </button>
+          )}
+          {onDiscard && (
+            <button onClick={() => onDiscard(message.id)} className="text-gray-500 hover:underline">
+              Delete
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
 
-export default MessageBubble;
+// Memoized so that refreshing the thread only re-renders changed messages
+export default memo(MessageBubble);
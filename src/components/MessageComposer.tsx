@@ -0,0 +1,612 @@
+import { useState, useRef } from 'react';
+import {
+  Paperclip,
+  X,
+  FileText,
+  Image as ImageIcon,
+  Music,
+  Video,
+  LayoutTemplate,
+  Clock,
+  Lock,
+  CalendarClock,
+  Languages,
+  Sparkles,
+} from 'lucide-react';
+import {
+  listStaff,
+  listCannedResponses,
+  type CannedResponse,
+  type NoteMention,
+  type Staff,
+} from '../lib/api';
+import {
+  ACCEPTED_FILE_TYPES,
+  formatFileSize,
+  getMediaType,
+  validateMediaFile,
+} from '../lib/media';
+import { getActiveMentions, getMentionQuery, insertMention } from '../lib/mentions';
+import { searchCannedResponses } from '../lib/cannedResponses';
+import { getDefaultScheduleTime, toDateTimeInputValue } from '../lib/scheduling';
+import { getLanguageName, translateReply } from '../lib/translation';
+import { useStaffLanguage } from '../hooks/useTranslation';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import StaffAvatar from './StaffAvatar';
+
+// Most staff suggestions shown for an @mention
+const MAX_MENTION_SUGGESTIONS = 6;
+// Most canned responses shown for a "/" search
+const MAX_CANNED_SUGGESTIONS = 8;
+
+type ComposerMode = 'reply' | 'note';
+
+interface MessageComposerProps {
+  sending: boolean;
+  windowOpen: boolean; // Free-form messages are only allowed inside the 24h service window
+  onSendText: (text: string) => Promise<void>;
+  onSendMedia: (file: File, caption: string, onProgress: (percent: number) => void) => Promise<void>;
+  onOpenTemplates: () => void;
+  onAddNote: (text: string, mentions: NoteMention[]) => Promise<void>; // Rejects when the note wasn't saved
+  onUseCannedResponse: (response: CannedResponse) => Promise<string>; // Returns the filled-in text
+  onScheduleText: (text: string, scheduledFor: Date) => Promise<void>;
+  customerLanguage?: string | null; // Detected from the customer's latest message
+  suggestedReplies?: string[]; // Offered while the draft is empty
+}
+
+const MessageComposer: React.FC<MessageComposerProps> = ({
+  sending,
+  windowOpen,
+  onSendText,
+  onSendMedia,
+  onOpenTemplates,
+  onAddNote,
+  onUseCannedResponse,
+  onScheduleText,
+  customerLanguage,
+  suggestedReplies = [],
+}) => {
+  const [mode, setMode] = useState<ComposerMode>('reply');
+  const [messageText, setMessageText] = useState('');
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // @mentions (internal notes only)
+  const [staff, setStaff] = useState<Staff[]>([]);
+  const [mentions, setMentions] = useState<NoteMention[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(0);
+
+  // Canned responses, searched by typing "/" (loaded on first use)
+  const [cannedResponses, setCannedResponses] = useState<CannedResponse[] | null>(null);
+  const [cannedMenuDismissed, setCannedMenuDismissed] = useState(false);
+
+  // Send later
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [scheduleTime, setScheduleTime] = useState('');
+
+  // Translate a reply into the customer's language
+  const staffLanguage = useStaffLanguage();
+  const [translating, setTranslating] = useState(false);
+  const [originalText, setOriginalText] = useState<string | null>(null); // Draft before translation
+
+  const isNote = mode === 'note';
+  // Notes never reach WhatsApp, so the service window doesn't apply to them
+  const canType = isNote || windowOpen;
+
+  const mentionSuggestions = mentionQuery
+    ? staff
+        .filter((member) => member.name.toLowerCase().includes(mentionQuery.query.toLowerCase()))
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+
+  const slashMatch = !isNote && !cannedMenuDismissed ? /^\/(\S*)$/.exec(messageText) : null;
+  const cannedSuggestions =
+    slashMatch && cannedResponses
+      ? searchCannedResponses(cannedResponses, slashMatch[1]).slice(0, MAX_CANNED_SUGGESTIONS)
+      : [];
+  const suggestionCount = mentionSuggestions.length || cannedSuggestions.length;
+  const canTranslate = !isNote && !!customerLanguage && customerLanguage !== staffLanguage;
+
+  const loadCannedResponses = async () => {
+    try {
+      setCannedResponses(await listCannedResponses());
+    } catch (error) {
+      console.error('Failed to load canned responses:', error);
+      setCannedResponses([]);
+    }
+  };
+
+  // Start a canned response search from anywhere in the chat, keeping any draft
+  const startCannedSearch = () => {
+    textareaRef.current?.focus();
+    if (messageText.trim()) return;
+    setMessageText('/');
+    setCannedMenuDismissed(false);
+    if (cannedResponses === null) loadCannedResponses();
+  };
+
+  useKeyboardShortcuts({ 'mod+/': startCannedSearch }, !isNote && canType && !sending);
+
+  // Start the draft from a suggested reply so it can be edited before sending
+  const handleUseSuggestedReply = (reply: string) => {
+    setMessageText(reply);
+    setOriginalText(null);
+    textareaRef.current?.focus();
+  };
+
+  const handleModeChange = async (next: ComposerMode) => {
+    setMode(next);
+    setMentionQuery(null);
+    setShowSchedule(false);
+    if (next === 'note') {
+      setAttachment(null);
+      if (staff.length === 0) {
+        try {
+          setStaff(await listStaff());
+        } catch (error) {
+          console.error('Failed to load staff for mentions:', error);
+        }
+      }
+    }
+  };
+
+  const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setMessageText(e.target.value);
+    if (!e.target.value) setOriginalText(null);
+    setCannedMenuDismissed(false);
+    if (!isNote && e.target.value.startsWith('/') && cannedResponses === null) {
+      loadCannedResponses();
+    }
+    setHighlightedSuggestion(0);
+    if (isNote) {
+      setMentionQuery(getMentionQuery(e.target.value, e.target.selectionStart));
+    }
+  };
+
+  const selectMention = (member: Staff) => {
+    const textarea = textareaRef.current;
+    if (!mentionQuery || !textarea) return;
+
+    const result = insertMention(messageText, mentionQuery.start, textarea.selectionStart, member.name);
+    setMessageText(result.text);
+    setMentions((prev) => [...prev, { staffId: member.id, name: member.name }]);
+    setMentionQuery(null);
+
+    // Put the caret after the inserted name once React has updated the value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  // Replace the "/search" with the filled-in canned response
+  const selectCannedResponse = async (response: CannedResponse) => {
+    setCannedMenuDismissed(true);
+    const text = await onUseCannedResponse(response);
+    setMessageText(text);
+    textareaRef.current?.focus();
+  };
+
+  // Navigate @mention / canned response suggestions with the keyboard
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestionCount === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedSuggestion((prev) => (prev + step + suggestionCount) % suggestionCount);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      const index = Math.min(highlightedSuggestion, suggestionCount - 1);
+      if (mentionSuggestions.length > 0) {
+        selectMention(mentionSuggestions[index]);
+      } else {
+        selectCannedResponse(cannedSuggestions[index]);
+      }
+    } else if (e.key === 'Escape') {
+      setMentionQuery(null);
+      setCannedMenuDismissed(true);
+    }
+  };
+
+  const handleTranslate = async () => {
+    if (!customerLanguage || !messageText.trim()) return;
+
+    try {
+      setTranslating(true);
+      const result = await translateReply(messageText, customerLanguage);
+      setOriginalText(messageText);
+      setMessageText(result.text);
+    } catch (error) {
+      console.error('Failed to translate reply:', error);
+      alert('Failed to translate the message. Please try again.');
+    } finally {
+      setTranslating(false);
+    }
+  };
+
+  const handleUndoTranslation = () => {
+    if (originalText === null) return;
+    setMessageText(originalText);
+    setOriginalText(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again later
+    e.target.value = '';
+    if (!file) return;
+
+    const error = validateMediaFile(file);
+    if (error) {
+      alert(error);
+      return;
+    }
+    setAttachment(file);
+  };
+
+  const handleSend = async () => {
+    if (sending) return;
+
+    if (isNote) {
+      if (!messageText.trim()) return;
+      const text = messageText.trim();
+      const noteMentions = getActiveMentions(mentions, text);
+      try {
+        await onAddNote(text, noteMentions);
+        setMessageText('');
+        setMentions([]);
+      } catch {
+        // onAddNote reports its own errors; keep the note so it isn't lost
+      }
+      return;
+    }
+
+    if (attachment) {
+      const file = attachment;
+      const caption = messageText.trim();
+      setAttachment(null);
+      setMessageText('');
+      setUploadProgress(0);
+      try {
+        await onSendMedia(file, caption, setUploadProgress);
+      } finally {
+        setUploadProgress(null);
+      }
+      return;
+    }
+
+    if (!messageText.trim()) return;
+    const text = messageText;
+    setMessageText('');
+    setOriginalText(null);
+    await onSendText(text);
+  };
+
+  const handleToggleSchedule = () => {
+    if (!showSchedule) {
+      setScheduleTime(toDateTimeInputValue(getDefaultScheduleTime(Date.now())));
+    }
+    setShowSchedule(!showSchedule);
+  };
+
+  const handleSchedule = async () => {
+    const text = messageText.trim();
+    if (!text || !scheduleTime) return;
+
+    try {
+      await onScheduleText(text, new Date(scheduleTime));
+      setMessageText('');
+      setOriginalText(null);
+      setShowSchedule(false);
+    } catch {
+      // onScheduleText reports its own errors; keep the text so it can be fixed
+    }
+  };
+
+  // Handle Enter key to send
+  const handleKeyPress = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      if (showSchedule && !isNote) {
+        handleSchedule();
+      } else {
+        handleSend();
+      }
+    }
+  };
+
+  const attachmentIcon = () => {
+    switch (attachment && getMediaType(attachment)) {
+      case 'IMAGE':
+        return <ImageIcon className="w-5 h-5 text-blue-600" />;
+      case 'AUDIO':
+        return <Music className="w-5 h-5 text-blue-600" />;
+      case 'VIDEO':
+        return <Video className="w-5 h-5 text-blue-600" />;
+      default:
+        return <FileText className="w-5 h-5 text-blue-600" />;
+    }
+  };
+
+  return (
+    <div className={`border-t border-gray-200 p-4 ${isNote ? 'bg-yellow-50' : 'bg-white'}`}>
+      {/* Suggested Replies */}
+      {!isNote && canType && !messageText.trim() && !attachment && suggestedReplies.length > 0 && (
+        <div className="mb-3 flex items-center gap-2 overflow-x-auto">
+          <Sparkles className="w-4 h-4 text-purple-600 flex-shrink-0" />
+          {suggestedReplies.map((reply) => (
+            <button
+              key={reply}
+              onClick={() => handleUseSuggestedReply(reply)}
+              className="px-3 py-1 text-sm text-purple-800 bg-purple-50 border border-purple-200 rounded-full hover:bg-purple-100 transition whitespace-nowrap"
+              title="Use this reply - you can edit it before sending"
+            >
+              {reply}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Reply / Internal Note */}
+      <div className="flex items-center gap-1 mb-3">
+        <button
+          onClick={() => handleModeChange('reply')}
+          className={`px-3 py-1 text-sm font-medium rounded-lg transition ${
+            !isNote ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          Reply
+        </button>
+        <button
+          onClick={() => handleModeChange('note')}
+          className={`flex items-center gap-1 px-3 py-1 text-sm font-medium rounded-lg transition ${
+            isNote ? 'bg-yellow-200 text-yellow-900' : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          <Lock className="w-3.5 h-3.5" />
+          Internal note
+        </button>
+        {isNote && (
+          <span className="ml-2 text-xs text-yellow-800">
+            Only visible to your team. Type @ to mention someone.
+          </span>
+        )}
+      </div>
+
+      {/* Upload Progress */}
+      {uploadProgress !== null && (
+        <div className="mb-3">
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>Uploading...</span>
+            <span>{uploadProgress}%</span>
+          </div>
+          <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${uploadProgress}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Service Window Closed */}
+      {!canType && (
+        <div className="mb-3 flex items-center gap-3 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg">
+          <Clock className="w-5 h-5 text-amber-600 flex-shrink-0" />
+          <p className="flex-1 text-sm text-amber-800">
+            It's been more than 24 hours since this customer last messaged. Only an approved
+            template can be sent until they reply.
+          </p>
+          <button
+            onClick={onOpenTemplates}
+            disabled={sending}
+            className="px-3 py-1.5 bg-amber-600 text-white text-sm font-medium rounded-lg hover:bg-amber-700 transition disabled:opacity-50 whitespace-nowrap"
+          >
+            Send a template
+          </button>
+        </div>
+      )}
+
+      {/* Send Later */}
+      {showSchedule && !isNote && (
+        <div className="mb-3 flex items-center gap-3 px-3 py-2 bg-indigo-50 border border-indigo-200 rounded-lg">
+          <CalendarClock className="w-5 h-5 text-indigo-600 flex-shrink-0" />
+          <span className="text-sm text-indigo-900">Send this message at</span>
+          <input
+            type="datetime-local"
+            value={scheduleTime}
+            min={toDateTimeInputValue(Date.now())}
+            onChange={(e) => setScheduleTime(e.target.value)}
+            className="px-2 py-1 text-sm border border-indigo-200 rounded focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            onClick={handleSchedule}
+            disabled={!messageText.trim() || !scheduleTime || sending}
+            className="ml-auto px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 transition disabled:opacity-50"
+          >
+            Schedule
+          </button>
+          <button
+            onClick={() => setShowSchedule(false)}
+            className="text-gray-400 hover:text-gray-600 transition"
+            title="Send now instead"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Translated Reply */}
+      {originalText !== null && !isNote && (
+        <div className="mb-3 flex items-center gap-3 px-3 py-2 bg-emerald-50 border border-emerald-200 rounded-lg">
+          <Languages className="w-5 h-5 text-emerald-600 flex-shrink-0" />
+          <p className="flex-1 text-sm text-emerald-900">
+            Translated into {getLanguageName(customerLanguage || '')}. Check it reads right before sending.
+          </p>
+          <button
+            onClick={handleUndoTranslation}
+            className="px-3 py-1 text-sm font-medium text-emerald-700 hover:bg-emerald-100 rounded-lg transition"
+          >
+            Undo
+          </button>
+        </div>
+      )}
+
+      {/* Selected Attachment */}
+      {attachment && (
+        <div className="mb-3 flex items-center gap-3 px-3 py-2 bg-blue-50 border border-blue-200 rounded-lg">
+          {attachmentIcon()}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900 truncate">{attachment.name}</p>
+            <p className="text-xs text-gray-500">{formatFileSize(attachment.size)}</p>
+          </div>
+          <button
+            onClick={() => setAttachment(null)}
+            className="text-gray-400 hover:text-gray-600 transition"
+            title="Remove attachment"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_FILE_TYPES}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        {!isNote && (
+          <>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={sending || !windowOpen}
+              title="Attach a file"
+              className="p-3 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Paperclip className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onOpenTemplates}
+              disabled={sending}
+              title="Send a template"
+              className="p-3 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <LayoutTemplate className="w-5 h-5" />
+            </button>
+            <button
+              onClick={handleToggleSchedule}
+              disabled={sending || !windowOpen || !!attachment}
+              title="Send later"
+              className={`p-3 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed ${
+                showSchedule ? 'text-indigo-600 bg-indigo-50' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <CalendarClock className="w-5 h-5" />
+            </button>
+            {canTranslate && (
+              <button
+                onClick={handleTranslate}
+                disabled={sending || translating || !windowOpen || !messageText.trim()}
+                title={`Translate into ${getLanguageName(customerLanguage || '')}`}
+                className="p-3 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Languages className="w-5 h-5" />
+              </button>
+            )}
+          </>
+        )}
+        <div className="relative flex-1">
+          {/* @mention suggestions */}
+          {mentionSuggestions.length > 0 && (
+            <div className="absolute bottom-full left-0 mb-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-10">
+              {mentionSuggestions.map((member, index) => (
+                <button
+                  key={member.id}
+                  onMouseDown={(e) => {
+                    // Keep focus in the textarea
+                    e.preventDefault();
+                    selectMention(member);
+                  }}
+                  className={`w-full flex items-center gap-2 px-3 py-2 text-left text-sm ${
+                    index === highlightedSuggestion ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <StaffAvatar name={member.name} size="sm" />
+                  <span className="truncate">{member.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {/* Canned responses */}
+          {cannedSuggestions.length > 0 && (
+            <div className="absolute bottom-full left-0 mb-1 w-96 max-w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-10">
+              {cannedSuggestions.map((response, index) => (
+                <button
+                  key={response.id}
+                  onMouseDown={(e) => {
+                    // Keep focus in the textarea
+                    e.preventDefault();
+                    selectCannedResponse(response);
+                  }}
+                  className={`w-full px-3 py-2 text-left ${
+                    index === highlightedSuggestion ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-mono text-blue-700">/{response.shortcut}</span>
+                    <span className="text-sm font-medium text-gray-900 truncate">{response.title}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 truncate">{response.body}</p>
+                </button>
+              ))}
+            </div>
+          )}
+          {slashMatch && cannedResponses !== null && cannedSuggestions.length === 0 && (
+            <div className="absolute bottom-full left-0 mb-1 w-96 max-w-full bg-white border border-gray-200 rounded-lg shadow-lg px-3 py-2 text-sm text-gray-500 z-10">
+              No canned responses match. Add them in Settings.
+            </div>
+          )}
+          <textarea
+            ref={textareaRef}
+            value={messageText}
+            onChange={handleTextChange}
+            onKeyDown={handleKeyDown}
+            onKeyPress={handleKeyPress}
+            placeholder={
+              isNote
+                ? 'Write a note for your team'
+                : !windowOpen
+                  ? 'Free-form messages are unavailable outside the 24-hour window'
+                  : attachment ? 'Add a caption (optional)' : 'Type a message, or / for canned responses'
+            }
+            rows={2}
+            disabled={sending || !canType}
+            className={`w-full px-4 py-2 border rounded-lg focus:ring-2 outline-none resize-none block ${
+              isNote
+                ? 'border-yellow-300 bg-white focus:ring-yellow-400 focus:border-yellow-400'
+                : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+            }`}
+          />
+        </div>
+        <button
+          onClick={handleSend}
+          disabled={(!messageText.trim() && !attachment) || sending || !canType}
+          className={`px-6 py-2 text-white font-medium rounded-lg disabled:bg-gray-300 disabled:cursor-not-allowed transition h-[72px] ${
+            isNote ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {sending ? 'Sending...' : isNote ? 'Add Note' : 'Send'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MessageComposer;
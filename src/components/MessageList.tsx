@@ -0,0 +1,158 @@
+import { useState, useRef, useLayoutEffect } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { ArrowDown } from 'lucide-react';
+import MessageBubble from './MessageBubble';
+import type { Message } from '../lib/api';
+
+// Distance (px) from an edge that still counts as "at" that edge
+const BOTTOM_THRESHOLD = 80;
+const LOAD_OLDER_THRESHOLD = 200;
+
+interface MessageListProps {
+  messages: Message[];
+  hasMore: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => void;
+  onRetry: (messageId: string) => void;
+  onDiscard: (messageId: string) => void;
+  focusMessageId?: string | null; // Scrolled to and highlighted once loaded
+}
+
+/**
+ * Virtualized, bottom-anchored message thread.
+ * - Loads older messages when scrolled near the top, keeping the scroll position
+ * - Sticks to the bottom only while the user is already there
+ * - Otherwise shows a "jump to latest / N new messages" pill
+ */
+const MessageList: React.FC<MessageListProps> = ({
+  messages,
+  hasMore,
+  loadingOlder,
+  onLoadOlder,
+  onRetry,
+  onDiscard,
+  focusMessageId = null,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const atBottomRef = useRef(true);
+  const distanceFromBottomRef = useRef<number | null>(null);
+  const firstIdRef = useRef<string | undefined>(undefined);
+  const lastIdRef = useRef<string | undefined>(undefined);
+  const focusedIdRef = useRef<string | null>(null);
+
+  const [atBottom, setAtBottom] = useState(true);
+  const [lastSeenId, setLastSeenId] = useState<string | null>(null);
+
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 72,
+    overscan: 10,
+    getItemKey: (index) => messages[index].id,
+  });
+
+  const totalSize = virtualizer.getTotalSize();
+  const firstId = messages[0]?.id;
+  const lastId = messages[messages.length - 1]?.id;
+
+  const scrollToBottom = (behavior: ScrollBehavior = 'auto') => {
+    const el = scrollRef.current;
+    if (!el) return;
+    el.scrollTo({ top: el.scrollHeight, behavior });
+  };
+
+  // Keep the viewport steady when older messages are prepended,
+  // and stay pinned to the bottom while the user is there
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    // A message we just sent always brings the thread to the bottom
+    if (lastId !== lastIdRef.current && lastId?.startsWith('temp-')) {
+      atBottomRef.current = true;
+    }
+
+    if (firstIdRef.current && firstId !== firstIdRef.current && distanceFromBottomRef.current !== null) {
+      el.scrollTop = el.scrollHeight - distanceFromBottomRef.current;
+      distanceFromBottomRef.current = null;
+    } else if (atBottomRef.current) {
+      el.scrollTop = el.scrollHeight;
+    }
+    firstIdRef.current = firstId;
+    lastIdRef.current = lastId;
+  }, [firstId, lastId, totalSize]);
+
+  // Jump to the focused message once it has been loaded
+  const focusIndex = focusMessageId ? messages.findIndex((m) => m.id === focusMessageId) : -1;
+  useLayoutEffect(() => {
+    if (focusIndex === -1 || focusedIdRef.current === focusMessageId) return;
+    focusedIdRef.current = focusMessageId;
+    atBottomRef.current = false;
+    virtualizer.scrollToIndex(focusIndex, { align: 'center' });
+  }, [focusIndex, focusMessageId, virtualizer]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    const isAtBottom = el.scrollHeight - el.scrollTop - el.clientHeight < BOTTOM_THRESHOLD;
+    atBottomRef.current = isAtBottom;
+    setAtBottom(isAtBottom);
+    if (isAtBottom && messages.length > 0) {
+      setLastSeenId(messages[messages.length - 1].id);
+    }
+
+    if (el.scrollTop < LOAD_OLDER_THRESHOLD && hasMore && !loadingOlder) {
+      distanceFromBottomRef.current = el.scrollHeight - el.scrollTop;
+      onLoadOlder();
+    }
+  };
+
+  const lastSeenIndex = lastSeenId ? messages.findIndex((m) => m.id === lastSeenId) : -1;
+  const unseenCount = !atBottom && lastSeenIndex !== -1 ? messages.length - 1 - lastSeenIndex : 0;
+
+  return (
+    <div className="relative flex-1 min-h-0">
+      <div ref={scrollRef} onScroll={handleScroll} className="h-full overflow-y-auto p-4">
+        {/* Fixed height so toggling it doesn't shift the thread */}
+        <p className="h-6 text-center text-xs text-gray-400">
+          {loadingOlder ? 'Loading older messages...' : !hasMore && messages.length > 0 ? 'Beginning of conversation' : ''}
+        </p>
+
+        <div className="relative w-full" style={{ height: totalSize }}>
+          {virtualizer.getVirtualItems().map((item) => (
+            <div
+              key={item.key}
+              data-index={item.index}
+              ref={virtualizer.measureElement}
+              className="absolute left-0 top-0 w-full flow-root"
+              style={{ transform: `translateY(${item.start}px)` }}
+            >
+              {/* Only failed messages get the handlers, so the rest stay memoized */}
+              {messages[item.index].status === 'FAILED' ? (
+                <MessageBubble message={messages[item.index]} onRetry={onRetry} onDiscard={onDiscard} />
+              ) : (
+                <MessageBubble message={messages[item.index]} highlighted={item.index === focusIndex} />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Jump to latest */}
+      {!atBottom && messages.length > 0 && (
+        <button
+          onClick={() => scrollToBottom('smooth')}
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 px-4 py-2 bg-white border border-gray-200 rounded-full shadow-md text-sm font-medium text-blue-600 hover:bg-gray-50 transition"
+        >
+          <ArrowDown className="w-4 h-4" />
+          {unseenCount > 0
+            ? `${unseenCount} new message${unseenCount !== 1 ? 's' : ''}`
+            : 'Jump to latest'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MessageList;
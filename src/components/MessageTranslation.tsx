@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { Languages } from 'lucide-react';
+import type { Message, TranslationResult } from '../lib/api';
+import { getLanguageName, translateMessage } from '../lib/translation';
+import { useMessageLanguage, useStaffLanguage } from '../hooks/useTranslation';
+
+interface MessageTranslationProps {
+  message: Message;
+}
+
+/**
+ * Detected language of an inbound message, with an inline translation into
+ * the staff member's language
+ */
+const MessageTranslation: React.FC<MessageTranslationProps> = ({ message }) => {
+  const language = useMessageLanguage(message);
+  const staffLanguage = useStaffLanguage();
+  const [translation, setTranslation] = useState<TranslationResult | null>(null);
+  const [showTranslation, setShowTranslation] = useState(false);
+  const [translating, setTranslating] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  if (!language || language === staffLanguage) return null;
+
+  const handleToggle = async () => {
+    if (showTranslation) {
+      setShowTranslation(false);
+      return;
+    }
+
+    setShowTranslation(true);
+    // Already translated into the current staff language
+    if (translation?.targetLanguage === staffLanguage) return;
+
+    try {
+      setTranslating(true);
+      setFailed(false);
+      setTranslation(await translateMessage(message.id, message.content, staffLanguage, language));
+    } catch (error) {
+      console.error('Failed to translate message:', error);
+      setFailed(true);
+      setShowTranslation(false);
+    } finally {
+      setTranslating(false);
+    }
+  };
+
+  return (
+    <div className="mt-1">
+      {showTranslation && translation && !translating && (
+        <p className="text-sm whitespace-pre-wrap break-words border-t border-gray-300 pt-1 mt-1 italic">
+          {translation.text}
+        </p>
+      )}
+      <div className="flex items-center gap-1 text-xs text-gray-500">
+        <Languages className="w-3.5 h-3.5" />
+        <span>{getLanguageName(language)}</span>
+        <span>·</span>
+        <button onClick={handleToggle} disabled={translating} className="font-medium text-blue-700 hover:underline">
+          {translating
+            ? 'Translating...'
+            : showTranslation
+              ? 'Show original only'
+              : failed
+                ? 'Translation failed, retry'
+                : `Translate to ${getLanguageName(staffLanguage)}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MessageTranslation;
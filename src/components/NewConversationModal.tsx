@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { X, MessageSquarePlus } from 'lucide-react';
+import {
+  startChat,
+  sendWhatsAppTemplate,
+  scheduleMessage,
+  getApiErrorMessage,
+  type Chat,
+  type MessageTemplate,
+} from '../lib/api';
+import { normalizePhoneNumber } from '../lib/phone';
+import { getWindowRemainingMs } from '../lib/serviceWindow';
+import TemplatePickerModal from './TemplatePickerModal';
+
+interface NewConversationModalProps {
+  onClose: () => void;
+  onStarted: (chat: Chat) => void;
+}
+
+/**
+ * Start a conversation with a phone number. Unless the customer has messaged
+ * in the last 24 hours, the first message has to be an approved template.
+ */
+export default function NewConversationModal({ onClose, onStarted }: NewConversationModalProps) {
+  const [phone, setPhone] = useState('');
+  const [name, setName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  // Set once the chat exists and needs a template to open it
+  const [chat, setChat] = useState<Chat | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const normalized = normalizePhoneNumber(phone);
+    if (!normalized) {
+      setError('Please enter a valid WhatsApp number, including the country code for numbers outside India');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const started = await startChat({ phone: normalized, name: name.trim() || undefined });
+      if (getWindowRemainingMs(started.lastInboundAt, Date.now()) > 0) {
+        // Existing conversation that can still be replied to freely
+        onStarted(started);
+      } else {
+        setChat(started);
+      }
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to start conversation'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSendTemplate = async (template: MessageTemplate, values: string[], headerMediaUrl?: string) => {
+    if (!chat) return;
+
+    try {
+      await sendWhatsAppTemplate({
+        to: chat.customerPhone,
+        templateName: template.name,
+        language: template.language,
+        bodyParams: values,
+        headerMediaUrl,
+      });
+      onStarted(chat);
+    } catch (err) {
+      console.error('Failed to send template:', err);
+      alert(getApiErrorMessage(err, 'Failed to send template. Please try again.'));
+      throw err;
+    }
+  };
+
+  const handleScheduleTemplate = async (
+    template: MessageTemplate,
+    values: string[],
+    headerMediaUrl: string | undefined,
+    scheduledFor: Date
+  ) => {
+    if (!chat) return;
+
+    try {
+      await scheduleMessage({
+        chatId: chat.id,
+        to: chat.customerPhone,
+        template: {
+          templateName: template.name,
+          language: template.language,
+          bodyParams: values,
+          headerMediaUrl,
+        },
+        scheduledFor: scheduledFor.toISOString(),
+      });
+      onStarted(chat);
+    } catch (err) {
+      console.error('Failed to schedule template:', err);
+      alert(getApiErrorMessage(err, 'Failed to schedule template. Please try again.'));
+      throw err;
+    }
+  };
+
+  if (chat) {
+    return (
+      <TemplatePickerModal
+        chat={chat}
+        onClose={onClose}
+        onSend={handleSendTemplate}
+        onSchedule={handleScheduleTemplate}
+      />
+    );
+  }
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="px-6 py-4 border-b flex justify-between items-center">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <MessageSquarePlus className="w-5 h-5 text-blue-600" />
+            New Conversation
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">WhatsApp number *</label>
+            <input
+              type="tel"
+              required
+              autoFocus
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="+91 98765 43210"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Patient name (optional)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            WhatsApp only lets businesses start a conversation with an approved template. You can
+            send it now or schedule it for later.
+          </p>
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {submitting ? 'Starting...' : 'Continue'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
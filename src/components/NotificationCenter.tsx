@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import { AtSign, BellOff, MessageCircle, Settings, X } from 'lucide-react';
+import {
+  clearNotifications,
+  markAllNotificationsRead,
+  openNotification,
+  requestDesktopPermission,
+  saveNotificationPreferences,
+  type InAppNotification,
+  type NotificationPreferences,
+} from '../lib/notifications';
+import { useNotificationState } from '../hooks/useNotifications';
+
+dayjs.extend(relativeTime);
+
+interface NotificationCenterProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Drawer listing recent alerts, with the user's notification preferences
+ */
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose }) => {
+  const { notifications, preferences } = useNotificationState();
+  const [showPreferences, setShowPreferences] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    'Notification' in window ? Notification.permission : 'unsupported'
+  );
+
+  if (!isOpen) return null;
+
+  const updatePreferences = (changes: Partial<NotificationPreferences>) => {
+    saveNotificationPreferences({ ...preferences, ...changes });
+  };
+
+  const handleEnableDesktop = async () => {
+    setPermission(await requestDesktopPermission());
+    updatePreferences({ desktop: true });
+  };
+
+  const handleOpen = (notification: InAppNotification) => {
+    openNotification(notification);
+    onClose();
+  };
+
+  const renderToggle = (key: keyof NotificationPreferences, label: string, description?: string) => (
+    <label className="flex items-start gap-3 py-2 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={Boolean(preferences[key])}
+        onChange={(e) => updatePreferences({ [key]: e.target.checked })}
+        className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+      />
+      <span>
+        <span className="block text-sm text-gray-900">{label}</span>
+        {description && <span className="block text-xs text-gray-500">{description}</span>}
+      </span>
+    </label>
+  );
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-20" onClick={onClose} />
+
+      <aside className="relative w-96 max-w-full h-full bg-white shadow-xl flex flex-col">
+        {/* Header */}
+        <div className="h-16 px-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {showPreferences ? 'Notification Settings' : 'Notifications'}
+          </h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowPreferences(!showPreferences)}
+              className={`p-2 rounded-full hover:bg-gray-100 ${showPreferences ? 'text-blue-600' : 'text-gray-500'}`}
+              title="Notification settings"
+            >
+              <Settings className="w-5 h-5" />
+            </button>
+            <button onClick={onClose} className="p-2 text-gray-500 rounded-full hover:bg-gray-100" title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {showPreferences ? (
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            <div className="divide-y divide-gray-100">
+              {renderToggle('muted', 'Mute all alerts', 'New messages still appear here and in the unread count')}
+              {renderToggle('sound', 'Play a sound')}
+              {renderToggle('desktop', 'Desktop notifications')}
+              {renderToggle('onlyAssigned', 'Only chats assigned to me', 'Mentions in notes are always shown')}
+              {renderToggle('quietHours', 'Quiet hours', 'No sound or desktop alerts during these hours')}
+            </div>
+
+            {preferences.quietHours && (
+              <div className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="time"
+                  value={preferences.quietStart}
+                  onChange={(e) => updatePreferences({ quietStart: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                />
+                <span>to</span>
+                <input
+                  type="time"
+                  value={preferences.quietEnd}
+                  onChange={(e) => updatePreferences({ quietEnd: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            )}
+
+            {preferences.desktop && permission !== 'granted' && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                {permission === 'unsupported' ? (
+                  'This browser does not support desktop notifications.'
+                ) : permission === 'denied' ? (
+                  'Desktop notifications are blocked. Allow them for this site in your browser settings.'
+                ) : (
+                  <>
+                    Your browser needs permission to show desktop notifications.{' '}
+                    <button onClick={handleEnableDesktop} className="font-medium underline">
+                      Allow
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            {notifications.length > 0 && (
+              <div className="px-4 py-2 border-b border-gray-100 flex justify-between text-sm">
+                <button onClick={markAllNotificationsRead} className="text-blue-600 hover:text-blue-700 font-medium">
+                  Mark all as read
+                </button>
+                <button onClick={clearNotifications} className="text-gray-500 hover:text-gray-700">
+                  Clear
+                </button>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto">
+              {preferences.muted && (
+                <div className="mx-4 mt-3 flex items-center gap-2 text-xs text-gray-500">
+                  <BellOff className="w-4 h-4" />
+                  Alerts are muted
+                </div>
+              )}
+              {notifications.length === 0 ? (
+                <p className="p-8 text-center text-sm text-gray-500">You're all caught up</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {notifications.map((notification) => (
+                    <li key={notification.id}>
+                      <button
+                        onClick={() => handleOpen(notification)}
+                        className={`w-full flex gap-3 px-4 py-3 text-left hover:bg-gray-50 ${
+                          notification.read ? '' : 'bg-blue-50'
+                        }`}
+                      >
+                        {notification.kind === 'mention' ? (
+                          <AtSign className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+                        ) : (
+                          <MessageCircle className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+                        )}
+                        <span className="flex-1 min-w-0">
+                          <span className="flex justify-between gap-2">
+                            <span className="text-sm font-medium text-gray-900 truncate">{notification.title}</span>
+                            <span className="text-xs text-gray-400 flex-shrink-0">
+                              {dayjs(notification.createdAt).fromNow()}
+                            </span>
+                          </span>
+                          <span className="block text-sm text-gray-600 truncate">{notification.body}</span>
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default NotificationCenter;
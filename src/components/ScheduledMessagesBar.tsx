@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import dayjs from 'dayjs';
+import { AlertCircle, CalendarClock, ChevronDown, ChevronUp, LayoutTemplate, Pencil, Trash2 } from 'lucide-react';
+import {
+  listScheduledMessages,
+  updateScheduledMessage,
+  cancelScheduledMessage,
+  getApiErrorMessage,
+  type ScheduledMessage,
+} from '../lib/api';
+import { toDateTimeInputValue, validateScheduleTime } from '../lib/scheduling';
+
+interface ScheduledMessagesBarProps {
+  chatId: string;
+  lastInboundAt?: string;
+  refreshKey: number; // Bump to reload (e.g. after scheduling or when one was sent)
+}
+
+/**
+ * Messages waiting to be sent in a chat, and those that failed to send,
+ * shown above the composer
+ */
+const ScheduledMessagesBar: React.FC<ScheduledMessagesBarProps> = ({ chatId, lastInboundAt, refreshKey }) => {
+  const [scheduled, setScheduled] = useState<ScheduledMessage[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editTime, setEditTime] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadScheduled = async () => {
+      try {
+        const data = await listScheduledMessages(chatId);
+        if (!cancelled) {
+          setScheduled(data.sort((a, b) => dayjs(a.scheduledFor).valueOf() - dayjs(b.scheduledFor).valueOf()));
+        }
+      } catch (err) {
+        console.error('Failed to load scheduled messages:', err);
+      }
+    };
+    loadScheduled();
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId, refreshKey]);
+
+  if (scheduled.length === 0) return null;
+
+  const waiting = scheduled.filter((m) => m.status === 'SCHEDULED');
+  const failedCount = scheduled.length - waiting.length;
+
+  const handleEdit = (message: ScheduledMessage) => {
+    setEditingId(message.id);
+    setEditText(message.text || '');
+    setEditTime(toDateTimeInputValue(message.scheduledFor));
+    setError('');
+  };
+
+  const handleSave = async (message: ScheduledMessage) => {
+    const scheduledFor = new Date(editTime);
+    const timeError = validateScheduleTime(scheduledFor, Date.now(), !message.template, lastInboundAt);
+    if (timeError) {
+      setError(timeError);
+      return;
+    }
+    if (!message.template && !editText.trim()) {
+      setError('Message cannot be empty');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const updated = await updateScheduledMessage(message.id, {
+        text: message.template ? undefined : editText.trim(),
+        scheduledFor: scheduledFor.toISOString(),
+      });
+      setScheduled((prev) =>
+        prev
+          .map((m) => (m.id === updated.id ? updated : m))
+          .sort((a, b) => dayjs(a.scheduledFor).valueOf() - dayjs(b.scheduledFor).valueOf())
+      );
+      setEditingId(null);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to update scheduled message'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (message: ScheduledMessage) => {
+    if (!confirm(message.status === 'FAILED' ? 'Discard this failed message?' : 'Cancel this scheduled message?')) return;
+
+    try {
+      await cancelScheduledMessage(message.id);
+      setScheduled((prev) => prev.filter((m) => m.id !== message.id));
+    } catch (err) {
+      alert(getApiErrorMessage(err, 'Failed to cancel scheduled message'));
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 bg-indigo-50">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-4 py-2 text-sm text-indigo-800 hover:bg-indigo-100"
+      >
+        <CalendarClock className="w-4 h-4" />
+        {waiting.length > 0 && (
+          <>
+            <span className="font-medium">
+              {waiting.length} scheduled message{waiting.length !== 1 ? 's' : ''}
+            </span>
+            <span className="text-indigo-600">· next {dayjs(waiting[0].scheduledFor).format('DD MMM, HH:mm')}</span>
+          </>
+        )}
+        {failedCount > 0 && (
+          <span className="flex items-center gap-1 font-medium text-red-700">
+            <AlertCircle className="w-4 h-4" />
+            {failedCount} failed
+          </span>
+        )}
+        {expanded ? <ChevronDown className="w-4 h-4 ml-auto" /> : <ChevronUp className="w-4 h-4 ml-auto" />}
+      </button>
+
+      {expanded && (
+        <ul className="max-h-60 overflow-y-auto px-4 pb-3 space-y-2">
+          {scheduled.map((message) => (
+            <li
+              key={message.id}
+              className={`bg-white border rounded-lg p-3 ${message.status === 'FAILED' ? 'border-red-200' : 'border-indigo-100'}`}
+            >
+              {editingId === message.id ? (
+                <div className="space-y-2">
+                  {!message.template && (
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      rows={2}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 resize-none"
+                    />
+                  )}
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="datetime-local"
+                      value={editTime}
+                      onChange={(e) => setEditTime(e.target.value)}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="ml-auto px-3 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+                    >
+                      Back
+                    </button>
+                    <button
+                      onClick={() => handleSave(message)}
+                      disabled={saving}
+                      className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                  {error && <p className="text-xs text-red-600">{error}</p>}
+                </div>
+              ) : (
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-medium text-indigo-700">
+                      {dayjs(message.scheduledFor).format('ddd, DD MMM YYYY · HH:mm')}
+                      {message.createdByName && (
+                        <span className="font-normal text-gray-500"> · by {message.createdByName}</span>
+                      )}
+                    </p>
+                    {message.template ? (
+                      <p className="flex items-center gap-1 text-sm text-gray-700 mt-0.5">
+                        <LayoutTemplate className="w-3.5 h-3.5 text-gray-400" />
+                        <span className="font-mono">{message.template.templateName}</span>
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-700 mt-0.5 line-clamp-2 whitespace-pre-wrap">{message.text}</p>
+                    )}
+                    {message.status === 'FAILED' && (
+                      <p className="flex items-center gap-1 text-xs text-red-600 mt-1">
+                        <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+                        Not sent{message.errorMessage ? `: ${message.errorMessage}` : ''} - edit to reschedule it
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleEdit(message)}
+                    className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded"
+                    title="Edit"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleCancel(message)}
+                    className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded"
+                    title={message.status === 'FAILED' ? 'Discard' : 'Cancel'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScheduledMessagesBar;
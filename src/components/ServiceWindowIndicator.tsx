@@ -0,0 +1,46 @@
+import { Clock } from 'lucide-react';
+import {
+  WINDOW_WARNING_MS,
+  formatWindowRemaining,
+  getWindowRemainingMs,
+} from '../lib/serviceWindow';
+
+interface ServiceWindowIndicatorProps {
+  lastInboundAt?: string;
+  now: number;
+  compact?: boolean; // Short form for chat list rows
+}
+
+/**
+ * Countdown for the 24-hour customer service window, or a "closed" notice
+ */
+const ServiceWindowIndicator: React.FC<ServiceWindowIndicatorProps> = ({ lastInboundAt, now, compact = false }) => {
+  const remaining = getWindowRemainingMs(lastInboundAt, now);
+  const closingSoon = remaining > 0 && remaining <= WINDOW_WARNING_MS;
+
+  const colors =
+    remaining === 0
+      ? 'bg-red-50 text-red-700 border-red-200'
+      : closingSoon
+        ? 'bg-amber-50 text-amber-700 border-amber-200'
+        : 'bg-green-50 text-green-700 border-green-200';
+
+  const label =
+    remaining === 0
+      ? compact ? 'Window closed' : '24h window closed - template required'
+      : compact ? `${formatWindowRemaining(remaining)} left` : `Window closes in ${formatWindowRemaining(remaining)}`;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 border rounded-full font-medium ${colors} ${
+        compact ? 'px-1.5 py-0.5 text-[10px]' : 'px-2.5 py-1 text-xs'
+      }`}
+      title="Free-form messages can only be sent within 24 hours of the customer's last message"
+    >
+      <Clock className={compact ? 'w-3 h-3' : 'w-3.5 h-3.5'} />
+      {label}
+    </span>
+  );
+};
+
+export default ServiceWindowIndicator;
@@ -1,19 +1,18 @@
 import { useLocation } from 'react-router-dom';
+import { Bell } from 'lucide-react';
 import SidebarItem from './SidebarItem';
 import { logout } from '../lib/auth';
+import { NAV_ITEMS } from '../lib/navigation';
+import { useNotificationState } from '../hooks/useNotifications';
 
-const Sidebar = () => {
-  const location = useLocation();
+interface SidebarProps {
+  onOpenNotifications: () => void;
+}
 
-  const menuItems = [
-    { path: '/chats', label: 'Chats' },
-    { path: '/appointments', label: 'Appointments' },
-    { path: '/customers', label: 'Customers' },
-    { path: '/services', label: 'Services' },
-    { path: '/availability', label: 'Availability' },
-    { path: '/subscription', label: 'Subscription' },
-    { path: '/settings', label: 'Settings' },
-  ];
+const Sidebar = ({ onOpenNotifications }: SidebarProps) => {
+  const location = useLocation();
+  const { notifications, unreadMessages } = useNotificationState();
+  const unreadNotifications = notifications.filter((n) => !n.read).length;
 
   const handleLogout = () => {
     logout();
@@ -22,18 +21,29 @@ const Sidebar = () => {
   return (
     <aside className="w-60 bg-white border-r border-gray-200 flex flex-col">
       {/* Logo/Brand */}
-      <div className="h-16 flex items-center px-6 border-b border-gray-200">
+      <div className="h-16 flex items-center justify-between px-6 border-b border-gray-200">
         <h1 className="text-xl font-bold text-blue-600">Bookzi</h1>
+        <button
+          onClick={onOpenNotifications}
+          className="relative p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full"
+          title="Notifications"
+        >
+          <Bell className="w-5 h-5" />
+          {unreadNotifications > 0 && (
+            <span className="absolute top-1 right-1 w-2.5 h-2.5 bg-red-500 rounded-full border-2 border-white" />
+          )}
+        </button>
       </div>
 
       {/* Navigation Menu */}
       <nav className="flex-1 p-4 space-y-1">
-        {menuItems.map((item) => (
+        {NAV_ITEMS.map((item) => (
           <SidebarItem
             key={item.path}
             to={item.path}
             label={item.label}
-            active={location.pathname === item.path}
+            active={location.pathname === item.path || location.pathname.startsWith(`${item.path}/`)}
+            badge={item.path === '/chats' ? unreadMessages : undefined}
           />
         ))}
       </nav>
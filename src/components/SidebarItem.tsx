@@ -5,10 +5,11 @@ interface SidebarItemProps {
   to: string;
   active: boolean;
   onClick?: () => void;
+  badge?: number; // e.g. unread count
 }
 
-const SidebarItem: React.FC<SidebarItemProps> = ({ label, to, active, onClick }) => {
-  const className = `block px-4 py-3 rounded-md transition ${
+const SidebarItem: React.FC<SidebarItemProps> = ({ label, to, active, onClick, badge }) => {
+  const className = `flex items-center justify-between px-4 py-3 rounded-md transition ${
     active
       ? 'bg-gray-200 text-gray-900 font-semibold'
       : 'text-gray-700 hover:bg-gray-100'
@@ -30,6 +31,11 @@ const SidebarItem: React.FC<SidebarItemProps> = ({ label, to, active, onClick })
   return (
     <Link to={to} className={className}>
       {label}
+      {badge !== undefined && badge > 0 && (
+        <span className="min-w-[1.25rem] px-1.5 py-0.5 text-xs font-semibold text-center text-white bg-green-500 rounded-full">
+          {badge > 99 ? '99+' : badge}
+        </span>
+      )}
     </Link>
   );
 };
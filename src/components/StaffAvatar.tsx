@@ -0,0 +1,61 @@
+interface StaffAvatarProps {
+  name?: string;
+  size?: 'sm' | 'md';
+}
+
+// Background colours picked from the name so each person keeps the same one
+const AVATAR_COLORS = [
+  'bg-blue-500',
+  'bg-green-500',
+  'bg-purple-500',
+  'bg-pink-500',
+  'bg-orange-500',
+  'bg-teal-500',
+  'bg-indigo-500',
+  'bg-rose-500',
+];
+
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+
+const getColor = (name: string) => {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+};
+
+/**
+ * Initials avatar for a staff member
+ */
+const StaffAvatar: React.FC<StaffAvatarProps> = ({ name, size = 'md' }) => {
+  const sizeClasses = size === 'sm' ? 'w-5 h-5 text-[10px]' : 'w-8 h-8 text-xs';
+
+  if (!name) {
+    return (
+      <span
+        className={`${sizeClasses} inline-flex items-center justify-center rounded-full border border-dashed border-gray-300 text-gray-400 flex-shrink-0`}
+        title="Unassigned"
+      >
+        ?
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`${sizeClasses} ${getColor(name)} inline-flex items-center justify-center rounded-full text-white font-semibold flex-shrink-0`}
+      title={name}
+    >
+      {getInitials(name)}
+    </span>
+  );
+};
+
+export default StaffAvatar;
@@ -0,0 +1,323 @@
+import { useState, useEffect } from 'react';
+import { X, Search, FileText, ArrowLeft } from 'lucide-react';
+import {
+  listTemplates,
+  getPatientHistory,
+  getTenantProfile,
+  type Chat,
+  type MessageTemplate,
+} from '../lib/api';
+import {
+  getNextAppointment,
+  prefillTemplateVariables,
+  extractVariables,
+  type TemplateContext,
+} from '../lib/templates';
+import { getDefaultScheduleTime, toDateTimeInputValue, validateScheduleTime } from '../lib/scheduling';
+import { canSendTemplate } from '../lib/consent';
+import TemplatePreview from './TemplatePreview';
+
+interface TemplatePickerModalProps {
+  chat: Chat;
+  onClose: () => void;
+  onSend: (template: MessageTemplate, values: string[], headerMediaUrl?: string) => Promise<void>;
+  // Offers "Send later" when provided
+  onSchedule?: (
+    template: MessageTemplate,
+    values: string[],
+    headerMediaUrl: string | undefined,
+    scheduledFor: Date
+  ) => Promise<void>;
+}
+
+export default function TemplatePickerModal({ chat, onClose, onSend, onSchedule }: TemplatePickerModalProps) {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [context, setContext] = useState<TemplateContext>({
+    patientName: chat.customerName,
+    patientPhone: chat.customerPhone,
+  });
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<MessageTemplate | null>(null);
+  const [values, setValues] = useState<string[]>([]);
+  const [headerMediaUrl, setHeaderMediaUrl] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sendLater, setSendLater] = useState(false);
+  const [scheduleTime, setScheduleTime] = useState(() => toDateTimeInputValue(getDefaultScheduleTime(Date.now())));
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  // Clinic name and next appointment are used to prefill variables
+  useEffect(() => {
+    const loadContext = async () => {
+      try {
+        const [tenant, history] = await Promise.all([
+          getTenantProfile(),
+          getPatientHistory(chat.customerId).catch(() => null),
+        ]);
+        setContext((prev) => ({
+          ...prev,
+          clinicName: tenant.name,
+          appointment: history ? getNextAppointment(history.appointments) : null,
+        }));
+      } catch (err) {
+        console.error('Failed to load template context:', err);
+      }
+    };
+    loadContext();
+  }, [chat.customerId]);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      const data = await listTemplates('APPROVED');
+      setTemplates(data);
+    } catch (err) {
+      console.error('Failed to load templates:', err);
+      setError('Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelect = (template: MessageTemplate) => {
+    setSelected(template);
+    setValues(prefillTemplateVariables(template, context));
+    setHeaderMediaUrl('');
+    setError('');
+  };
+
+  const needsHeaderMedia = !!selected?.header && selected.header.format !== 'TEXT';
+
+  const handleSend = async () => {
+    if (!selected) return;
+
+    const variableCount = extractVariables(selected.body).length;
+    if (values.slice(0, variableCount).some((v) => !v?.trim()) || values.length < variableCount) {
+      setError('Please fill in every variable');
+      return;
+    }
+    if (needsHeaderMedia && !headerMediaUrl.trim()) {
+      setError('Please provide a link to the header file');
+      return;
+    }
+
+    const scheduledFor = new Date(scheduleTime);
+    if (sendLater) {
+      const timeError = validateScheduleTime(scheduledFor, Date.now(), false);
+      if (timeError) {
+        setError(timeError);
+        return;
+      }
+    }
+
+    try {
+      setSending(true);
+      setError('');
+      const mediaUrl = needsHeaderMedia ? headerMediaUrl : undefined;
+      if (sendLater && onSchedule) {
+        await onSchedule(selected, values, mediaUrl, scheduledFor);
+      } else {
+        await onSend(selected, values, mediaUrl);
+      }
+      onClose();
+    } catch {
+      // onSend reports its own errors; keep the modal open so the user can retry
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const filteredTemplates = templates.filter((t) =>
+    `${t.name} ${t.body}`.toLowerCase().includes(search.toLowerCase())
+  );
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="border-b px-6 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            {selected && (
+              <button
+                onClick={() => setSelected(null)}
+                className="text-gray-400 hover:text-gray-600 transition"
+                title="Back to templates"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+            )}
+            <h2 className="text-xl font-bold text-gray-900">
+              {selected ? selected.name : 'Send Template Message'}
+            </h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              {error}
+            </div>
+          )}
+
+          {!selected ? (
+            <>
+              <div className="relative mb-4">
+                <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search templates..."
+                  className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              {loading ? (
+                <p className="text-center text-gray-500 py-8">Loading templates...</p>
+              ) : filteredTemplates.length === 0 ? (
+                <div className="text-center py-12 bg-gray-50 rounded-lg">
+                  <FileText className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+                  <p className="text-gray-500">No approved templates found</p>
+                  <a href="/settings" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+                    Create templates in Settings
+                  </a>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {filteredTemplates.map((template) => {
+                    const allowed = canSendTemplate(template, chat.customerConsent);
+                    return (
+                      <button
+                        key={template.id}
+                        onClick={() => handleSelect(template)}
+                        disabled={!allowed}
+                        className="w-full text-left border border-gray-200 rounded-lg p-3 hover:border-blue-300 hover:bg-blue-50 transition disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-gray-200 disabled:hover:bg-white"
+                      >
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-semibold text-gray-900 font-mono">{template.name}</span>
+                          <span className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700">
+                            {template.category}
+                          </span>
+                          <span className="text-xs text-gray-500">{template.language}</span>
+                        </div>
+                        <p className="text-sm text-gray-600 mt-1 line-clamp-2">{template.body}</p>
+                        {!allowed && (
+                          <p className="text-xs text-red-600 mt-1">
+                            This customer opted out of marketing messages
+                          </p>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                {needsHeaderMedia && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Header {selected.header?.format.toLowerCase()} link *
+                    </label>
+                    <input
+                      type="url"
+                      value={headerMediaUrl}
+                      onChange={(e) => setHeaderMediaUrl(e.target.value)}
+                      placeholder="https://"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                )}
+                {extractVariables(selected.body).map((index) => (
+                  <div key={index}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      <span className="font-mono">{`{{${index}}}`}</span>
+                      {selected.variables?.find((v) => v.index === index)?.example && (
+                        <span className="text-gray-400 font-normal ml-2">
+                          e.g. {selected.variables.find((v) => v.index === index)?.example}
+                        </span>
+                      )}
+                    </label>
+                    <input
+                      type="text"
+                      value={values[index - 1] || ''}
+                      onChange={(e) => {
+                        const next = [...values];
+                        next[index - 1] = e.target.value;
+                        setValues(next);
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                ))}
+                {extractVariables(selected.body).length === 0 && !needsHeaderMedia && (
+                  <p className="text-sm text-gray-500">This template has no variables.</p>
+                )}
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Preview</p>
+                <TemplatePreview
+                  header={selected.header}
+                  body={selected.body}
+                  footer={selected.footer}
+                  buttons={selected.buttons}
+                  values={values}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        {selected && (
+          <div className="border-t px-6 py-4 flex justify-end items-center gap-3">
+            {onSchedule && (
+              <div className="mr-auto flex items-center gap-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={sendLater}
+                    onChange={(e) => setSendLater(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Send later
+                </label>
+                {sendLater && (
+                  <input
+                    type="datetime-local"
+                    value={scheduleTime}
+                    min={toDateTimeInputValue(Date.now())}
+                    onChange={(e) => setScheduleTime(e.target.value)}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                  />
+                )}
+              </div>
+            )}
+            <button
+              onClick={onClose}
+              className="px-6 py-2.5 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSend}
+              disabled={sending}
+              className="px-6 py-2.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {sendLater ? (sending ? 'Scheduling...' : 'Schedule Template') : sending ? 'Sending...' : 'Send Template'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { ExternalLink, Phone, Reply, Image as ImageIcon, FileText, Video } from 'lucide-react';
+import type { TemplateButton, TemplateHeader } from '../lib/api';
+import { renderTemplateText } from '../lib/templates';
+
+interface TemplatePreviewProps {
+  header?: TemplateHeader;
+  body: string;
+  footer?: string;
+  buttons?: TemplateButton[];
+  values?: string[]; // Body variable values, {{1}} first
+}
+
+/**
+ * WhatsApp-style preview of a message template
+ */
+const TemplatePreview: React.FC<TemplatePreviewProps> = ({ header, body, footer, buttons, values = [] }) => {
+  const headerIcon = () => {
+    switch (header?.format) {
+      case 'IMAGE':
+        return <ImageIcon className="w-8 h-8" />;
+      case 'DOCUMENT':
+        return <FileText className="w-8 h-8" />;
+      case 'VIDEO':
+        return <Video className="w-8 h-8" />;
+      default:
+        return null;
+    }
+  };
+
+  const buttonIcon = (button: TemplateButton) => {
+    switch (button.type) {
+      case 'URL':
+        return <ExternalLink className="w-4 h-4" />;
+      case 'PHONE_NUMBER':
+        return <Phone className="w-4 h-4" />;
+      default:
+        return <Reply className="w-4 h-4" />;
+    }
+  };
+
+  return (
+    <div className="bg-[#e5ddd5] rounded-lg p-4">
+      <div className="bg-white rounded-lg shadow-sm max-w-sm">
+        <div className="px-3 pt-3 pb-2">
+          {header && header.format !== 'TEXT' && (
+            <div className="h-32 mb-2 bg-gray-200 rounded flex items-center justify-center text-gray-500">
+              {headerIcon()}
+            </div>
+          )}
+          {header?.format === 'TEXT' && header.text && (
+            <p className="text-sm font-bold text-gray-900 mb-1">{header.text}</p>
+          )}
+          <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">
+            {body ? renderTemplateText(body, values) : <span className="text-gray-400">Message body</span>}
+          </p>
+          {footer && <p className="text-xs text-gray-500 mt-1">{footer}</p>}
+        </div>
+
+        {buttons && buttons.length > 0 && (
+          <div className="border-t border-gray-100 divide-y divide-gray-100">
+            {buttons.map((button, index) => (
+              <div
+                key={index}
+                className="flex items-center justify-center gap-2 py-2 text-sm font-medium text-blue-500"
+              >
+                {buttonIcon(button)}
+                {button.text || 'Button'}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePreview;
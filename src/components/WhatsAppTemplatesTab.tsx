@@ -0,0 +1,599 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, RefreshCw, FileText, Eye } from 'lucide-react';
+import {
+  listTemplates,
+  createTemplate,
+  deleteTemplate,
+  syncTemplates,
+  getApiErrorMessage,
+  type MessageTemplate,
+  type CreateTemplateRequest,
+  type TemplateButton,
+  type TemplateStatus,
+  type TemplateVariable,
+} from '../lib/api';
+import {
+  TEMPLATE_LANGUAGES,
+  TEMPLATE_STATUS_COLORS,
+  VARIABLE_SOURCES,
+  extractVariables,
+  getExampleValues,
+} from '../lib/templates';
+import TemplatePreview from './TemplatePreview';
+
+// Meta template names: lowercase letters, digits and underscores
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9_]+$/;
+const MAX_BODY_LENGTH = 1024;
+const MAX_BUTTONS = 3;
+
+const EMPTY_FORM: CreateTemplateRequest = {
+  name: '',
+  language: 'en',
+  category: 'UTILITY',
+  body: '',
+  footer: '',
+  buttons: [],
+  variables: [],
+};
+
+export default function WhatsAppTemplatesTab() {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<TemplateStatus | ''>('');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [previewTemplate, setPreviewTemplate] = useState<MessageTemplate | null>(null);
+  const [formData, setFormData] = useState<CreateTemplateRequest>(EMPTY_FORM);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      const data = await listTemplates();
+      setTemplates(data);
+    } catch (err) {
+      console.error('Failed to load templates:', err);
+      setError('Failed to load message templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSync = async () => {
+    try {
+      setSyncing(true);
+      setError('');
+      const data = await syncTemplates();
+      setTemplates(data);
+      setSuccess('Template statuses refreshed from Meta');
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to refresh template statuses'));
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleDelete = async (template: MessageTemplate) => {
+    if (!confirm(`Delete template "${template.name}"? This also removes it from Meta.`)) return;
+
+    try {
+      await deleteTemplate(template.id);
+      setSuccess('Template deleted');
+      await loadTemplates();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to delete template'));
+    }
+  };
+
+  // Keep the variable mappings in step with the {{n}} placeholders in the body
+  const handleBodyChange = (body: string) => {
+    const variables: TemplateVariable[] = extractVariables(body).map(
+      (index) =>
+        formData.variables?.find((v) => v.index === index) || { index, source: 'CUSTOM', example: '' }
+    );
+    setFormData({ ...formData, body, variables });
+  };
+
+  const handleAddVariable = () => {
+    const next = Math.max(0, ...extractVariables(formData.body)) + 1;
+    handleBodyChange(`${formData.body}{{${next}}}`);
+  };
+
+  const updateVariable = (index: number, updates: Partial<TemplateVariable>) => {
+    setFormData({
+      ...formData,
+      variables: formData.variables?.map((v) => (v.index === index ? { ...v, ...updates } : v)),
+    });
+  };
+
+  const updateButton = (position: number, updates: Partial<TemplateButton>) => {
+    setFormData({
+      ...formData,
+      buttons: formData.buttons?.map((b, i) => (i === position ? { ...b, ...updates } : b)),
+    });
+  };
+
+  const handleCloseModal = () => {
+    setShowCreateModal(false);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+
+    if (!TEMPLATE_NAME_PATTERN.test(formData.name)) {
+      setError('Template name can only contain lowercase letters, numbers and underscores');
+      return;
+    }
+    if (formData.header?.format === 'TEXT' && extractVariables(formData.header.text || '').length > 0) {
+      setError('Variables are only supported in the message body');
+      return;
+    }
+    if (formData.variables?.some((v) => !v.example.trim())) {
+      setError('Meta requires an example value for every variable');
+      return;
+    }
+
+    const request: CreateTemplateRequest = {
+      ...formData,
+      header: formData.header?.format === 'TEXT' && !formData.header.text ? undefined : formData.header,
+      footer: formData.footer || undefined,
+      buttons: formData.buttons?.filter((b) => b.text.trim()),
+    };
+
+    try {
+      setSubmitting(true);
+      await createTemplate(request);
+      setSuccess('Template submitted to Meta for review');
+      handleCloseModal();
+      await loadTemplates();
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to create template'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const filteredTemplates = statusFilter
+    ? templates.filter((t) => t.status === statusFilter)
+    : templates;
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      {/* Header */}
+      <div className="px-6 py-4 border-b flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Message Templates</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Pre-approved messages you can send outside the 24-hour customer service window
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleSync}
+            disabled={syncing}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+            Refresh Status
+          </button>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            New Template
+          </button>
+        </div>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="mx-6 mt-4 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          {success}
+        </div>
+      )}
+
+      {/* Status Filter */}
+      <div className="px-6 pt-4 flex gap-2">
+        {(['', 'APPROVED', 'PENDING', 'REJECTED'] as const).map((status) => (
+          <button
+            key={status || 'ALL'}
+            onClick={() => setStatusFilter(status)}
+            className={`px-3 py-1 text-sm rounded-full transition ${
+              statusFilter === status
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {status ? status.charAt(0) + status.slice(1).toLowerCase() : 'All'}
+          </button>
+        ))}
+      </div>
+
+      {/* Template List */}
+      <div className="p-6">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-500">Loading templates...</p>
+          </div>
+        ) : filteredTemplates.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-lg">
+            <FileText className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+            <p className="text-gray-500">
+              {statusFilter ? 'No templates with this status' : 'No message templates yet'}
+            </p>
+            {!statusFilter && (
+              <button
+                onClick={() => setShowCreateModal(true)}
+                className="mt-4 text-blue-600 hover:text-blue-700 font-medium"
+              >
+                Create your first template
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {filteredTemplates.map((template) => (
+              <div
+                key={template.id}
+                className="border border-gray-200 rounded-lg p-4 hover:border-blue-300 transition"
+              >
+                <div className="flex justify-between items-start">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-3 flex-wrap">
+                      <h4 className="text-base font-semibold text-gray-900 font-mono">{template.name}</h4>
+                      <span className={`px-2 py-1 text-xs font-medium rounded ${TEMPLATE_STATUS_COLORS[template.status]}`}>
+                        {template.status}
+                      </span>
+                      <span className="px-2 py-1 text-xs font-medium rounded bg-gray-100 text-gray-700">
+                        {template.category}
+                      </span>
+                      <span className="text-xs text-gray-500">{template.language}</span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-2 line-clamp-2 whitespace-pre-wrap">{template.body}</p>
+                    {template.status === 'REJECTED' && template.rejectionReason && (
+                      <p className="text-sm text-red-600 mt-2">Rejected: {template.rejectionReason}</p>
+                    )}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setPreviewTemplate(template)}
+                      className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded"
+                      title="Preview"
+                    >
+                      <Eye className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(template)}
+                      className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Preview Modal */}
+      {previewTemplate && (
+        <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="px-6 py-4 border-b flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-gray-900 font-mono">{previewTemplate.name}</h3>
+              <button onClick={() => setPreviewTemplate(null)} className="text-gray-400 hover:text-gray-600">
+                ✕
+              </button>
+            </div>
+            <div className="p-6">
+              <TemplatePreview
+                header={previewTemplate.header}
+                body={previewTemplate.body}
+                footer={previewTemplate.footer}
+                buttons={previewTemplate.buttons}
+                values={getExampleValues(previewTemplate.variables)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Create Modal */}
+      {showCreateModal && (
+        <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-gray-900">New Message Template</h3>
+              <button onClick={handleCloseModal} className="text-gray-400 hover:text-gray-600">
+                ✕
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 grid grid-cols-1 md:grid-cols-5 gap-6">
+              <div className="md:col-span-3 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Template Name *
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value.toLowerCase().replace(/\s+/g, '_') })}
+                    placeholder="appointment_reminder"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 font-mono"
+                    required
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Category *
+                    </label>
+                    <select
+                      value={formData.category}
+                      onChange={(e) => setFormData({ ...formData, category: e.target.value as CreateTemplateRequest['category'] })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="UTILITY">Utility (reminders, confirmations)</option>
+                      <option value="MARKETING">Marketing (offers, campaigns)</option>
+                      <option value="AUTHENTICATION">Authentication (OTP)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Language *
+                    </label>
+                    <select
+                      value={formData.language}
+                      onChange={(e) => setFormData({ ...formData, language: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      {TEMPLATE_LANGUAGES.map((lang) => (
+                        <option key={lang.code} value={lang.code}>
+                          {lang.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {/* Header */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Header</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={formData.header?.format || ''}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          header: e.target.value
+                            ? { format: e.target.value as NonNullable<CreateTemplateRequest['header']>['format'], text: '' }
+                            : undefined,
+                        })
+                      }
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">None</option>
+                      <option value="TEXT">Text</option>
+                      <option value="IMAGE">Image</option>
+                      <option value="DOCUMENT">Document</option>
+                      <option value="VIDEO">Video</option>
+                    </select>
+                    {formData.header?.format === 'TEXT' && (
+                      <input
+                        type="text"
+                        value={formData.header.text || ''}
+                        onChange={(e) => setFormData({ ...formData, header: { format: 'TEXT', text: e.target.value } })}
+                        maxLength={60}
+                        placeholder="Header text"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    )}
+                  </div>
+                  {formData.header && formData.header.format !== 'TEXT' && (
+                    <p className="text-xs text-gray-500 mt-1">The file is attached when the template is sent.</p>
+                  )}
+                </div>
+
+                {/* Body */}
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <label className="block text-sm font-medium text-gray-700">Body *</label>
+                    <button
+                      type="button"
+                      onClick={handleAddVariable}
+                      className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      + Add variable
+                    </button>
+                  </div>
+                  <textarea
+                    value={formData.body}
+                    onChange={(e) => handleBodyChange(e.target.value)}
+                    rows={5}
+                    maxLength={MAX_BODY_LENGTH}
+                    placeholder="Hi {{1}}, this is a reminder for your appointment at {{2}} on {{3}}."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                  <p className="text-xs text-gray-500 text-right">
+                    {formData.body.length}/{MAX_BODY_LENGTH}
+                  </p>
+                </div>
+
+                {/* Variables */}
+                {formData.variables && formData.variables.length > 0 && (
+                  <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+                    <p className="text-sm font-medium text-gray-700">Variables</p>
+                    {formData.variables.map((variable) => (
+                      <div key={variable.index} className="grid grid-cols-12 gap-2 items-center">
+                        <span className="col-span-2 text-sm font-mono text-gray-600">{`{{${variable.index}}}`}</span>
+                        <select
+                          value={variable.source}
+                          onChange={(e) => updateVariable(variable.index, { source: e.target.value as TemplateVariable['source'] })}
+                          className="col-span-5 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        >
+                          {VARIABLE_SOURCES.map((source) => (
+                            <option key={source.value} value={source.value}>
+                              {source.label}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={variable.example}
+                          onChange={(e) => updateVariable(variable.index, { example: e.target.value })}
+                          placeholder="Example value"
+                          className="col-span-5 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Footer */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Footer</label>
+                  <input
+                    type="text"
+                    value={formData.footer}
+                    onChange={(e) => setFormData({ ...formData, footer: e.target.value })}
+                    maxLength={60}
+                    placeholder="e.g., Reply STOP to unsubscribe"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                {/* Buttons */}
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <label className="block text-sm font-medium text-gray-700">Buttons</label>
+                    {(formData.buttons?.length || 0) < MAX_BUTTONS && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setFormData({
+                            ...formData,
+                            buttons: [...(formData.buttons || []), { type: 'QUICK_REPLY', text: '' }],
+                          })
+                        }
+                        className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                      >
+                        + Add button
+                      </button>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    {formData.buttons?.map((button, position) => (
+                      <div key={position} className="flex gap-2">
+                        <select
+                          value={button.type}
+                          onChange={(e) => updateButton(position, { type: e.target.value as TemplateButton['type'] })}
+                          className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="QUICK_REPLY">Quick reply</option>
+                          <option value="URL">Visit website</option>
+                          <option value="PHONE_NUMBER">Call phone</option>
+                        </select>
+                        <input
+                          type="text"
+                          value={button.text}
+                          onChange={(e) => updateButton(position, { text: e.target.value })}
+                          maxLength={25}
+                          placeholder="Button text"
+                          className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                        {button.type === 'URL' && (
+                          <input
+                            type="url"
+                            value={button.url || ''}
+                            onChange={(e) => updateButton(position, { url: e.target.value })}
+                            placeholder="https://"
+                            className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                            required
+                          />
+                        )}
+                        {button.type === 'PHONE_NUMBER' && (
+                          <input
+                            type="tel"
+                            value={button.phoneNumber || ''}
+                            onChange={(e) => updateButton(position, { phoneNumber: e.target.value })}
+                            placeholder="+91..."
+                            className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                            required
+                          />
+                        )}
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setFormData({
+                              ...formData,
+                              buttons: formData.buttons?.filter((_, i) => i !== position),
+                            })
+                          }
+                          className="p-2 text-gray-400 hover:text-red-600"
+                          title="Remove button"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Live Preview */}
+              <div className="md:col-span-2">
+                <p className="text-sm font-medium text-gray-700 mb-2">Preview</p>
+                <TemplatePreview
+                  header={formData.header}
+                  body={formData.body}
+                  footer={formData.footer}
+                  buttons={formData.buttons}
+                  values={getExampleValues(formData.variables)}
+                />
+              </div>
+
+              <div className="md:col-span-5 flex justify-end gap-3 pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={handleCloseModal}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {submitting ? 'Submitting...' : 'Submit for Review'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+import { suggestReplies } from '../lib/assistant';
+import { isBotActive } from '../lib/handoff';
+import type { Chat, Message } from '../lib/api';
+import { useNow } from './useNow';
+
+/**
+ * Custom hook for replies suggested to the customer's latest message.
+ * Suggestions are fetched once per unanswered message and dropped as soon as
+ * anyone replies. Chats the AI assistant is answering get none.
+ */
+export const useSuggestedReplies = (chat: Chat | null, messages: Message[], enabled = true): string[] => {
+  const now = useNow(30000);
+  const [result, setResult] = useState<{ messageId: string; suggestions: string[] } | null>(null);
+  const contextRef = useRef({ chat, messages });
+
+  useEffect(() => {
+    contextRef.current = { chat, messages };
+  }, [chat, messages]);
+
+  let awaitingId: string | null = null;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].type === 'NOTE') continue;
+    if (messages[i].direction === 'IN') awaitingId = messages[i].id;
+    break;
+  }
+  if (!enabled || !chat || isBotActive(chat, now)) awaitingId = null;
+
+  useEffect(() => {
+    const { chat, messages } = contextRef.current;
+    if (!awaitingId || !chat) return;
+
+    let cancelled = false;
+    suggestReplies(chat, messages)
+      .then((suggestions) => {
+        if (!cancelled) setResult({ messageId: awaitingId, suggestions });
+      })
+      .catch((error) => console.error('Failed to suggest replies:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [awaitingId]);
+
+  return result && result.messageId === awaitingId ? result.suggestions : [];
+};
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import {
+  getBookedAppointment,
+  loadBookedAppointment,
+  setBookedAppointment,
+  subscribeToBookedAppointments,
+} from '../lib/bookingActions';
+import type { AppointmentResponse } from '../lib/api';
+import { useInterval } from './useInterval';
+import { useRealtimeEvent, useRealtimeStatus } from './useRealtime';
+
+// How often cards refresh while realtime updates are unavailable
+const POLL_INTERVAL_MS = 30000;
+
+/**
+ * Custom hook for the live state of an appointment shown on a booking card
+ * @param appointmentId - Appointment to follow, if the booking has one
+ * @returns The latest known appointment, or undefined while loading
+ */
+export const useBookedAppointment = (appointmentId?: string): AppointmentResponse | undefined => {
+  const getSnapshot = useCallback(
+    () => (appointmentId ? getBookedAppointment(appointmentId) : undefined),
+    [appointmentId]
+  );
+  const appointment = useSyncExternalStore(subscribeToBookedAppointments, getSnapshot);
+  const isLive = useRealtimeStatus() === 'open';
+
+  // Load on mount, refreshing a copy that may have gone stale
+  useEffect(() => {
+    if (appointmentId) loadBookedAppointment(appointmentId);
+  }, [appointmentId]);
+
+  // Without realtime events, changes are only seen by polling
+  useInterval(() => {
+    if (appointmentId) loadBookedAppointment(appointmentId);
+  }, isLive ? null : POLL_INTERVAL_MS);
+
+  // Reflect changes made elsewhere (calendar, other staff, the assistant)
+  useRealtimeEvent((event) => {
+    if (event.type === 'appointment.updated' && event.appointment.id === appointmentId) {
+      setBookedAppointment(event.appointment);
+    }
+  });
+
+  return appointment;
+};
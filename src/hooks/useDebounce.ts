@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Custom hook for a value that only updates once it stops changing
+ * @param value - Value to debounce
+ * @param delay - Delay in milliseconds
+ */
+export const useDebounce = <T,>(value: T, delay: number): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const id = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(id);
+  }, [value, delay]);
+
+  return debouncedValue;
+};
@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { getShortcutKey, isBlockedByDialog, isOwnedByTarget } from '../lib/shortcuts';
+
+export type ShortcutHandlers = Record<string, (event: KeyboardEvent) => void>;
+
+/**
+ * Custom hook for page-wide keyboard shortcuts. Keys are ignored while a
+ * modal dialog is open.
+ * @param shortcuts - Handlers by shortcut, e.g. { j: next, 'mod+k': openPalette }
+ * @param enabled - false to ignore all keys (e.g. while a modal is open)
+ */
+export const useKeyboardShortcuts = (shortcuts: ShortcutHandlers, enabled: boolean = true) => {
+  const savedShortcuts = useRef(shortcuts);
+
+  // Remember the latest handlers
+  useEffect(() => {
+    savedShortcuts.current = shortcuts;
+  }, [shortcuts]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const shortcut = getShortcutKey(event);
+      const handler = shortcut ? savedShortcuts.current[shortcut] : undefined;
+      if (!shortcut || !handler || event.defaultPrevented || isOwnedByTarget(event, shortcut)) return;
+      if (isBlockedByDialog(event)) return;
+
+      event.preventDefault();
+      handler(event);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  getNotificationState,
+  handleNotificationEvent,
+  refreshNotifications,
+  setOpenChatHandler,
+  startNotifications,
+  subscribeToNotifications,
+  type NotificationState,
+} from '../lib/notifications';
+import { useInterval } from './useInterval';
+import { useRealtimeEvent, useRealtimeStatus } from './useRealtime';
+
+// How often unread counts are reloaded while realtime updates are unavailable
+const POLL_INTERVAL_MS = 30000;
+
+/**
+ * Custom hook for the notification center, unread count and preferences
+ */
+export const useNotificationState = (): NotificationState => {
+  return useSyncExternalStore(subscribeToNotifications, getNotificationState);
+};
+
+/**
+ * Custom hook that runs the notification subsystem for the dashboard:
+ * alerts for incoming messages, opening chats from alerts and the unread
+ * count in the tab title
+ */
+export const useNotificationService = () => {
+  const navigate = useNavigate();
+  const { unreadMessages } = useNotificationState();
+  const isLive = useRealtimeStatus() === 'open';
+  const wasLiveRef = useRef(false);
+
+  useEffect(() => {
+    startNotifications();
+  }, []);
+
+  // Catch up on events missed while the stream was down
+  useEffect(() => {
+    if (isLive && wasLiveRef.current) refreshNotifications();
+    if (isLive) wasLiveRef.current = true;
+  }, [isLive]);
+
+  useInterval(refreshNotifications, isLive ? null : POLL_INTERVAL_MS);
+
+  useEffect(() => {
+    setOpenChatHandler((chatId, messageId) => {
+      const params = new URLSearchParams({ chatId });
+      if (messageId) params.set('messageId', messageId);
+      navigate(`/chats?${params.toString()}`);
+    });
+    return () => setOpenChatHandler(null);
+  }, [navigate]);
+
+  useRealtimeEvent(handleNotificationEvent);
+
+  // e.g. "(3) Bookzi"
+  useEffect(() => {
+    const baseTitle = document.title.replace(/^\(\d+\) /, '');
+    document.title = unreadMessages > 0 ? `(${unreadMessages}) ${baseTitle}` : baseTitle;
+  }, [unreadMessages]);
+};
@@ -0,0 +1,16 @@
+import { useState } from 'react';
+import { useInterval } from './useInterval';
+
+/**
+ * Current time, refreshed at the given interval - for countdowns
+ * @param interval - Refresh interval in milliseconds
+ */
+export const useNow = (interval: number) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useInterval(() => {
+    setNow(Date.now());
+  }, interval);
+
+  return now;
+};
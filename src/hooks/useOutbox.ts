@@ -0,0 +1,34 @@
+import { useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import {
+  getOutboxEntries,
+  subscribeToOutbox,
+  subscribeToSent,
+  type OutboxEntry,
+} from '../lib/outbox';
+
+/**
+ * Custom hook for the queued/failed outgoing messages of a chat
+ * @param chatId - Chat to show entries for
+ */
+export const useOutbox = (chatId: string | null): OutboxEntry[] => {
+  const entries = useSyncExternalStore(subscribeToOutbox, getOutboxEntries);
+  return useMemo(() => entries.filter((entry) => entry.chatId === chatId), [entries, chatId]);
+};
+
+/**
+ * Custom hook for reacting to messages that have left the outbox
+ * @param handler - Function to call for each message sent
+ */
+export const useOutboxSent = (handler: (entry: OutboxEntry) => void) => {
+  const savedHandler = useRef(handler);
+
+  // Remember the latest handler
+  useEffect(() => {
+    savedHandler.current = handler;
+  }, [handler]);
+
+  // Subscribe once for the lifetime of the component
+  useEffect(() => {
+    return subscribeToSent((entry) => savedHandler.current(entry));
+  }, []);
+};
@@ -0,0 +1,34 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  subscribeToEvents,
+  subscribeToStatus,
+  getRealtimeStatus,
+  type RealtimeEvent,
+  type RealtimeStatus,
+} from '../lib/realtime';
+
+/**
+ * Custom hook for receiving realtime events
+ * @param handler - Function to call for each event received
+ */
+export const useRealtimeEvent = (handler: (event: RealtimeEvent) => void) => {
+  const savedHandler = useRef(handler);
+
+  // Remember the latest handler
+  useEffect(() => {
+    savedHandler.current = handler;
+  }, [handler]);
+
+  // Subscribe once for the lifetime of the component
+  useEffect(() => {
+    return subscribeToEvents((event) => savedHandler.current(event));
+  }, []);
+};
+
+/**
+ * Custom hook for the realtime connection status
+ * @returns 'open' when events are flowing, otherwise 'connecting' or 'closed'
+ */
+export const useRealtimeStatus = (): RealtimeStatus => {
+  return useSyncExternalStore(subscribeToStatus, getRealtimeStatus);
+};
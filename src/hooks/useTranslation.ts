@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import {
+  detectMessageLanguage,
+  getMessageLanguage,
+  getStaffLanguage,
+  subscribeToTranslation,
+} from '../lib/translation';
+import type { Message } from '../lib/api';
+
+/**
+ * Custom hook for the language the current staff member reads
+ */
+export const useStaffLanguage = (): string => {
+  return useSyncExternalStore(subscribeToTranslation, getStaffLanguage);
+};
+
+/**
+ * Custom hook for the language of an inbound message, detecting it if the
+ * server didn't
+ * @returns Language code, undefined while detecting, or null if it couldn't be told
+ */
+export const useMessageLanguage = (message?: Message): string | null | undefined => {
+  const messageId = message?.id;
+  const serverLanguage = message?.language;
+  const text = message?.direction === 'IN' ? message.content : '';
+
+  const getSnapshot = useCallback(
+    () => (messageId ? getMessageLanguage(messageId, serverLanguage) : undefined),
+    [messageId, serverLanguage]
+  );
+  const language = useSyncExternalStore(subscribeToTranslation, getSnapshot);
+
+  useEffect(() => {
+    if (messageId && text.trim() && !serverLanguage) detectMessageLanguage(messageId, text);
+  }, [messageId, text, serverLanguage]);
+
+  return text.trim() ? language : null;
+};
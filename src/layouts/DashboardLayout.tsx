@@ -1,16 +1,36 @@
+import { useState } from 'react';
 import { Outlet } from 'react-router-dom';
 import Sidebar from '../components/Sidebar';
+import NotificationCenter from '../components/NotificationCenter';
+import CommandPalette from '../components/CommandPalette';
+import { useNotificationService } from '../hooks/useNotifications';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 
 const DashboardLayout = () => {
+  const [showNotifications, setShowNotifications] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+
+  // Alerts for new messages on every dashboard page
+  useNotificationService();
+
+  // Ctrl+K (Cmd+K on Mac) from any dashboard page
+  useKeyboardShortcuts({ 'mod+k': () => setShowCommandPalette((open) => !open) });
+
   return (
     <div className="flex h-screen bg-gray-50">
       {/* Sidebar */}
-      <Sidebar />
+      <Sidebar onOpenNotifications={() => setShowNotifications(true)} />
 
       {/* Main Content Area */}
       <main className="flex-1 overflow-y-auto p-6 bg-gray-50">
         <Outlet />
       </main>
+
+      {/* Notification Center */}
+      <NotificationCenter isOpen={showNotifications} onClose={() => setShowNotifications(false)} />
+
+      {/* Command Palette */}
+      {showCommandPalette && <CommandPalette onClose={() => setShowCommandPalette(false)} />}
     </div>
   );
 };
@@ -48,6 +48,7 @@ export interface Staff {
   licenseNumber?: string;
   tenantId: string;
   isActive: boolean;
+  userId?: string; // Login account linked to this staff member
   createdAt: string;
   updatedAt: string;
 }
@@ -142,10 +143,26 @@ export const setToken = (token: string): void => {
   localStorage.setItem(TOKEN_KEY, token);
 };
 
+// Cleanups for state kept per session, run when the token is cleared
+const sessionEndListeners = new Set<() => void>();
+
+/**
+ * Register cleanup to run when the session ends (logout or expired token)
+ * @param listener - Called before the token is removed
+ * @returns Unregister function
+ */
+export const onSessionEnd = (listener: () => void): (() => void) => {
+  sessionEndListeners.add(listener);
+  return () => {
+    sessionEndListeners.delete(listener);
+  };
+};
+
 /**
  * Clear authentication token from localStorage
  */
 export const clearToken = (): void => {
+  sessionEndListeners.forEach((listener) => listener());
   localStorage.removeItem(TOKEN_KEY);
   localStorage.removeItem(TENANT_KEY);
 };
@@ -182,6 +199,44 @@ export const isAuthenticated = (): boolean => {
   return !!getToken();
 };
 
+/**
+ * Extract a user-facing message from a failed API call
+ * @param error - Error thrown by an API function
+ * @param fallback - Message to use when the response carries none
+ * @returns Backend error/message field, or the fallback
+ */
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.error || error.response?.data?.message || fallback;
+  }
+  return fallback;
+};
+
+// ============================================
+// TENANT API
+// ============================================
+
+// Clinic details used to fill message variables (full settings live in SettingsPage)
+export interface TenantProfile {
+  id: string;
+  name: string;
+  phone?: string;
+  address?: string;
+  timezone?: string;
+  config?: {
+    preferred_language?: string; // Language the assistant writes in
+    system_prompt?: string; // Clinic's own instructions for the assistant
+  };
+}
+
+/**
+ * Get the current clinic's profile
+ */
+export const getTenantProfile = async (): Promise<TenantProfile> => {
+  const response = await api.get('/api/tenants/me');
+  return response.data;
+};
+
 // ============================================
 // WHATSAPP CONFIGURATION API
 // ============================================
@@ -320,6 +375,120 @@ export const getWhatsAppConnectionStatus = async (): Promise<WhatsAppConnectionS
   return response.data;
 };
 
+// ============================================
+// WHATSAPP TEMPLATES API
+// ============================================
+
+export type TemplateCategory = 'MARKETING' | 'UTILITY' | 'AUTHENTICATION';
+
+export type TemplateStatus = 'APPROVED' | 'PENDING' | 'REJECTED' | 'PAUSED' | 'DISABLED';
+
+// Where a template variable's value comes from when sending
+export type TemplateVariableSource =
+  | 'PATIENT_NAME'
+  | 'PATIENT_PHONE'
+  | 'CLINIC_NAME'
+  | 'APPOINTMENT_DATE'
+  | 'APPOINTMENT_TIME'
+  | 'SERVICE_NAME'
+  | 'PROVIDER_NAME'
+  | 'CUSTOM';
+
+export interface TemplateVariable {
+  index: number; // {{1}} -> 1
+  source: TemplateVariableSource;
+  example: string; // Required by Meta for review
+}
+
+export interface TemplateHeader {
+  format: 'TEXT' | 'IMAGE' | 'DOCUMENT' | 'VIDEO';
+  text?: string;
+}
+
+export interface TemplateButton {
+  type: 'QUICK_REPLY' | 'URL' | 'PHONE_NUMBER';
+  text: string;
+  url?: string;
+  phoneNumber?: string;
+}
+
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  language: string;
+  category: TemplateCategory;
+  status: TemplateStatus;
+  rejectionReason?: string;
+  header?: TemplateHeader;
+  body: string;
+  footer?: string;
+  buttons?: TemplateButton[];
+  variables?: TemplateVariable[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTemplateRequest {
+  name: string;
+  language: string;
+  category: TemplateCategory;
+  header?: TemplateHeader;
+  body: string;
+  footer?: string;
+  buttons?: TemplateButton[];
+  variables?: TemplateVariable[];
+}
+
+export interface SendTemplateRequest {
+  to: string;
+  templateName: string;
+  language: string;
+  bodyParams: string[];
+  headerMediaUrl?: string; // Required for IMAGE / DOCUMENT / VIDEO headers
+  clientMessageId?: string; // Echoed back on the saved message
+}
+
+/**
+ * List message templates
+ */
+export const listTemplates = async (status?: TemplateStatus): Promise<MessageTemplate[]> => {
+  const response = await api.get('/api/whatsapp/templates', {
+    params: { status },
+  });
+  return response.data;
+};
+
+/**
+ * Create a message template and submit it to Meta for review
+ */
+export const createTemplate = async (request: CreateTemplateRequest): Promise<MessageTemplate> => {
+  const response = await api.post('/api/whatsapp/templates', request);
+  return response.data;
+};
+
+/**
+ * Delete a message template
+ */
+export const deleteTemplate = async (id: string): Promise<void> => {
+  await api.delete(`/api/whatsapp/templates/${id}`);
+};
+
+/**
+ * Refresh template approval statuses from Meta
+ */
+export const syncTemplates = async (): Promise<MessageTemplate[]> => {
+  const response = await api.post('/api/whatsapp/templates/sync');
+  return response.data;
+};
+
+/**
+ * Send a template message (allowed outside the 24-hour customer service window)
+ */
+export const sendWhatsAppTemplate = async (request: SendTemplateRequest): Promise<unknown> => {
+  const response = await api.post('/api/whatsapp/send-template', request);
+  return response.data;
+};
+
 // ============================================
 // APPOINTMENTS API
 // ============================================
@@ -339,6 +508,7 @@ export interface CreateAppointmentRequest {
   durationMinutes?: number;
   notes?: string;
   source?: 'MANUAL' | 'WHATSAPP' | 'ONLINE';
+  chatId?: string; // Conversation the booking was made from
 }
 
 export interface AppointmentResponse {
@@ -466,20 +636,32 @@ export const cancelAppointment = async (id: string): Promise<void> => {
 
 /**
  * Check slot availability
+ * @param excludeAppointmentId - Appointment being rescheduled, whose own slot doesn't count as taken
  */
 export const checkAvailability = async (
   providerName: string,
   startTime: string,
-  durationMinutes: number
+  durationMinutes: number,
+  excludeAppointmentId?: string
 ): Promise<AvailabilityCheckResponse> => {
   const response = await api.post('/api/appointments/check-availability', {
     providerName,
     startTime,
     durationMinutes,
+    excludeAppointmentId,
   });
   return response.data;
 };
 
+/**
+ * Get the clinic's next free appointment slot
+ * @returns The slot, or null if nothing is free soon
+ */
+export const getNextAvailableSlot = async (): Promise<SuggestedSlot | null> => {
+  const response = await api.get('/api/appointments/next-available');
+  return response.data || null;
+};
+
 /**
  * Get patient appointment history
  */
@@ -491,6 +673,67 @@ export const getPatientHistory = async (patientId: string): Promise<{
   return response.data;
 };
 
+// ============================================
+// CANNED RESPONSES API
+// ============================================
+
+export interface CannedResponse {
+  id: string;
+  shortcut: string; // Typed after "/" in the composer
+  title: string;
+  body: string; // May contain {{variables}}, see lib/cannedResponses
+  usageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CannedResponseRequest {
+  shortcut: string;
+  title: string;
+  body: string;
+}
+
+/**
+ * List the clinic's canned responses
+ */
+export const listCannedResponses = async (): Promise<CannedResponse[]> => {
+  const response = await api.get('/api/canned-responses');
+  return response.data;
+};
+
+/**
+ * Create a canned response
+ */
+export const createCannedResponse = async (request: CannedResponseRequest): Promise<CannedResponse> => {
+  const response = await api.post('/api/canned-responses', request);
+  return response.data;
+};
+
+/**
+ * Update a canned response
+ */
+export const updateCannedResponse = async (
+  id: string,
+  request: CannedResponseRequest
+): Promise<CannedResponse> => {
+  const response = await api.put(`/api/canned-responses/${id}`, request);
+  return response.data;
+};
+
+/**
+ * Delete a canned response
+ */
+export const deleteCannedResponse = async (id: string): Promise<void> => {
+  await api.delete(`/api/canned-responses/${id}`);
+};
+
+/**
+ * Count a use of a canned response
+ */
+export const recordCannedResponseUse = async (id: string): Promise<void> => {
+  await api.post(`/api/canned-responses/${id}/use`);
+};
+
 // ============================================
 // STAFF API
 // ============================================
@@ -673,5 +916,842 @@ export const unassignServiceFromProvider = async (serviceId: string): Promise<Se
   return response.data;
 };
 
+// ============================================
+// CUSTOMERS API
+// ============================================
+
+export interface Customer {
+  id: string;
+  name?: string;
+  phoneNumber: string;
+  email?: string;
+  tags?: string[];
+  chatId?: string;
+  lastMessageAt?: string;
+  totalVisits?: number; // Completed appointments
+  lastVisitAt?: string;
+  nextAppointmentAt?: string | null; // Earliest upcoming appointment, if any
+  consent?: CustomerConsent; // Missing until consent has been recorded
+  createdAt: string;
+}
+
+// OPTED_OUT customers must not receive marketing templates, campaigns or reminders
+export type ConsentStatus = 'OPTED_IN' | 'OPTED_OUT' | 'UNKNOWN';
+
+// KEYWORD is a STOP/START reply detected by the server
+export type ConsentSource = 'KEYWORD' | 'STAFF' | 'IN_PERSON' | 'WEBSITE' | 'IMPORT';
+
+export interface CustomerConsent {
+  status: ConsentStatus;
+  source?: ConsentSource;
+  updatedAt?: string;
+  updatedByName?: string; // Staff member who recorded it
+  note?: string;
+}
+
+export interface ConsentRequest {
+  status: 'OPTED_IN' | 'OPTED_OUT';
+  source: ConsentSource;
+  note?: string;
+}
+
+// Also used as a campaign audience
+export interface CustomerFilter {
+  search?: string; // Name or phone number
+  tags?: string[]; // Customers with any of these tags
+  lastVisitFrom?: string; // YYYY-MM-DD
+  lastVisitTo?: string; // YYYY-MM-DD, inclusive
+  hasUpcomingAppointment?: boolean;
+}
+
+export type CustomerSortField = 'name' | 'lastMessageAt' | 'totalVisits' | 'createdAt';
+
+export interface CustomerQuery extends CustomerFilter {
+  sort?: CustomerSortField; // Defaults to lastMessageAt
+  direction?: 'asc' | 'desc'; // Defaults to desc
+  page?: number; // 0-based
+  size?: number;
+}
+
+export interface PagedCustomers {
+  content: Customer[];
+  totalElements: number;
+  totalPages: number;
+  number: number; // Current page (0-based)
+}
+
+// Query params shared by the customer list endpoints
+const toCustomerFilterParams = (filter: CustomerFilter) => ({
+  search: filter.search || undefined,
+  tags: filter.tags?.length ? filter.tags.join(',') : undefined,
+  lastVisitFrom: filter.lastVisitFrom || undefined,
+  lastVisitTo: filter.lastVisitTo || undefined,
+  hasUpcomingAppointment: filter.hasUpcomingAppointment || undefined,
+});
+
+/**
+ * List every customer matching a filter. Prefer `queryCustomers` for
+ * anything shown page by page.
+ */
+export const listCustomers = async (filter: CustomerFilter = {}): Promise<Customer[]> => {
+  const response = await api.get<Customer[]>('/api/customers', { params: toCustomerFilterParams(filter) });
+  return response.data;
+};
+
+/**
+ * Get a page of customers, filtered and sorted by the server
+ */
+export const queryCustomers = async (query: CustomerQuery): Promise<PagedCustomers> => {
+  const response = await api.get('/api/customers/paged', {
+    params: {
+      ...toCustomerFilterParams(query),
+      sort: `${query.sort || 'lastMessageAt'},${query.direction || 'desc'}`,
+      page: query.page,
+      size: query.size,
+    },
+  });
+  return response.data;
+};
+
+/**
+ * List every tag used across the clinic's customers
+ */
+export const listCustomerTags = async (): Promise<string[]> => {
+  const response = await api.get('/api/customers/tags');
+  return response.data;
+};
+
+/**
+ * Get a customer
+ */
+export const getCustomer = async (id: string): Promise<Customer> => {
+  const response = await api.get(`/api/customers/${id}`);
+  return response.data;
+};
+
+export interface UpdateCustomerRequest {
+  name?: string;
+  email?: string;
+  tags: string[];
+}
+
+/**
+ * Update a customer's details
+ */
+export const updateCustomer = async (id: string, request: UpdateCustomerRequest): Promise<Customer> => {
+  const response = await api.put(`/api/customers/${id}`, request);
+  return response.data;
+};
+
+export interface SentReminder {
+  id: string;
+  appointmentId?: string;
+  serviceName?: string; // Of the appointment the reminder was for
+  content: string;
+  status: MessageStatus;
+  sentAt: string;
+}
+
+/**
+ * List the appointment reminders sent to a customer, newest first
+ */
+export const listCustomerReminders = async (customerId: string): Promise<SentReminder[]> => {
+  const response = await api.get(`/api/customers/${customerId}/reminders`);
+  return response.data;
+};
+
+export type PaymentStatus = 'PENDING' | 'PAID' | 'FAILED' | 'REFUNDED';
+
+export interface CustomerPayment {
+  id: string;
+  amount: number; // In the currency's main unit, e.g. rupees
+  currency: string; // ISO 4217, e.g. 'INR'
+  status: PaymentStatus;
+  description?: string;
+  appointmentId?: string;
+  createdAt: string;
+  paidAt?: string;
+}
+
+/**
+ * List a customer's payments (collected through Razorpay), newest first
+ */
+export const listCustomerPayments = async (customerId: string): Promise<CustomerPayment[]> => {
+  const response = await api.get(`/api/customers/${customerId}/payments`);
+  return response.data;
+};
+
+export interface ImportCustomerRow {
+  row: number; // Row in the uploaded file, for the error report
+  name?: string;
+  phoneNumber: string; // E.164, e.g. +919876543210
+  email?: string;
+  tags?: string[];
+  consent?: 'OPTED_IN' | 'OPTED_OUT'; // Recorded with source IMPORT
+}
+
+// What to do with rows whose phone number already belongs to a customer
+export type ImportDuplicateAction = 'SKIP' | 'UPDATE';
+
+export interface ImportCustomersRequest {
+  customers: ImportCustomerRow[];
+  onDuplicate: ImportDuplicateAction;
+}
+
+export interface ImportCustomersResult {
+  created: number;
+  updated: number;
+  skipped: number; // Duplicates left as they were
+  errors: { row: number; message: string }[]; // Rows the server rejected
+}
+
+/**
+ * Find existing customers with any of these phone numbers
+ */
+export const findCustomersByPhone = async (phoneNumbers: string[]): Promise<Customer[]> => {
+  const response = await api.post('/api/customers/lookup', { phoneNumbers });
+  return response.data;
+};
+
+/**
+ * Create or update customers from an imported file
+ */
+export const importCustomers = async (request: ImportCustomersRequest): Promise<ImportCustomersResult> => {
+  const response = await api.post('/api/customers/import', request);
+  return response.data;
+};
+
+/**
+ * Get a customer's current marketing consent
+ */
+export const getCustomerConsent = async (customerId: string): Promise<CustomerConsent> => {
+  const response = await api.get(`/api/customers/${customerId}/consent`);
+  return response.data;
+};
+
+/**
+ * Record that a customer opted in or out, e.g. on a form at the front desk
+ */
+export const updateCustomerConsent = async (
+  customerId: string,
+  request: ConsentRequest
+): Promise<CustomerConsent> => {
+  const response = await api.put(`/api/customers/${customerId}/consent`, request);
+  return response.data;
+};
+
+// ============================================
+// CHATS API
+// ============================================
+
+// NOTE is an internal staff note - it is never sent to WhatsApp
+export type MessageType = 'TEXT' | 'IMAGE' | 'DOCUMENT' | 'AUDIO' | 'VIDEO' | 'LOCATION' | 'CONTACT' | 'NOTE';
+
+// Conversation lifecycle - PENDING chats are snoozed until snoozedUntil
+export type ChatState = 'OPEN' | 'PENDING' | 'RESOLVED' | 'ARCHIVED';
+
+export interface Chat {
+  id: string;
+  customerId: string;
+  customerName?: string;
+  customerPhone: string;
+  lastMessageText?: string;
+  lastMessageType?: MessageType;
+  lastMessageAt?: string;
+  lastInboundAt?: string; // Last message from the customer - opens the 24h service window
+  unreadCount?: number;
+  assigneeId?: string | null; // Staff member who owns the conversation
+  assigneeName?: string;
+  botStatus?: 'ACTIVE' | 'PAUSED'; // Whether the AI assistant is replying (defaults to ACTIVE)
+  botResumeAt?: string | null; // When a paused bot takes over again after inactivity
+  escalated?: boolean; // The bot asked for a human to take over
+  escalationReason?: string;
+  escalatedAt?: string;
+  state?: ChatState; // Defaults to OPEN
+  snoozedUntil?: string | null; // When a snoozed (PENDING) chat reopens by itself
+  customerConsent?: ConsentStatus; // Defaults to UNKNOWN
+}
+
+export interface ChatAssignment {
+  id: string;
+  chatId: string;
+  assigneeId: string | null; // null when the chat was unassigned
+  assigneeName?: string;
+  assignedById?: string;
+  assignedByName?: string;
+  createdAt: string;
+}
+
+export interface ChatSearchResult {
+  chatId: string;
+  customerName?: string;
+  customerPhone: string;
+  matchedField: 'MESSAGE' | 'NAME' | 'PHONE';
+  messageId?: string; // Set when a message matched
+  snippet: string; // Matching text, trimmed around the match
+  createdAt?: string; // Time of the matched message
+}
+
+export interface StartChatRequest {
+  phone: string; // E.164, e.g. +919876543210
+  name?: string;
+}
+
+export interface ChatListFilter {
+  assigneeId?: string;
+  unassigned?: boolean;
+  state?: ChatState;
+}
+
+export interface MessageMedia {
+  url: string;
+  mimeType?: string;
+  fileName?: string;
+  sizeBytes?: number;
+  thumbnailUrl?: string;
+}
+
+export interface MessageLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+export interface MessageContact {
+  name: string;
+  phones: string[];
+  email?: string;
+}
+
+// Delivery status of an outbound message, as reported by WhatsApp
+export type MessageStatus = 'PENDING' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+
+export interface NoteMention {
+  staffId: string;
+  name: string;
+}
+
+export interface Message {
+  id: string;
+  chatId?: string;
+  type?: MessageType; // Defaults to TEXT
+  content: string; // Text body, or caption for media
+  direction: 'IN' | 'OUT';
+  createdAt: string;
+  clientMessageId?: string; // Id the sender gave an outgoing message, echoed back by the server
+  status?: MessageStatus; // Outbound messages only
+  errorMessage?: string; // Why an outbound message failed
+  authorId?: string; // Staff member who sent the message or wrote the note - missing for automated messages
+  authorName?: string;
+  mentions?: NoteMention[]; // Staff @mentioned in a note
+  language?: string; // Language detected in an inbound message (ISO 639-1, e.g. 'hi')
+  consentChange?: 'OPTED_IN' | 'OPTED_OUT'; // Consent change the server recorded from this reply (STOP/START)
+  media?: MessageMedia;
+  location?: MessageLocation;
+  contacts?: MessageContact[];
+  metadata?: {
+    action?: string;
+    [key: string]: unknown;
+  };
+}
+
+// Metadata the assistant attaches to a message when it books an appointment
+export interface BookingActionMetadata {
+  action: 'CREATE_BOOKING';
+  appointmentId?: string;
+  serviceName?: string;
+  providerName?: string;
+  startTime?: string;
+  status?: string;
+}
+
+export interface UploadedMedia {
+  mediaId: string;
+  url: string;
+  mimeType: string;
+  fileName: string;
+  sizeBytes: number;
+}
+
+export interface SendMediaRequest {
+  to: string;
+  type: 'IMAGE' | 'DOCUMENT' | 'AUDIO' | 'VIDEO';
+  mediaId: string;
+  caption?: string;
+  fileName?: string;
+  clientMessageId?: string; // Echoed back on the saved message
+}
+
+/**
+ * List the most recent chats
+ * @param filter - Only chats assigned to a staff member, or only unassigned chats
+ */
+export const listChats = async (limit: number = 50, filter: ChatListFilter = {}): Promise<Chat[]> => {
+  const response = await api.get('/api/chats', {
+    params: { limit, ...filter },
+  });
+  return response.data;
+};
+
+/**
+ * Get chat by ID
+ */
+export const getChat = async (chatId: string): Promise<Chat> => {
+  const response = await api.get(`/api/chats/${chatId}`);
+  return response.data;
+};
+
+/**
+ * Start a conversation with a phone number
+ * @returns The new chat, or the existing chat for that number
+ */
+export const startChat = async (request: StartChatRequest): Promise<Chat> => {
+  const response = await api.post('/api/chats', request);
+  return response.data;
+};
+
+/**
+ * Search message content, customer names and phone numbers across all chats
+ */
+export const searchChats = async (query: string, limit: number = 20): Promise<ChatSearchResult[]> => {
+  const response = await api.get('/api/chats/search', {
+    params: { q: query, limit },
+  });
+  return response.data;
+};
+
+/**
+ * Assign a chat to a staff member
+ * @param staffId - Staff member ID, or null to unassign
+ */
+export const assignChat = async (chatId: string, staffId: string | null): Promise<Chat> => {
+  const response = await api.put(`/api/chats/${chatId}/assignee`, { staffId });
+  return response.data;
+};
+
+/**
+ * Get the assignment history of a chat (newest first)
+ */
+export const getChatAssignments = async (chatId: string): Promise<ChatAssignment[]> => {
+  const response = await api.get(`/api/chats/${chatId}/assignments`);
+  return response.data;
+};
+
+// Why the AI assistant is paused. A staff reply pauses it until the handoff
+// times out, but leaves a pause set by hand as it is.
+export type BotPauseReason = 'MANUAL' | 'STAFF_REPLY';
+
+/**
+ * Hand a chat over to staff (pause the AI assistant) or back to the assistant
+ * @param active - true to let the assistant reply again
+ * @param options.reason - Why it is being paused, defaults to MANUAL
+ */
+export const setChatBotStatus = async (
+  chatId: string,
+  active: boolean,
+  options: { reason?: BotPauseReason } = {}
+): Promise<Chat> => {
+  const response = await api.put(`/api/chats/${chatId}/bot`, {
+    active,
+    reason: active ? undefined : options.reason || 'MANUAL',
+  });
+  return response.data;
+};
+
+/**
+ * Move a chat through its lifecycle (resolve, snooze, archive, reopen)
+ * @param snoozedUntil - When a PENDING chat should reopen by itself
+ */
+export const updateChatState = async (
+  chatId: string,
+  state: ChatState,
+  snoozedUntil?: string
+): Promise<Chat> => {
+  const response = await api.put(`/api/chats/${chatId}/state`, { state, snoozedUntil });
+  return response.data;
+};
+
+/**
+ * Clear the assistant's request for a human
+ */
+export const resolveChatEscalation = async (chatId: string): Promise<Chat> => {
+  const response = await api.post(`/api/chats/${chatId}/escalation/resolve`);
+  return response.data;
+};
+
+/**
+ * Add an internal note to a chat. Mentioned staff are notified.
+ */
+export const addChatNote = async (chatId: string, text: string, mentions: NoteMention[]): Promise<Message> => {
+  const response = await api.post(`/api/chats/${chatId}/notes`, { text, mentions });
+  return response.data;
+};
+
+export type TranscriptFormat = 'PDF' | 'HTML' | 'JSON';
+
+export interface ChatExportRequest {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  format: TranscriptFormat;
+  includeNotes: boolean; // Internal staff notes are left out unless asked for
+}
+
+/**
+ * Export every chat with messages in a date range
+ * @returns ZIP archive with one transcript per chat
+ */
+export const exportChats = async (request: ChatExportRequest): Promise<Blob> => {
+  try {
+    const response = await api.post('/api/chats/export', request, { responseType: 'blob' });
+    return response.data;
+  } catch (error) {
+    // The error body arrives as a blob too - parse it so getApiErrorMessage can read it
+    if (axios.isAxiosError(error) && error.response?.data instanceof Blob) {
+      try {
+        error.response.data = JSON.parse(await error.response.data.text());
+      } catch {
+        // Not JSON - the fallback message is used
+      }
+    }
+    throw error;
+  }
+};
+
+export interface MessagePageParams {
+  before?: string; // Cursor from a previous page
+  limit?: number;
+}
+
+export interface MessagePage {
+  content: Message[]; // Oldest first
+  nextCursor: string | null; // Pass as `before` to load older messages; null when there are none
+}
+
+/**
+ * Get a page of chat messages, newest page first. Servers without paging
+ * return the whole history as a plain array, which is treated as one page.
+ */
+export const getChatMessages = async (
+  chatId: string,
+  params: MessagePageParams = {}
+): Promise<MessagePage> => {
+  const response = await api.get<Message[] | MessagePage>(`/api/chats/${chatId}/messages`, { params });
+  if (Array.isArray(response.data)) {
+    return { content: response.data, nextCursor: null };
+  }
+  return response.data;
+};
+
+/**
+ * Send a free-text WhatsApp message
+ * @param clientMessageId - Echoed back on the saved message
+ */
+export const sendWhatsAppMessage = async (to: string, text: string, clientMessageId?: string): Promise<unknown> => {
+  const response = await api.post('/api/whatsapp/send', { to, text, clientMessageId });
+  return response.data;
+};
+
+/**
+ * Upload a file to attach to a chat message
+ * @param onProgress - Called with the upload progress (0-100)
+ */
+export const uploadChatMedia = async (
+  chatId: string,
+  file: File,
+  onProgress?: (percent: number) => void
+): Promise<UploadedMedia> => {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await api.post(`/api/chats/${chatId}/media`, formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+    timeout: 120000, // Large documents and videos take a while
+    onUploadProgress: (event) => {
+      if (onProgress && event.total) {
+        onProgress(Math.round((event.loaded * 100) / event.total));
+      }
+    },
+  });
+  return response.data;
+};
+
+/**
+ * Send an uploaded image, document, audio or video as a WhatsApp message
+ */
+export const sendWhatsAppMedia = async (request: SendMediaRequest): Promise<unknown> => {
+  const response = await api.post('/api/whatsapp/send-media', request);
+  return response.data;
+};
+
+// ============================================
+// SCHEDULED MESSAGES API
+// ============================================
+
+export type ScheduledMessageStatus = 'SCHEDULED' | 'SENT' | 'FAILED' | 'CANCELLED';
+
+export interface ScheduledMessage {
+  id: string;
+  chatId: string;
+  to: string;
+  text?: string; // Free-form messages
+  template?: Omit<SendTemplateRequest, 'to'>; // Template messages
+  scheduledFor: string;
+  status: ScheduledMessageStatus;
+  errorMessage?: string;
+  createdByName?: string;
+  createdAt: string;
+}
+
+export interface ScheduledMessageRequest {
+  chatId: string;
+  to: string;
+  text?: string;
+  template?: Omit<SendTemplateRequest, 'to'>;
+  scheduledFor: string; // ISO 8601 format
+}
+
+/**
+ * List a chat's scheduled messages
+ * @param statuses - Defaults to those still needing attention: waiting to be sent, or failed
+ */
+export const listScheduledMessages = async (
+  chatId: string,
+  statuses: ScheduledMessageStatus[] = ['SCHEDULED', 'FAILED']
+): Promise<ScheduledMessage[]> => {
+  const response = await api.get(`/api/chats/${chatId}/scheduled-messages`, {
+    params: { status: statuses.join(',') },
+  });
+  return response.data;
+};
+
+/**
+ * Schedule a text or template message to be sent later
+ */
+export const scheduleMessage = async (request: ScheduledMessageRequest): Promise<ScheduledMessage> => {
+  const response = await api.post('/api/scheduled-messages', request);
+  return response.data;
+};
+
+/**
+ * Change the text or send time of a scheduled message
+ */
+export const updateScheduledMessage = async (
+  id: string,
+  updates: Partial<Pick<ScheduledMessageRequest, 'text' | 'scheduledFor'>>
+): Promise<ScheduledMessage> => {
+  const response = await api.put(`/api/scheduled-messages/${id}`, updates);
+  return response.data;
+};
+
+/**
+ * Cancel a scheduled message before it is sent
+ */
+export const cancelScheduledMessage = async (id: string): Promise<void> => {
+  await api.delete(`/api/scheduled-messages/${id}`);
+};
+
+// ============================================
+// CAMPAIGNS API
+// ============================================
+
+export type CampaignStatus = 'SCHEDULED' | 'SENDING' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
+
+export type CampaignRecipientStatus =
+  | 'PENDING'
+  | 'SENT'
+  | 'DELIVERED'
+  | 'READ'
+  | 'REPLIED'
+  | 'FAILED'
+  | 'OPTED_OUT';
+
+// How each template variable is filled in for a recipient
+export interface CampaignVariable {
+  index: number; // {{1}} -> 1
+  source: TemplateVariableSource; // PATIENT_* and CLINIC_NAME are filled per recipient
+  value?: string; // For CUSTOM
+}
+
+// Counts are cumulative - a read message also counts as sent and delivered
+export interface CampaignStats {
+  recipients: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  failed: number;
+  optedOut: number;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  templateName: string;
+  templateLanguage: string;
+  variables: CampaignVariable[];
+  headerMediaUrl?: string;
+  audience: CustomerFilter;
+  scheduledFor?: string;
+  messagesPerMinute: number; // Throttle so the number isn't flagged for spam
+  status: CampaignStatus;
+  stats: CampaignStats;
+  createdByName?: string;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface CampaignRequest {
+  name: string;
+  templateName: string;
+  templateLanguage: string;
+  variables: CampaignVariable[];
+  headerMediaUrl?: string;
+  audience: CustomerFilter;
+  scheduledFor?: string; // ISO 8601 format - omit to start sending now
+  messagesPerMinute: number;
+}
+
+export interface CampaignRecipient {
+  customerId: string;
+  name?: string;
+  phone: string;
+  chatId?: string;
+  status: CampaignRecipientStatus;
+  errorMessage?: string;
+  updatedAt?: string;
+}
+
+export interface CampaignAudienceCount {
+  matching: number; // Customers matching the audience filters
+  optedOut: number; // Of those, customers who opted out of marketing and will be skipped
+}
+
+export interface PagedCampaignRecipients {
+  content: CampaignRecipient[];
+  totalElements: number;
+  totalPages: number;
+  number: number; // Current page (0-based)
+}
+
+/**
+ * List campaigns, newest first
+ */
+export const listCampaigns = async (): Promise<Campaign[]> => {
+  const response = await api.get('/api/campaigns');
+  return response.data;
+};
+
+/**
+ * Get a campaign with its delivery stats
+ */
+export const getCampaign = async (id: string): Promise<Campaign> => {
+  const response = await api.get(`/api/campaigns/${id}`);
+  return response.data;
+};
+
+/**
+ * Create a campaign. It starts sending straight away unless scheduled.
+ */
+export const createCampaign = async (request: CampaignRequest): Promise<Campaign> => {
+  const response = await api.post('/api/campaigns', request);
+  return response.data;
+};
+
+/**
+ * Count who a campaign with this audience would reach, by the same rules used
+ * when it sends
+ */
+export const countCampaignAudience = async (audience: CustomerFilter): Promise<CampaignAudienceCount> => {
+  const response = await api.get('/api/campaigns/audience/count', { params: toCustomerFilterParams(audience) });
+  return response.data;
+};
+
+/**
+ * Pause, resume or cancel a campaign
+ */
+export const updateCampaignStatus = async (
+  id: string,
+  action: 'pause' | 'resume' | 'cancel'
+): Promise<Campaign> => {
+  const response = await api.post(`/api/campaigns/${id}/${action}`);
+  return response.data;
+};
+
+/**
+ * Get a page of a campaign's recipients and their delivery status
+ */
+export const getCampaignRecipients = async (
+  id: string,
+  params: { status?: CampaignRecipientStatus; page?: number; size?: number } = {}
+): Promise<PagedCampaignRecipients> => {
+  const response = await api.get(`/api/campaigns/${id}/recipients`, { params });
+  return response.data;
+};
+
+// ============================================
+// TRANSLATION API
+// ============================================
+
+export interface TranslationResult {
+  text: string;
+  sourceLanguage: string; // ISO 639-1
+  targetLanguage: string;
+}
+
+/**
+ * Detect the language of several pieces of text in one request
+ * @returns ISO 639-1 code for each text, in order - null when it can't be told (e.g. only emoji)
+ */
+export const detectLanguages = async (texts: string[]): Promise<(string | null)[]> => {
+  const response = await api.post<{ languages: (string | null)[] }>('/api/translation/detect-batch', { texts });
+  return response.data.languages;
+};
+
+/**
+ * Translate text into another language
+ * @param sourceLanguage - Detected when not given
+ */
+export const translateText = async (
+  text: string,
+  targetLanguage: string,
+  sourceLanguage?: string
+): Promise<TranslationResult> => {
+  const response = await api.post('/api/translation/translate', { text, targetLanguage, sourceLanguage });
+  return response.data;
+};
+
+// ============================================
+// ASSISTANT API
+// ============================================
+
+export interface AssistantRequest {
+  language: string; // Write in this language (ISO 639-1)
+  systemPrompt?: string; // Clinic's own instructions
+}
+
+export interface ConversationSummary {
+  summary: string;
+  keyPoints: string[]; // e.g. what the customer wants, what was promised
+  generatedAt: string;
+}
+
+/**
+ * Summarize a conversation for staff taking it over
+ */
+export const summarizeChat = async (chatId: string, request: AssistantRequest): Promise<ConversationSummary> => {
+  const response = await api.post(`/api/chats/${chatId}/assistant/summary`, request);
+  return response.data;
+};
+
+/**
+ * Suggest replies to the customer's latest message
+ */
+export const suggestChatReplies = async (chatId: string, request: AssistantRequest): Promise<string[]> => {
+  const response = await api.post<{ suggestions: string[] }>(`/api/chats/${chatId}/assistant/suggestions`, request);
+  return response.data.suggestions;
+};
+
 // Export the configured axios instance as default
 export default api;
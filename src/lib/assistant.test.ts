@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Chat, Message } from './api';
+
+vi.mock('./api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./api')>()),
+  getTenantProfile: vi.fn(),
+  suggestChatReplies: vi.fn(),
+  summarizeChat: vi.fn(),
+}));
+
+const chat: Chat = { id: 'c1', customerId: 'p1', customerName: 'Asha Rao', customerPhone: '919812345678' };
+
+const message = (id: string, direction: 'IN' | 'OUT', content: string, createdAt: string): Message => ({
+  id,
+  direction,
+  content,
+  createdAt,
+});
+
+const messages = [
+  message('m1', 'IN', 'Hi, can I book an appointment for Friday?', '2026-10-16T04:30:00.000Z'),
+  message('m2', 'OUT', 'Sure, morning or evening?', '2026-10-16T04:35:00.000Z'),
+  message('m3', 'IN', 'Evening please', '2026-10-16T04:40:00.000Z'),
+];
+
+// Fresh module state (cached settings) for every test
+const loadModules = async () => {
+  vi.resetModules();
+  vi.clearAllMocks();
+  return { api: await import('./api'), assistant: await import('./assistant') };
+};
+
+describe('stubAssistantProvider', () => {
+  it('summarizes the loaded conversation', async () => {
+    const { assistant } = await loadModules();
+    const summary = await assistant.stubAssistantProvider.summarize({ chat, messages, language: 'en' });
+
+    expect(summary.keyPoints).toEqual([
+      'Opened with "Hi, can I book an appointment for Friday?"',
+      'Latest from the customer: "Evening please"',
+      'Waiting for a reply',
+    ]);
+    expect(summary.generatedAt).toBe('2026-10-16T04:40:00.000Z');
+  });
+
+  it('suggests replies for the latest message, in the clinic language', async () => {
+    const { assistant } = await loadModules();
+    const replies = await assistant.stubAssistantProvider.suggestReplies({
+      chat,
+      messages: [...messages, message('m4', 'IN', 'How much is the fee?', '2026-10-16T04:41:00.000Z')],
+      language: 'hi',
+    });
+
+    expect(replies).toHaveLength(3);
+    expect(replies[0]).toBe("[hi] I'll share the fees with you shortly.");
+    expect(replies[1]).toBe('[hi] Thanks for your message, Asha. Let me check and get back to you shortly.');
+  });
+});
+
+describe('suggestReplies', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('asks the backend in the clinic language, loading the settings once', async () => {
+    const { api, assistant } = await loadModules();
+    vi.mocked(api.getTenantProfile).mockResolvedValue({
+      id: 't1',
+      name: 'Smile Clinic',
+      config: { preferred_language: 'mr', system_prompt: 'Be brief' },
+    });
+    vi.mocked(api.suggestChatReplies).mockResolvedValue(['Ho, nakki']);
+
+    expect(await assistant.suggestReplies(chat, messages)).toEqual(['Ho, nakki']);
+    await assistant.suggestReplies(chat, messages);
+
+    expect(api.suggestChatReplies).toHaveBeenCalledWith('c1', { language: 'mr', systemPrompt: 'Be brief' });
+    expect(api.getTenantProfile).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to English when the settings fail to load, and retries them', async () => {
+    const { api, assistant } = await loadModules();
+    vi.mocked(api.getTenantProfile).mockRejectedValue(new Error('Network Error'));
+    vi.mocked(api.suggestChatReplies).mockResolvedValue([]);
+
+    await assistant.suggestReplies(chat, messages);
+    await assistant.suggestReplies(chat, messages);
+
+    expect(api.suggestChatReplies).toHaveBeenCalledWith('c1', { language: 'en' });
+    expect(api.getTenantProfile).toHaveBeenCalledTimes(2);
+  });
+});
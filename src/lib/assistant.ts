@@ -0,0 +1,155 @@
+import dayjs from 'dayjs';
+import {
+  getTenantProfile,
+  onSessionEnd,
+  suggestChatReplies,
+  summarizeChat,
+  type Chat,
+  type ConversationSummary,
+  type Message,
+} from './api';
+import { selectProvider, tagWithLanguage } from './providers';
+
+/**
+ * What the assistant knows when summarizing or suggesting replies
+ */
+export interface AssistantContext {
+  chat: Chat;
+  messages: Message[]; // Loaded messages, oldest first
+  language: string; // Clinic's preferred language
+  systemPrompt?: string; // Clinic's own instructions
+}
+
+/**
+ * Anything that can summarize a conversation and suggest replies (picked by
+ * VITE_ASSISTANT_PROVIDER)
+ */
+export interface AssistantProvider {
+  summarize: (context: AssistantContext) => Promise<ConversationSummary>;
+  suggestReplies: (context: AssistantContext) => Promise<string[]>;
+}
+
+export const apiAssistantProvider: AssistantProvider = {
+  summarize: ({ chat, language, systemPrompt }) => summarizeChat(chat.id, { language, systemPrompt }),
+  suggestReplies: ({ chat, language, systemPrompt }) => suggestChatReplies(chat.id, { language, systemPrompt }),
+};
+
+// Longest quote of a message in a stub summary
+const MAX_QUOTE_LENGTH = 80;
+// Most replies suggested at once
+const MAX_SUGGESTIONS = 3;
+// How long the clinic's assistant settings are reused before loading them again
+const SETTINGS_MAX_AGE_MS = 5 * 60 * 1000;
+
+// Stub replies for what the customer's latest message seems to be about
+const TOPIC_REPLIES: { pattern: RegExp; reply: string }[] = [
+  { pattern: /cancel|reschedul|postpone|change/i, reply: 'No problem, I can change that for you. Which appointment is it about?' },
+  { pattern: /appointment|book|slot|available|visit/i, reply: 'I can book that for you. Which day and time suit you best?' },
+  { pattern: /price|cost|fee|charge|how much/i, reply: "I'll share the fees with you shortly." },
+  { pattern: /where|address|location|direction/i, reply: "I'll send you our address and directions." },
+];
+
+const quote = (text: string) =>
+  `"${text.length > MAX_QUOTE_LENGTH ? `${text.slice(0, MAX_QUOTE_LENGTH - 1)}…` : text}"`;
+
+// Messages the customer actually saw, without internal notes
+const getConversation = (messages: Message[]) => messages.filter((m) => m.type !== 'NOTE' && m.content.trim());
+
+/**
+ * Local stand-in that builds the summary and replies from the loaded messages.
+ * The same messages always give the same output.
+ */
+export const stubAssistantProvider: AssistantProvider = {
+  summarize: async ({ chat, messages, language }) => {
+    const conversation = getConversation(messages);
+    const inbound = conversation.filter((m) => m.direction === 'IN');
+    const customer = chat.customerName || chat.customerPhone;
+    const first = conversation[0];
+    const last = conversation[conversation.length - 1];
+
+    const keyPoints: string[] = [];
+    if (inbound.length > 0) {
+      keyPoints.push(`Opened with ${quote(inbound[0].content.trim())}`);
+      if (inbound.length > 1) keyPoints.push(`Latest from the customer: ${quote(inbound[inbound.length - 1].content.trim())}`);
+    }
+    if (last?.direction === 'IN') keyPoints.push('Waiting for a reply');
+    if (chat.escalated) keyPoints.push(`Handed over by the bot${chat.escalationReason ? `: ${chat.escalationReason}` : ''}`);
+
+    const summary = first
+      ? `${customer} sent ${inbound.length} message(s) and received ${conversation.length - inbound.length} ` +
+        `repl${conversation.length - inbound.length === 1 ? 'y' : 'ies'} between ` +
+        `${dayjs(first.createdAt).format('DD MMM, h:mm A')} and ${dayjs(last.createdAt).format('DD MMM, h:mm A')}.`
+      : `No messages with ${customer} yet.`;
+
+    return {
+      summary: tagWithLanguage(summary, language),
+      keyPoints: keyPoints.map((point) => tagWithLanguage(point, language)),
+      generatedAt: last?.createdAt ?? chat.lastMessageAt ?? new Date(0).toISOString(),
+    };
+  },
+  suggestReplies: async ({ chat, messages, language }) => {
+    const latest = getConversation(messages)
+      .filter((m) => m.direction === 'IN')
+      .pop();
+    const firstName = chat.customerName?.split(' ')[0];
+
+    const replies = [
+      ...TOPIC_REPLIES.filter((topic) => latest && topic.pattern.test(latest.content)).map((topic) => topic.reply),
+      `Thanks for your message${firstName ? `, ${firstName}` : ''}. Let me check and get back to you shortly.`,
+      'Is there anything else I can help you with?',
+    ];
+    return replies.slice(0, MAX_SUGGESTIONS).map((reply) => tagWithLanguage(reply, language));
+  },
+};
+
+type AssistantSettings = Pick<AssistantContext, 'language' | 'systemPrompt'>;
+
+// Module state
+const provider = selectProvider(import.meta.env.VITE_ASSISTANT_PROVIDER, {
+  api: apiAssistantProvider,
+  stub: stubAssistantProvider,
+});
+let settings: { loadedAt: number; request: Promise<AssistantSettings> } | null = null;
+
+// The clinic's language and instructions, as set on the Settings page. Loaded
+// once and shared by every request for a few minutes.
+const loadSettings = (): Promise<AssistantSettings> => {
+  if (settings && Date.now() - settings.loadedAt < SETTINGS_MAX_AGE_MS) return settings.request;
+
+  const request = getTenantProfile().then(
+    (tenant) => ({
+      language: tenant.config?.preferred_language || 'en',
+      systemPrompt: tenant.config?.system_prompt || undefined,
+    }),
+    (error) => {
+      console.error('Failed to load assistant settings:', error);
+      settings = null; // Try again next time
+      return { language: 'en' };
+    }
+  );
+  settings = { loadedAt: Date.now(), request };
+  return request;
+};
+
+const getContext = async (chat: Chat, messages: Message[]): Promise<AssistantContext> => {
+  return { chat, messages, ...(await loadSettings()) };
+};
+
+// Settings belong to the clinic that was logged in
+onSessionEnd(() => {
+  settings = null;
+});
+
+/**
+ * Summarize a conversation for staff picking it up
+ */
+export const summarizeConversation = async (chat: Chat, messages: Message[]): Promise<ConversationSummary> => {
+  return provider.summarize(await getContext(chat, messages));
+};
+
+/**
+ * Suggest replies to the customer's latest message
+ */
+export const suggestReplies = async (chat: Chat, messages: Message[]): Promise<string[]> => {
+  return provider.suggestReplies(await getContext(chat, messages));
+};
@@ -1,4 +1,4 @@
-import api from './api';
+import api, { clearToken } from './api';
 
 // Constants for localStorage keys
 const TOKEN_KEY = 'waas_token';
@@ -57,9 +57,8 @@ export const login = async (email: string, password: string): Promise<LoginRespo
  * Logout user - clear localStorage and redirect to login
  */
 export const logout = (): void => {
-  // Remove authentication data from localStorage
-  localStorage.removeItem(TOKEN_KEY);
-  localStorage.removeItem(TENANT_KEY);
+  // Remove authentication data from localStorage, running session cleanups
+  clearToken();
   localStorage.removeItem(ONBOARDING_STATUS_KEY);
   
   // Use pushState to redirect to login (works with SPA routing)
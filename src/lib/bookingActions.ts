@@ -0,0 +1,80 @@
+import { getAppointment, type AppointmentResponse, type BookingActionMetadata, type Message } from './api';
+
+type AppointmentListener = () => void;
+
+// How long a fetched appointment is trusted before a card loads it again
+const STALE_AFTER_MS = 30000;
+
+// Latest known state of appointments shown on booking cards, shared by every
+// card so that scrolling the thread doesn't refetch them
+const appointments = new Map<string, AppointmentResponse>();
+const loadedAt = new Map<string, number>();
+const pending = new Map<string, Promise<void>>();
+const listeners = new Set<AppointmentListener>();
+
+const notify = () => {
+  listeners.forEach((listener) => listener());
+};
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isBookingActionMetadata = (
+  metadata: Message['metadata']
+): metadata is NonNullable<Message['metadata']> & BookingActionMetadata =>
+  metadata?.action === 'CREATE_BOOKING' &&
+  isOptionalString(metadata.appointmentId) &&
+  isOptionalString(metadata.serviceName) &&
+  isOptionalString(metadata.providerName) &&
+  isOptionalString(metadata.startTime) &&
+  isOptionalString(metadata.status);
+
+/**
+ * Booking metadata the assistant attached to a message, if any
+ */
+export const getBookingAction = (message: Message): BookingActionMetadata | null => {
+  return isBookingActionMetadata(message.metadata) ? message.metadata : null;
+};
+
+/**
+ * Appointments can be rescheduled or cancelled until they have happened
+ */
+export const canChangeBooking = (status: string) => status === 'PENDING' || status === 'CONFIRMED';
+
+export const getBookedAppointment = (id: string): AppointmentResponse | undefined => appointments.get(id);
+
+/**
+ * Store the latest state of an appointment (from an API response or realtime event)
+ */
+export const setBookedAppointment = (appointment: AppointmentResponse) => {
+  appointments.set(appointment.id, appointment);
+  loadedAt.set(appointment.id, Date.now());
+  notify();
+};
+
+/**
+ * Fetch an appointment unless it was loaded recently or is being fetched
+ */
+export const loadBookedAppointment = (id: string): Promise<void> => {
+  if (Date.now() - (loadedAt.get(id) ?? 0) < STALE_AFTER_MS) return Promise.resolve();
+
+  let request = pending.get(id);
+  if (!request) {
+    request = getAppointment(id)
+      .then(setBookedAppointment)
+      .catch((error) => console.error('Failed to load booked appointment:', error))
+      .finally(() => pending.delete(id));
+    pending.set(id, request);
+  }
+  return request;
+};
+
+/**
+ * Subscribe to appointment changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToBookedAppointments = (listener: AppointmentListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,93 @@
+import type {
+  CampaignRecipientStatus,
+  CampaignStatus,
+  CampaignVariable,
+  Customer,
+  MessageTemplate,
+  TemplateVariableSource,
+} from './api';
+import { extractVariables, resolveVariable } from './templates';
+
+/**
+ * Variable sources that make sense without an appointment
+ */
+export const CAMPAIGN_VARIABLE_SOURCES: { value: TemplateVariableSource; label: string }[] = [
+  { value: 'PATIENT_NAME', label: 'Patient name' },
+  { value: 'PATIENT_PHONE', label: 'Patient phone' },
+  { value: 'CLINIC_NAME', label: 'Clinic name' },
+  { value: 'CUSTOM', label: 'Same text for everyone' },
+];
+
+// Sending speeds offered - Meta flags numbers that send too fast to new contacts
+export const THROTTLE_OPTIONS = [10, 30, 60, 120];
+export const DEFAULT_MESSAGES_PER_MINUTE = 30;
+
+export const CAMPAIGN_STATUS_COLORS: Record<CampaignStatus, string> = {
+  SCHEDULED: 'bg-purple-100 text-purple-800',
+  SENDING: 'bg-blue-100 text-blue-800',
+  PAUSED: 'bg-yellow-100 text-yellow-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+};
+
+export const RECIPIENT_STATUS_LABELS: Record<CampaignRecipientStatus, string> = {
+  PENDING: 'Waiting',
+  SENT: 'Sent',
+  DELIVERED: 'Delivered',
+  READ: 'Read',
+  REPLIED: 'Replied',
+  FAILED: 'Failed',
+  OPTED_OUT: 'Opted out',
+};
+
+/**
+ * Starting variable mapping for a template, from the sources chosen when it was created
+ */
+export const getDefaultCampaignVariables = (template: MessageTemplate): CampaignVariable[] => {
+  return extractVariables(template.body).map((index) => {
+    const source = template.variables?.find((v) => v.index === index)?.source;
+    const supported = CAMPAIGN_VARIABLE_SOURCES.some((s) => s.value === source);
+    return { index, source: source && supported ? source : 'CUSTOM', value: '' };
+  });
+};
+
+/**
+ * Variable values a recipient will receive
+ * @returns One value per body variable, in order ({{1}} first)
+ */
+export const renderCampaignValues = (
+  variables: CampaignVariable[],
+  customer: Customer | undefined,
+  clinicName?: string
+): string[] => {
+  const values: string[] = [];
+  variables.forEach((variable) => {
+    values[variable.index - 1] =
+      variable.source === 'CUSTOM'
+        ? variable.value || ''
+        : resolveVariable(variable.source, {
+            patientName: customer?.name,
+            patientPhone: customer?.phoneNumber,
+            clinicName,
+          });
+  });
+  return values;
+};
+
+/**
+ * Rough time to send to everyone at the chosen speed, e.g. "about 12 minutes"
+ */
+export const formatSendDuration = (recipients: number, messagesPerMinute: number): string => {
+  const minutes = Math.ceil(recipients / messagesPerMinute);
+  if (minutes <= 1) return 'under a minute';
+  if (minutes < 60) return `about ${minutes} minutes`;
+  const hours = Math.round((minutes / 60) * 10) / 10;
+  return `about ${hours} hour${hours !== 1 ? 's' : ''}`;
+};
+
+/**
+ * Share of a total as a whole percentage
+ */
+export const toPercent = (count: number, total: number): number => {
+  return total > 0 ? Math.round((count / total) * 100) : 0;
+};
@@ -0,0 +1,82 @@
+import dayjs from 'dayjs';
+import {
+  getNextAvailableSlot,
+  getTenantProfile,
+  type CannedResponse,
+  type Chat,
+} from './api';
+
+/**
+ * Variables a canned response can use, written as {{key}}
+ */
+export const CANNED_VARIABLES = [
+  { key: 'patient_name', label: 'Patient name' },
+  { key: 'patient_phone', label: 'Patient phone' },
+  { key: 'clinic_name', label: 'Clinic name' },
+  { key: 'clinic_phone', label: 'Clinic phone' },
+  { key: 'clinic_address', label: 'Clinic address' },
+  { key: 'next_slot', label: 'Next free slot' },
+];
+
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Whether a response body uses any of the given variables
+ */
+const usesAnyVariable = (body: string, keys: string[]): boolean => {
+  return [...body.matchAll(VARIABLE_PATTERN)].some((match) => keys.includes(match[1]));
+};
+
+/**
+ * Fill in a canned response for a chat. Clinic details and the next slot are
+ * only fetched when the response uses them. Unknown or unavailable variables
+ * are left in place so staff notice before sending.
+ */
+export const renderCannedResponse = async (body: string, chat: Chat): Promise<string> => {
+  const values: Record<string, string | undefined> = {
+    patient_name: chat.customerName,
+    patient_phone: chat.customerPhone,
+  };
+
+  if (usesAnyVariable(body, ['clinic_name', 'clinic_phone', 'clinic_address'])) {
+    try {
+      const tenant = await getTenantProfile();
+      values.clinic_name = tenant.name;
+      values.clinic_phone = tenant.phone;
+      values.clinic_address = tenant.address;
+    } catch (error) {
+      console.error('Failed to load clinic details:', error);
+    }
+  }
+
+  if (usesAnyVariable(body, ['next_slot'])) {
+    try {
+      const slot = await getNextAvailableSlot();
+      values.next_slot = slot ? dayjs(slot.startTime).format('ddd, DD MMM [at] h:mm A') : undefined;
+    } catch (error) {
+      console.error('Failed to load next free slot:', error);
+    }
+  }
+
+  return body.replace(VARIABLE_PATTERN, (placeholder, key) => values[key] || placeholder);
+};
+
+/**
+ * Canned responses matching what was typed after "/", most used first
+ */
+export const searchCannedResponses = (responses: CannedResponse[], query: string): CannedResponse[] => {
+  const q = query.toLowerCase();
+  return responses
+    .filter(
+      (r) =>
+        r.shortcut.toLowerCase().includes(q) ||
+        r.title.toLowerCase().includes(q) ||
+        r.body.toLowerCase().includes(q)
+    )
+    .sort((a, b) => {
+      // Shortcut prefix matches first, then by popularity
+      const aPrefix = a.shortcut.toLowerCase().startsWith(q) ? 0 : 1;
+      const bPrefix = b.shortcut.toLowerCase().startsWith(q) ? 0 : 1;
+      return aPrefix - bPrefix || b.usageCount - a.usageCount;
+    });
+};
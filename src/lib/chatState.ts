@@ -0,0 +1,51 @@
+import dayjs from 'dayjs';
+import type { Chat, ChatState, Message } from './api';
+
+export const CHAT_STATES: { value: ChatState; label: string }[] = [
+  { value: 'OPEN', label: 'Open' },
+  { value: 'PENDING', label: 'Snoozed' },
+  { value: 'RESOLVED', label: 'Resolved' },
+  { value: 'ARCHIVED', label: 'Archived' },
+];
+
+export const CHAT_STATE_COLORS: Record<ChatState, string> = {
+  OPEN: 'bg-green-50 text-green-700 border-green-200',
+  PENDING: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+  RESOLVED: 'bg-blue-50 text-blue-700 border-blue-200',
+  ARCHIVED: 'bg-gray-50 text-gray-600 border-gray-200',
+};
+
+export interface SnoozeOption {
+  label: string;
+  getUntil: (now: number) => Date;
+}
+
+export const SNOOZE_OPTIONS: SnoozeOption[] = [
+  { label: '1 hour', getUntil: (now) => dayjs(now).add(1, 'hour').toDate() },
+  { label: '3 hours', getUntil: (now) => dayjs(now).add(3, 'hour').toDate() },
+  { label: 'Tomorrow 9 AM', getUntil: (now) => dayjs(now).add(1, 'day').hour(9).startOf('hour').toDate() },
+  { label: 'Next week', getUntil: (now) => dayjs(now).add(1, 'week').startOf('day').hour(9).toDate() },
+];
+
+/**
+ * Current state of a chat. A snoozed chat counts as open again once its
+ * snooze has run out, even before the server pushes the update.
+ */
+export const getChatState = (chat: Chat, now: number): ChatState => {
+  const state = chat.state || 'OPEN';
+  if (state === 'PENDING' && chat.snoozedUntil && new Date(chat.snoozedUntil).getTime() <= now) {
+    return 'OPEN';
+  }
+  return state;
+};
+
+/**
+ * A new message from the customer puts a resolved, snoozed or archived chat
+ * back in the queue
+ */
+export const reopenOnInbound = (chat: Chat, message: Message): Chat => {
+  if (message.direction !== 'IN' || message.type === 'NOTE' || (chat.state || 'OPEN') === 'OPEN') {
+    return chat;
+  }
+  return { ...chat, state: 'OPEN', snoozedUntil: null };
+};
@@ -0,0 +1,39 @@
+import type { ConsentSource, ConsentStatus, MessageTemplate } from './api';
+
+export const CONSENT_STATUS_LABELS: Record<ConsentStatus, string> = {
+  OPTED_IN: 'Opted in',
+  OPTED_OUT: 'Opted out',
+  UNKNOWN: 'Not recorded',
+};
+
+export const CONSENT_STATUS_COLORS: Record<ConsentStatus, string> = {
+  OPTED_IN: 'bg-green-100 text-green-800',
+  OPTED_OUT: 'bg-red-100 text-red-800',
+  UNKNOWN: 'bg-gray-100 text-gray-700',
+};
+
+export const CONSENT_SOURCE_LABELS: Record<ConsentSource, string> = {
+  KEYWORD: 'WhatsApp reply',
+  STAFF: 'Recorded by staff',
+  IN_PERSON: 'In person',
+  WEBSITE: 'Website form',
+  IMPORT: 'Imported',
+};
+
+// Sources staff can pick when recording consent by hand
+export const MANUAL_CONSENT_SOURCES: ConsentSource[] = ['STAFF', 'IN_PERSON', 'WEBSITE'];
+
+/**
+ * Whether marketing messages may go to a customer. Consent that was never
+ * recorded counts - the customer messaged the clinic first.
+ */
+export const canSendMarketing = (status?: ConsentStatus): boolean => {
+  return status !== 'OPTED_OUT';
+};
+
+/**
+ * Whether a template may be sent to a customer with the given consent
+ */
+export const canSendTemplate = (template: MessageTemplate, status?: ConsentStatus): boolean => {
+  return template.category !== 'MARKETING' || canSendMarketing(status);
+};
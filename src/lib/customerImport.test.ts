@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { checkImportRows, guessColumnMapping } from './customerImport';
+
+describe('guessColumnMapping', () => {
+  it('maps headers by their aliases', () => {
+    expect(guessColumnMapping(['Patient Name', 'Mobile No.', 'Notes', 'Opt-in'])).toEqual({
+      name: 0,
+      phoneNumber: 1,
+      consent: 3,
+    });
+  });
+});
+
+describe('checkImportRows', () => {
+  const mapping = { name: 0, phoneNumber: 1, tags: 2, consent: 3 };
+
+  it('normalises phone numbers to E.164', () => {
+    const [check] = checkImportRows(
+      [
+        ['Name', 'Phone', 'Tags', 'Consent'],
+        ['Anita', '+91 98765-43210', 'vip; diabetic', 'yes'],
+      ],
+      mapping
+    );
+    expect(check.errors).toEqual([]);
+    expect(check.customer).toEqual({
+      row: 2,
+      name: 'Anita',
+      phoneNumber: '+919876543210',
+      email: undefined,
+      tags: ['vip', 'diabetic'],
+      consent: 'OPTED_IN',
+    });
+  });
+
+  it('reports invalid and repeated rows and skips blank ones', () => {
+    const checks = checkImportRows(
+      [
+        ['Name', 'Phone', 'Tags', 'Consent'],
+        ['Anita', '98765 43210', '', ''],
+        ['', '', '', ''],
+        ['Ravi', '098765 43210', '', 'maybe'],
+        ['Meena', 'call me', '', ''],
+      ],
+      mapping
+    );
+    expect(checks.map(({ row, errors, customer }) => ({ row, errors, imported: !!customer }))).toEqual([
+      { row: 2, errors: [], imported: true },
+      { row: 4, errors: ['Same phone number as row 2', 'Consent "maybe" should be yes or no'], imported: false },
+      { row: 5, errors: ['"call me" is not a valid phone number'], imported: false },
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import type { Customer, ImportCustomerRow } from './api';
+import { parseTags } from './customers';
+import { normalizePhoneNumber } from './phone';
+import { toCsv } from './spreadsheets';
+
+export type ImportField = 'name' | 'phoneNumber' | 'email' | 'tags' | 'consent';
+
+/**
+ * Customer fields a column can be imported into. Headers matching an alias
+ * are mapped automatically.
+ */
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'name', label: 'Name', aliases: ['name', 'full name', 'patient', 'patient name', 'customer name'] },
+  {
+    field: 'phoneNumber',
+    label: 'Phone number',
+    required: true,
+    aliases: ['phone', 'phone number', 'phone no', 'mobile', 'mobile number', 'mobile no', 'contact', 'contact number', 'whatsapp', 'whatsapp number'],
+  },
+  { field: 'email', label: 'Email', aliases: ['email', 'email address', 'e mail', 'mail'] },
+  { field: 'tags', label: 'Tags', aliases: ['tags', 'tag', 'labels', 'groups'] },
+  { field: 'consent', label: 'Marketing consent', aliases: ['consent', 'marketing consent', 'opt in', 'opted in', 'marketing'] },
+];
+
+// Column index for each field - fields left out aren't imported
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/**
+ * One data row of the file after validation
+ */
+export interface ImportRowCheck {
+  row: number; // Row in the file, counting the header as row 1
+  cells: string[];
+  customer: ImportCustomerRow | null; // Missing when the row has errors
+  errors: string[];
+}
+
+// Spellings accepted in a consent column
+const CONSENT_VALUES: Record<string, 'OPTED_IN' | 'OPTED_OUT'> = {
+  yes: 'OPTED_IN',
+  y: 'OPTED_IN',
+  true: 'OPTED_IN',
+  '1': 'OPTED_IN',
+  'opted in': 'OPTED_IN',
+  subscribed: 'OPTED_IN',
+  no: 'OPTED_OUT',
+  n: 'OPTED_OUT',
+  false: 'OPTED_OUT',
+  '0': 'OPTED_OUT',
+  'opted out': 'OPTED_OUT',
+  unsubscribed: 'OPTED_OUT',
+  stop: 'OPTED_OUT',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Phone numbers compared digits only, whichever format they were saved in
+const phoneKey = (phone: string) => phone.replace(/\D/g, '');
+
+/**
+ * Map columns to fields by their header, e.g. "Mobile No." to the phone number
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map((header) =>
+    header
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim()
+  );
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex(
+      (header, i) => aliases.includes(header) && !Object.values(mapping).includes(i)
+    );
+    if (index >= 0) mapping[field] = index;
+  });
+  return mapping;
+};
+
+/**
+ * Validate every data row (the first row is the header). Phone numbers are
+ * normalised to E.164 and a number repeated in the file is an error.
+ */
+export const checkImportRows = (rows: string[][], mapping: ColumnMapping): ImportRowCheck[] => {
+  const firstRowByPhone = new Map<string, number>();
+  const checks: ImportRowCheck[] = [];
+
+  rows.forEach((cells, index) => {
+    if (index === 0 || !cells.some((cell) => cell.trim())) return;
+
+    const row = index + 1;
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const rawPhone = value('phoneNumber');
+    const phoneNumber = rawPhone ? normalizePhoneNumber(rawPhone) : null;
+    if (!rawPhone) {
+      errors.push('Phone number is missing');
+    } else if (!phoneNumber) {
+      errors.push(`"${rawPhone}" is not a valid phone number`);
+    } else if (firstRowByPhone.has(phoneNumber)) {
+      errors.push(`Same phone number as row ${firstRowByPhone.get(phoneNumber)}`);
+    } else {
+      firstRowByPhone.set(phoneNumber, row);
+    }
+
+    const email = value('email');
+    if (email && !EMAIL_PATTERN.test(email)) errors.push(`"${email}" is not a valid email address`);
+
+    const rawConsent = value('consent');
+    const consent = rawConsent ? CONSENT_VALUES[rawConsent.toLowerCase()] : undefined;
+    if (rawConsent && !consent) errors.push(`Consent "${rawConsent}" should be yes or no`);
+
+    // Tags may be separated by commas or semicolons
+    const tags = parseTags(value('tags').replace(/;/g, ','));
+
+    checks.push({
+      row,
+      cells,
+      errors,
+      customer:
+        errors.length === 0 && phoneNumber
+          ? {
+              row,
+              name: value('name') || undefined,
+              phoneNumber,
+              email: email || undefined,
+              tags: tags.length > 0 ? tags : undefined,
+              consent,
+            }
+          : null,
+    });
+  });
+  return checks;
+};
+
+/**
+ * Existing customers for valid rows whose phone number is already taken, by row
+ */
+export const findDuplicateRows = (checks: ImportRowCheck[], existing: Customer[]): Map<number, Customer> => {
+  const byPhone = new Map(existing.map((customer) => [phoneKey(customer.phoneNumber), customer]));
+  const duplicates = new Map<number, Customer>();
+  checks.forEach(({ row, customer }) => {
+    const match = customer && byPhone.get(phoneKey(customer.phoneNumber));
+    if (match) duplicates.set(row, match);
+  });
+  return duplicates;
+};
+
+/**
+ * CSV of the rows that weren't imported, as they were in the file plus the
+ * reason, so they can be fixed and imported again
+ */
+export const buildImportErrorReport = (headers: string[], failures: { cells: string[]; row: number; message: string }[]) => {
+  return toCsv([
+    ['Row', ...headers, 'Error'],
+    ...failures.map(({ row, cells, message }) => [
+      String(row),
+      ...headers.map((_, index) => cells[index] ?? ''),
+      message,
+    ]),
+  ]);
+};
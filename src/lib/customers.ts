@@ -0,0 +1,119 @@
+import type {
+  AppointmentResponse,
+  CustomerFilter,
+  CustomerPayment,
+  CustomerQuery,
+  CustomerSortField,
+  Message,
+  SentReminder,
+} from './api';
+
+/**
+ * Query string for a filter, e.g. to hand an audience to the campaign builder
+ */
+export const filterToSearchParams = (filter: CustomerFilter): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filter.search?.trim()) params.set('search', filter.search.trim());
+  if (filter.tags?.length) params.set('tags', filter.tags.join(','));
+  if (filter.lastVisitFrom) params.set('lastVisitFrom', filter.lastVisitFrom);
+  if (filter.lastVisitTo) params.set('lastVisitTo', filter.lastVisitTo);
+  if (filter.hasUpcomingAppointment) params.set('upcoming', 'true');
+  return params;
+};
+
+export const filterFromSearchParams = (params: URLSearchParams): CustomerFilter => ({
+  search: params.get('search') || undefined,
+  tags: params.get('tags')?.split(',').filter(Boolean) || undefined,
+  lastVisitFrom: params.get('lastVisitFrom') || undefined,
+  lastVisitTo: params.get('lastVisitTo') || undefined,
+  hasUpcomingAppointment: params.get('upcoming') === 'true' || undefined,
+});
+
+export const hasCustomerFilter = (filter: CustomerFilter): boolean =>
+  !!(filter.search?.trim() || filter.tags?.length || filter.lastVisitFrom || filter.lastVisitTo || filter.hasUpcomingAppointment);
+
+const SORT_FIELDS: CustomerSortField[] = ['name', 'lastMessageAt', 'totalVisits', 'createdAt'];
+
+/**
+ * Query string for a customer list view, so it can be bookmarked or shared.
+ * Defaults are left out to keep links short.
+ */
+export const queryToSearchParams = (query: CustomerQuery): URLSearchParams => {
+  const params = filterToSearchParams(query);
+  if (query.sort && query.sort !== 'lastMessageAt') params.set('sort', query.sort);
+  if (query.direction === 'asc') params.set('direction', 'asc');
+  if (query.page) params.set('page', String(query.page + 1)); // 1-based in the URL
+  return params;
+};
+
+export const queryFromSearchParams = (params: URLSearchParams): CustomerQuery => {
+  const sort = params.get('sort') as CustomerSortField | null;
+  const page = parseInt(params.get('page') || '', 10);
+  return {
+    ...filterFromSearchParams(params),
+    sort: sort && SORT_FIELDS.includes(sort) ? sort : 'lastMessageAt',
+    direction: params.get('direction') === 'asc' ? 'asc' : 'desc',
+    page: page > 0 ? page - 1 : 0,
+  };
+};
+
+export type TimelineEntry =
+  | { type: 'MESSAGE' | 'NOTE'; id: string; at: string; message: Message }
+  | { type: 'APPOINTMENT'; id: string; at: string; appointment: AppointmentResponse }
+  | { type: 'REMINDER'; id: string; at: string; reminder: SentReminder }
+  | { type: 'PAYMENT'; id: string; at: string; payment: CustomerPayment };
+
+export type TimelineEntryType = TimelineEntry['type'];
+
+export interface CustomerHistory {
+  messages: Message[];
+  appointments: AppointmentResponse[];
+  reminders: SentReminder[];
+  payments: CustomerPayment[];
+}
+
+/**
+ * Everything that happened with a customer, newest first. Appointments sit at
+ * their start time, so upcoming visits come before past activity.
+ */
+export const buildCustomerTimeline = (history: CustomerHistory): TimelineEntry[] => {
+  const entries: TimelineEntry[] = [
+    ...history.messages.map((message) => ({
+      type: message.type === 'NOTE' ? ('NOTE' as const) : ('MESSAGE' as const),
+      id: `message-${message.id}`,
+      at: message.createdAt,
+      message,
+    })),
+    ...history.appointments.map((appointment) => ({
+      type: 'APPOINTMENT' as const,
+      id: `appointment-${appointment.id}`,
+      at: appointment.startTime,
+      appointment,
+    })),
+    ...history.reminders.map((reminder) => ({
+      type: 'REMINDER' as const,
+      id: `reminder-${reminder.id}`,
+      at: reminder.sentAt,
+      reminder,
+    })),
+    ...history.payments.map((payment) => ({
+      type: 'PAYMENT' as const,
+      id: `payment-${payment.id}`,
+      at: payment.paidAt || payment.createdAt,
+      payment,
+    })),
+  ];
+  return entries.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+};
+
+/**
+ * Tags typed into a comma-separated field, trimmed and without duplicates
+ */
+export const parseTags = (text: string): string[] => [
+  ...new Set(
+    text
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean)
+  ),
+];
@@ -0,0 +1,11 @@
+/**
+ * Save content to the user's downloads
+ */
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,18 @@
+import { setChatBotStatus, type Chat } from './api';
+
+/**
+ * Whether the AI assistant is currently replying in a chat.
+ * A paused bot counts as active again once its resume time has passed,
+ * even before the server pushes the update.
+ */
+export const isBotActive = (chat: Chat, now: number): boolean => {
+  if (chat.botStatus !== 'PAUSED') return true;
+  return !!chat.botResumeAt && new Date(chat.botResumeAt).getTime() <= now;
+};
+
+/**
+ * Take a chat over from the AI assistant after staff reply. The server
+ * restarts the time until it resumes, unless it was paused by hand.
+ */
+export const pauseBotForStaffReply = (chatId: string): Promise<Chat> =>
+  setChatBotStatus(chatId, false, { reason: 'STAFF_REPLY' });
@@ -0,0 +1,56 @@
+import { getUserId } from './auth';
+import type { Chat, ChatListFilter, Staff } from './api';
+
+/**
+ * Team inbox views: everything, my chats, unassigned chats, or one staff member's chats
+ */
+export type InboxView = 'all' | 'mine' | 'unassigned' | `staff:${string}`;
+
+const INBOX_VIEW_KEY = 'waas_inbox_view';
+
+/**
+ * Staff record of the logged-in user, if their account is linked to one
+ */
+export const findCurrentStaff = (staff: Staff[]): Staff | undefined => {
+  const userId = getUserId();
+  return userId ? staff.find((s) => s.userId === userId) : undefined;
+};
+
+/**
+ * Staff member a view is limited to, if any
+ */
+const getViewAssigneeId = (view: InboxView, currentStaffId?: string): string | undefined => {
+  if (view === 'mine') return currentStaffId;
+  if (view.startsWith('staff:')) return view.slice('staff:'.length);
+  return undefined;
+};
+
+/**
+ * API filter for a view
+ */
+export const getViewFilter = (view: InboxView, currentStaffId?: string): ChatListFilter => {
+  if (view === 'unassigned') return { unassigned: true };
+  const assigneeId = getViewAssigneeId(view, currentStaffId);
+  return assigneeId ? { assigneeId } : {};
+};
+
+/**
+ * Whether a chat belongs in a view - used to apply pushed updates
+ */
+export const chatMatchesView = (chat: Chat, view: InboxView, currentStaffId?: string): boolean => {
+  if (view === 'all') return true;
+  if (view === 'unassigned') return !chat.assigneeId;
+  const assigneeId = getViewAssigneeId(view, currentStaffId);
+  return !assigneeId || chat.assigneeId === assigneeId;
+};
+
+/**
+ * Last view used on this device
+ */
+export const getSavedInboxView = (): InboxView => {
+  return (localStorage.getItem(INBOX_VIEW_KEY) as InboxView | null) || 'all';
+};
+
+export const saveInboxView = (view: InboxView): void => {
+  localStorage.setItem(INBOX_VIEW_KEY, view);
+};
@@ -0,0 +1,92 @@
+import type { MessageType, SendMediaRequest } from './api';
+
+type MediaType = SendMediaRequest['type'];
+
+/**
+ * WhatsApp Cloud API size limits per media type (bytes)
+ */
+export const MAX_MEDIA_BYTES: Record<MediaType, number> = {
+  IMAGE: 5 * 1024 * 1024,
+  DOCUMENT: 100 * 1024 * 1024,
+  AUDIO: 16 * 1024 * 1024,
+  VIDEO: 16 * 1024 * 1024,
+};
+
+/**
+ * File types accepted by the composer's file picker
+ */
+export const ACCEPTED_FILE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+  'audio/aac',
+  'audio/mp4',
+  'audio/mpeg',
+  'audio/amr',
+  'audio/ogg',
+  'video/mp4',
+  'video/3gpp',
+].join(',');
+
+/**
+ * Work out how a file will be sent over WhatsApp
+ * @param file - File picked by the user
+ * @returns Media type for the file (unknown types are sent as documents)
+ */
+export const getMediaType = (file: File): MediaType => {
+  if (file.type === 'image/jpeg' || file.type === 'image/png') return 'IMAGE';
+  if (file.type.startsWith('audio/')) return 'AUDIO';
+  if (file.type.startsWith('video/')) return 'VIDEO';
+  return 'DOCUMENT';
+};
+
+/**
+ * Validate a file against WhatsApp limits
+ * @returns Error message, or null if the file can be sent
+ */
+export const validateMediaFile = (file: File): string | null => {
+  const type = getMediaType(file);
+  if (file.size > MAX_MEDIA_BYTES[type]) {
+    return `${file.name} is too large. ${type.toLowerCase()} files can be at most ${formatFileSize(MAX_MEDIA_BYTES[type])}.`;
+  }
+  return null;
+};
+
+/**
+ * Format a byte count for display, e.g. 1.2 MB
+ */
+export const formatFileSize = (bytes?: number): string => {
+  if (bytes === undefined || bytes === null) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Short label for a non-text message, used in chat list previews
+ */
+export const getMessageTypeLabel = (type?: MessageType): string | null => {
+  switch (type) {
+    case 'IMAGE':
+      return '📷 Photo';
+    case 'DOCUMENT':
+      return '📄 Document';
+    case 'AUDIO':
+      return '🎤 Voice message';
+    case 'VIDEO':
+      return '🎥 Video';
+    case 'LOCATION':
+      return '📍 Location';
+    case 'CONTACT':
+      return '👤 Contact';
+    case 'NOTE':
+      return '📝 Note';
+    default:
+      return null;
+  }
+};
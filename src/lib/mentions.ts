@@ -0,0 +1,40 @@
+import type { NoteMention } from './api';
+
+/**
+ * The @mention being typed just before the caret, if any
+ * @returns The text typed after "@" and where the "@" is
+ */
+export const getMentionQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+/**
+ * Replace the partial @mention with the full name
+ * @returns The new text and caret position
+ */
+export const insertMention = (
+  text: string,
+  start: number,
+  caret: number,
+  name: string
+): { text: string; caret: number } => {
+  const mention = `@${name} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length,
+  };
+};
+
+/**
+ * Drop mentions whose @name was edited out of the text
+ */
+export const getActiveMentions = (mentions: NoteMention[], text: string): NoteMention[] => {
+  const seen = new Set<string>();
+  return mentions.filter((m) => {
+    if (seen.has(m.staffId) || !text.includes(`@${m.name}`)) return false;
+    seen.add(m.staffId);
+    return true;
+  });
+};
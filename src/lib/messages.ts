@@ -0,0 +1,11 @@
+import type { Message } from './api';
+
+/**
+ * Who a message came from: the customer, the staff member who wrote it, or
+ * an automated sender when it has no author
+ * @param customerName - Shown for the customer's own messages
+ */
+export const getSenderName = (message: Message, customerName: string): string => {
+  if (message.direction === 'IN') return customerName;
+  return message.authorName || 'Automated (assistant, reminder or campaign)';
+};
@@ -0,0 +1,13 @@
+/**
+ * Pages listed in the dashboard sidebar, in order
+ */
+export const NAV_ITEMS = [
+  { path: '/chats', label: 'Chats' },
+  { path: '/appointments', label: 'Appointments' },
+  { path: '/customers', label: 'Customers' },
+  { path: '/campaigns', label: 'Campaigns' },
+  { path: '/services', label: 'Services' },
+  { path: '/availability', label: 'Availability' },
+  { path: '/subscription', label: 'Subscription' },
+  { path: '/settings', label: 'Settings' },
+];
@@ -0,0 +1,362 @@
+import { getUserId } from './auth';
+import { getChat, listChats, listStaff, onSessionEnd, type Chat, type Message } from './api';
+import { findCurrentStaff } from './inbox';
+import { getMessageTypeLabel } from './media';
+import type { RealtimeEvent } from './realtime';
+
+/**
+ * Type definitions
+ */
+export interface NotificationPreferences {
+  muted: boolean; // No sound or desktop alerts (the notification center still fills up)
+  desktop: boolean;
+  sound: boolean;
+  onlyAssigned: boolean; // Only alert for chats assigned to me
+  quietHours: boolean;
+  quietStart: string; // HH:mm
+  quietEnd: string; // HH:mm
+}
+
+export interface InAppNotification {
+  id: string;
+  kind: 'message' | 'mention';
+  chatId: string;
+  messageId?: string; // Missing for alerts raised from polled unread counts
+  title: string;
+  body: string;
+  createdAt: string;
+  read: boolean;
+}
+
+export interface NotificationState {
+  notifications: InAppNotification[]; // Newest first
+  unreadMessages: number; // Unread inbound messages across all chats
+  preferences: NotificationPreferences;
+}
+
+type NotificationListener = () => void;
+type OpenChatHandler = (chatId: string, messageId?: string) => void;
+
+// Constants
+const PREFERENCES_KEY_PREFIX = 'waas_notification_prefs';
+const MAX_NOTIFICATIONS = 50;
+const SEED_CHAT_LIMIT = 100;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  muted: false,
+  desktop: true,
+  sound: true,
+  onlyAssigned: false,
+  quietHours: false,
+  quietStart: '21:00',
+  quietEnd: '08:00',
+};
+
+const listeners = new Set<NotificationListener>();
+const chats = new Map<string, Chat>();
+const unreadByChat = new Map<string, number>();
+
+let state: NotificationState = {
+  notifications: [],
+  unreadMessages: 0,
+  preferences: DEFAULT_NOTIFICATION_PREFERENCES,
+};
+let currentStaffId: string | undefined;
+let activeChatId: string | null = null;
+let openChatHandler: OpenChatHandler | null = null;
+let audioContext: AudioContext | null = null;
+
+const setState = (next: Partial<NotificationState>) => {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener());
+};
+
+// Preferences are kept per user on this device
+const getPreferencesKey = () => `${PREFERENCES_KEY_PREFIX}_${getUserId() || 'default'}`;
+
+const loadPreferences = (): NotificationPreferences => {
+  try {
+    const stored = localStorage.getItem(getPreferencesKey());
+    return stored ? { ...DEFAULT_NOTIFICATION_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_NOTIFICATION_PREFERENCES;
+  } catch {
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+};
+
+const recountUnread = () => {
+  let total = 0;
+  unreadByChat.forEach((count) => {
+    total += count;
+  });
+  if (total !== state.unreadMessages) setState({ unreadMessages: total });
+};
+
+const setUnread = (chatId: string, count: number) => {
+  // The chat on screen is being read as messages arrive
+  unreadByChat.set(chatId, chatId === activeChatId ? 0 : count);
+  recountUnread();
+};
+
+/**
+ * Whether a HH:mm time falls inside quiet hours (which may span midnight)
+ */
+export const isQuietTime = (preferences: NotificationPreferences, date: Date = new Date()): boolean => {
+  if (!preferences.quietHours) return false;
+  const time = `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+  const { quietStart, quietEnd } = preferences;
+  return quietStart <= quietEnd
+    ? time >= quietStart && time < quietEnd
+    : time >= quietStart || time < quietEnd;
+};
+
+/**
+ * Short two-tone chime, generated so that no audio asset is needed
+ */
+const playChime = () => {
+  try {
+    const context = audioContext ?? new AudioContext();
+    audioContext = context;
+    const start = context.currentTime;
+    [880, 1320].forEach((frequency, index) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const offset = start + index * 0.12;
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, offset);
+      gain.gain.exponentialRampToValueAtTime(0.001, offset + 0.25);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(offset);
+      oscillator.stop(offset + 0.25);
+    });
+  } catch (error) {
+    // Browsers block audio until the user has interacted with the page
+    console.warn('Notification sound could not be played:', error);
+  }
+};
+
+const showDesktopNotification = (notification: InAppNotification) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const desktop = new Notification(notification.title, {
+    body: notification.body,
+    tag: notification.chatId, // Replace the previous alert for the same chat
+  });
+  desktop.onclick = () => {
+    window.focus();
+    openNotification(notification);
+    desktop.close();
+  };
+};
+
+const describeMessage = (message: Message): string => {
+  const label = getMessageTypeLabel(message.type);
+  if (!label) return message.content;
+  return message.content ? `${label} ${message.content}` : label;
+};
+
+const buildNotification = (chat: Chat | undefined, chatId: string, message: Message): InAppNotification | null => {
+  const mentioned = Boolean(currentStaffId) && Boolean(message.mentions?.some((m) => m.staffId === currentStaffId));
+
+  if (message.type === 'NOTE') {
+    if (!mentioned) return null;
+    return {
+      id: message.id,
+      kind: 'mention',
+      chatId,
+      messageId: message.id,
+      title: `${message.authorName || 'A teammate'} mentioned you`,
+      body: message.content,
+      createdAt: message.createdAt,
+      read: false,
+    };
+  }
+
+  if (message.direction !== 'IN') return null;
+  if (state.preferences.onlyAssigned && (!currentStaffId || chat?.assigneeId !== currentStaffId)) return null;
+
+  return {
+    id: message.id,
+    kind: 'message',
+    chatId,
+    messageId: message.id,
+    title: chat?.customerName || chat?.customerPhone || 'New WhatsApp message',
+    body: describeMessage(message),
+    createdAt: message.createdAt,
+    read: false,
+  };
+};
+
+const raiseAlert = (notification: InAppNotification | null) => {
+  if (!notification || state.notifications.some((n) => n.id === notification.id)) return;
+
+  setState({ notifications: [notification, ...state.notifications].slice(0, MAX_NOTIFICATIONS) });
+
+  const { preferences } = state;
+  if (preferences.muted || isQuietTime(preferences)) return;
+  if (preferences.sound) playChime();
+  if (preferences.desktop) showDesktopNotification(notification);
+};
+
+const handleNewMessage = async (chatId: string, message: Message) => {
+  // Staff already looking at the chat don't need to be told about it
+  if (chatId === activeChatId && !document.hidden) return;
+
+  let chat = chats.get(chatId);
+  if (!chat) {
+    try {
+      chat = await getChat(chatId);
+      chats.set(chatId, chat);
+    } catch (error) {
+      console.error('Failed to load chat for notification:', error);
+    }
+  }
+
+  raiseAlert(buildNotification(chat, chatId, message));
+};
+
+// Alert for a chat whose unread count went up between two polls
+const buildPolledNotification = (chat: Chat): InAppNotification | null => {
+  if (chat.id === activeChatId && !document.hidden) return null;
+  if (state.preferences.onlyAssigned && (!currentStaffId || chat.assigneeId !== currentStaffId)) return null;
+
+  return {
+    id: `${chat.id}:${chat.lastMessageAt}`,
+    kind: 'message',
+    chatId: chat.id,
+    title: chat.customerName || chat.customerPhone || 'New WhatsApp message',
+    body: chat.lastMessageText || getMessageTypeLabel(chat.lastMessageType) || 'New message',
+    createdAt: chat.lastMessageAt || new Date().toISOString(),
+    read: false,
+  };
+};
+
+/**
+ * Feed a realtime event into the notification subsystem
+ */
+export const handleNotificationEvent = (event: RealtimeEvent) => {
+  switch (event.type) {
+    case 'message.created':
+      handleNewMessage(event.chatId, event.message);
+      break;
+    case 'chat.updated':
+      chats.set(event.chat.id, event.chat);
+      if (event.chat.unreadCount !== undefined) setUnread(event.chat.id, event.chat.unreadCount);
+      break;
+    case 'chat.unread':
+      setUnread(event.chatId, event.unreadCount);
+      break;
+  }
+};
+
+// Take unread counts from the chat list, alerting for chats with more than before
+const applyChatList = (chatList: Chat[], alert: boolean) => {
+  chatList.forEach((chat) => {
+    const previous = unreadByChat.get(chat.id) ?? 0;
+    chats.set(chat.id, chat);
+    unreadByChat.set(chat.id, chat.id === activeChatId ? 0 : chat.unreadCount || 0);
+    if (alert && (chat.unreadCount || 0) > previous) raiseAlert(buildPolledNotification(chat));
+  });
+  recountUnread();
+};
+
+/**
+ * Load preferences, unread counts and the current staff member for the logged-in user
+ */
+export const startNotifications = async () => {
+  setState({ preferences: loadPreferences() });
+
+  try {
+    const [chatList, staff] = await Promise.all([listChats(SEED_CHAT_LIMIT), listStaff()]);
+    currentStaffId = findCurrentStaff(staff)?.id;
+    applyChatList(chatList, false);
+  } catch (error) {
+    console.error('Failed to initialise notifications:', error);
+  }
+};
+
+/**
+ * Reload unread counts from the server, for when realtime events may have
+ * been missed (polling fallback, after a reconnect)
+ */
+export const refreshNotifications = async () => {
+  try {
+    applyChatList(await listChats(SEED_CHAT_LIMIT), true);
+  } catch (error) {
+    console.error('Failed to refresh notifications:', error);
+  }
+};
+
+/**
+ * Forget everything about the current user (on logout)
+ */
+export const resetNotifications = () => {
+  chats.clear();
+  unreadByChat.clear();
+  currentStaffId = undefined;
+  activeChatId = null;
+  setState({ notifications: [], unreadMessages: 0, preferences: DEFAULT_NOTIFICATION_PREFERENCES });
+};
+
+onSessionEnd(resetNotifications);
+
+/**
+ * Tell the subsystem which chat is on screen so it is not alerted about
+ * and its notifications count as read
+ */
+export const setActiveNotificationChat = (chatId: string | null) => {
+  activeChatId = chatId;
+  if (!chatId) return;
+
+  setUnread(chatId, 0);
+  if (state.notifications.some((n) => n.chatId === chatId && !n.read)) {
+    setState({
+      notifications: state.notifications.map((n) => (n.chatId === chatId ? { ...n, read: true } : n)),
+    });
+  }
+};
+
+/**
+ * Open the chat a notification is about (handled by the dashboard's router)
+ */
+export const openNotification = (notification: InAppNotification) => {
+  openChatHandler?.(notification.chatId, notification.messageId);
+};
+
+export const setOpenChatHandler = (handler: OpenChatHandler | null) => {
+  openChatHandler = handler;
+};
+
+export const markAllNotificationsRead = () => {
+  setState({ notifications: state.notifications.map((n) => (n.read ? n : { ...n, read: true })) });
+};
+
+export const clearNotifications = () => {
+  setState({ notifications: [] });
+};
+
+export const saveNotificationPreferences = (preferences: NotificationPreferences) => {
+  localStorage.setItem(getPreferencesKey(), JSON.stringify(preferences));
+  setState({ preferences });
+};
+
+/**
+ * Ask the browser for permission to show desktop notifications
+ * @returns The resulting permission
+ */
+export const requestDesktopPermission = async (): Promise<NotificationPermission> => {
+  if (!('Notification' in window)) return 'denied';
+  return Notification.requestPermission();
+};
+
+export const getNotificationState = (): NotificationState => state;
+
+/**
+ * Subscribe to notification changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToNotifications = (listener: NotificationListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
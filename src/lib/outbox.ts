@@ -0,0 +1,250 @@
+import axios from 'axios';
+import { sendWhatsAppMessage, getApiErrorMessage, getTenantId, getToken, onSessionEnd } from './api';
+import { getUserId } from './auth';
+import { pauseBotForStaffReply } from './handoff';
+
+// Constants for the outbox
+const OUTBOX_KEY_PREFIX = 'waas_outbox';
+const SEND_LOCK = 'waas_outbox_send'; // Held while sending, so only one tab sends at a time
+const RETRY_DELAY_MS = 10000; // Retry after a network error while the browser still reports online
+
+/**
+ * Type definitions
+ */
+export interface OutboxEntry {
+  id: string; // temp- id, shown in the thread until the server copy arrives
+  chatId: string;
+  to: string;
+  text: string;
+  createdAt: string;
+  status: 'PENDING' | 'FAILED';
+  errorMessage?: string;
+}
+
+type OutboxListener = () => void;
+type SentListener = (entry: OutboxEntry) => void;
+
+// Each user has their own queue per tenant, so nothing is sent from another account
+const getOutboxKey = (): string | null => {
+  const tenantId = getTenantId();
+  const userId = getUserId();
+  return tenantId && userId ? `${OUTBOX_KEY_PREFIX}:${tenantId}:${userId}` : null;
+};
+
+const loadEntries = (key: string | null): OutboxEntry[] => {
+  if (!key) return [];
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const listeners = new Set<OutboxListener>();
+const sentListeners = new Set<SentListener>();
+const inFlight = new Set<string>();
+
+// Replaced (never mutated) on every change so it can be used as a store snapshot
+let loadedKey = getOutboxKey();
+let entries: OutboxEntry[] = loadEntries(loadedKey);
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const notify = () => {
+  listeners.forEach((listener) => listener());
+};
+
+// Load the signed-in user's queue if it isn't the one in memory (e.g. after logging in)
+const reloadIfAccountChanged = () => {
+  const key = getOutboxKey();
+  if (key === loadedKey) return;
+  loadedKey = key;
+  entries = loadEntries(key);
+  notify();
+};
+
+/**
+ * Apply a change on top of what is stored rather than what is in memory,
+ * so tabs don't overwrite each other's changes
+ */
+const changeEntries = (change: (current: OutboxEntry[]) => OutboxEntry[]) => {
+  loadedKey = getOutboxKey();
+  const next = change(loadEntries(loadedKey));
+  if (loadedKey && next.length > 0) {
+    localStorage.setItem(loadedKey, JSON.stringify(next));
+  } else if (loadedKey) {
+    localStorage.removeItem(loadedKey);
+  }
+  entries = next;
+  notify();
+};
+
+const updateEntry = (id: string, changes: Partial<OutboxEntry>) => {
+  changeEntries((current) => current.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+};
+
+const removeEntry = (id: string) => {
+  changeEntries((current) => current.filter((entry) => entry.id !== id));
+};
+
+// Run a send while holding the cross-tab lock (browsers without Web Locks just run it)
+const withSendLock = async (send: () => Promise<void>): Promise<void> => {
+  if (navigator.locks) {
+    await navigator.locks.request(SEND_LOCK, send);
+  } else {
+    await send();
+  }
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, RETRY_DELAY_MS);
+};
+
+/**
+ * Try to send an entry. It stays pending if the network is down (and is sent
+ * when the connection returns); any other error marks it as failed.
+ * @throws The send error, so callers can react to specific failures
+ */
+const sendEntry = async (id: string): Promise<void> => {
+  if (!entries.some((e) => e.id === id) || inFlight.has(id)) return;
+
+  inFlight.add(id);
+  try {
+    await withSendLock(async () => {
+      // Another tab may have sent, discarded or failed it while we waited for the lock
+      const entry = loadEntries(getOutboxKey()).find((e) => e.id === id);
+      if (!entry) {
+        removeEntry(id);
+        return;
+      }
+      if (entry.status === 'FAILED' || !navigator.onLine || !getToken()) return;
+
+      try {
+        await sendWhatsAppMessage(entry.to, entry.text, entry.id);
+        removeEntry(id);
+        sentListeners.forEach((listener) => listener(entry));
+        // Whichever chat is open by now - the update is pushed to it as chat.updated
+        pauseBotForStaffReply(entry.chatId).catch((error) => console.error('Failed to pause AI assistant:', error));
+      } catch (error) {
+        if (axios.isAxiosError(error) && !error.response) {
+          scheduleRetry();
+        } else {
+          updateEntry(id, {
+            status: 'FAILED',
+            errorMessage: getApiErrorMessage(error, 'Failed to send message'),
+          });
+        }
+        throw error;
+      }
+    });
+  } finally {
+    inFlight.delete(id);
+  }
+};
+
+/**
+ * Queue a text message and try to send it straight away
+ * @throws The send error, if sending failed
+ */
+export const queueTextMessage = async (chatId: string, to: string, text: string): Promise<void> => {
+  const entry: OutboxEntry = {
+    id: `temp-${Date.now()}`,
+    chatId,
+    to,
+    text,
+    createdAt: new Date().toISOString(),
+    status: 'PENDING',
+  };
+  changeEntries((current) => [...current, entry]);
+  await sendEntry(entry.id);
+};
+
+/**
+ * Send a failed message again
+ * @throws The send error, if it failed again
+ */
+export const retryOutboxMessage = (id: string): Promise<void> => {
+  updateEntry(id, { status: 'PENDING', errorMessage: undefined });
+  return sendEntry(id);
+};
+
+/**
+ * Drop a message from the outbox without sending it
+ */
+export const discardOutboxMessage = (id: string) => {
+  removeEntry(id);
+};
+
+/**
+ * Send every pending message, oldest first. Does nothing while logged out.
+ */
+export const flushOutbox = async () => {
+  if (!getToken()) return;
+  reloadIfAccountChanged();
+  const pending = entries.filter((entry) => entry.status === 'PENDING');
+  for (const entry of pending) {
+    try {
+      await sendEntry(entry.id);
+    } catch (error) {
+      console.warn('Failed to send queued message:', error);
+    }
+  }
+};
+
+/**
+ * Current outbox contents (stable between changes)
+ */
+export const getOutboxEntries = (): OutboxEntry[] => entries;
+
+/**
+ * Subscribe to outbox changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  if (listeners.size === 0) {
+    reloadIfAccountChanged();
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Subscribe to messages leaving the outbox after a successful send
+ * @returns Unsubscribe function
+ */
+export const subscribeToSent = (listener: SentListener): (() => void) => {
+  sentListeners.add(listener);
+  return () => {
+    sentListeners.delete(listener);
+  };
+};
+
+// Keep in step with changes made in other tabs
+window.addEventListener('storage', (event) => {
+  if (event.key === loadedKey && loadedKey) {
+    entries = loadEntries(loadedKey);
+    notify();
+  }
+});
+
+// Drop the queue on logout - it must not be sent once the user has left
+onSessionEnd(() => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const key = getOutboxKey();
+  if (key) localStorage.removeItem(key);
+  loadedKey = null;
+  entries = [];
+  notify();
+});
+
+// Send whatever was queued while offline (or left over from the last visit)
+window.addEventListener('online', () => {
+  flushOutbox();
+});
+flushOutbox();
@@ -0,0 +1,24 @@
+// Numbers typed without a country code are assumed to be Indian
+const DEFAULT_COUNTRY_CODE = '91';
+const LOCAL_NUMBER_LENGTH = 10;
+
+/**
+ * Turn a typed phone number into E.164, the format every phone number is sent
+ * to the server in, e.g. "+91 98765-43210" or "098765 43210" -> "+919876543210"
+ * @returns The normalized number, or null if it can't be a valid number
+ */
+export const normalizePhoneNumber = (input: string): string | null => {
+  const trimmed = input.trim();
+  if (!/^\+?[\d\s().-]+$/.test(trimmed)) return null;
+
+  let digits = trimmed.replace(/\D/g, '');
+  if (!trimmed.startsWith('+')) {
+    digits = digits.replace(/^0+/, '');
+    if (digits.length === LOCAL_NUMBER_LENGTH) {
+      digits = `${DEFAULT_COUNTRY_CODE}${digits}`;
+    }
+  }
+
+  // E.164 allows up to 15 digits including the country code
+  return digits.length >= 11 && digits.length <= 15 ? `+${digits}` : null;
+};
@@ -0,0 +1,16 @@
+/**
+ * Backend-or-stub switch shared by the AI features (translation, assistant).
+ * Each feature has its own env setting; "stub" runs it locally without the
+ * backend, anything else uses the backend.
+ */
+export const selectProvider = <T>(setting: string | undefined, providers: { api: T; stub: T }): T => {
+  return setting === 'stub' ? providers.stub : providers.api;
+};
+
+/**
+ * How stub providers mark text as written in another language, e.g. "[hi] Hello"
+ * @param sourceLanguage - Language the text is actually in; left untagged when it matches
+ */
+export const tagWithLanguage = (text: string, language: string, sourceLanguage = 'en'): string => {
+  return language === sourceLanguage ? text : `[${language}] ${text}`;
+};
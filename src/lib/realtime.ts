@@ -0,0 +1,277 @@
+import api, {
+  getToken,
+  getTenantId,
+  onSessionEnd,
+  type AppointmentResponse,
+  type Campaign,
+  type Chat,
+  type CustomerConsent,
+  type Message,
+  type MessageStatus,
+} from './api';
+
+// Constants for the event stream
+const STREAM_PATH = '/api/events/stream';
+const LAST_EVENT_ID_KEY = 'waas_last_event_id';
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+const HEARTBEAT_TIMEOUT_MS = 45000; // Server sends a heartbeat every 15s
+
+// Events can be served from a separate host (e.g. the local stand-in server)
+const streamBaseURL = import.meta.env.VITE_EVENTS_BASE_URL || api.defaults.baseURL || '';
+
+/**
+ * Type definitions
+ */
+export type RealtimeEvent =
+  | { type: 'message.created'; chatId: string; message: Message }
+  | { type: 'message.status'; chatId: string; messageId: string; status: MessageStatus; errorMessage?: string }
+  | { type: 'chat.updated'; chat: Chat } // Also sent for new conversations and reassignments
+  | { type: 'chat.unread'; chatId: string; unreadCount: number }
+  | { type: 'appointment.updated'; appointment: AppointmentResponse }
+  | { type: 'campaign.updated'; campaign: Campaign }
+  | { type: 'customer.consent'; customerId: string; consent: CustomerConsent };
+
+export type RealtimeStatus = 'connecting' | 'open' | 'closed';
+
+type EventListener = (event: RealtimeEvent) => void;
+type StatusListener = (status: RealtimeStatus) => void;
+
+const eventListeners = new Set<EventListener>();
+const statusListeners = new Set<StatusListener>();
+
+let status: RealtimeStatus = 'closed';
+let controller: AbortController | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+let attempt = 0;
+
+const setStatus = (next: RealtimeStatus) => {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((listener) => listener(next));
+};
+
+const hasSubscribers = () => eventListeners.size > 0 || statusListeners.size > 0;
+
+/**
+ * Exponential backoff with jitter, capped at MAX_RETRY_MS
+ */
+const getRetryDelay = () => {
+  const base = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** attempt);
+  return Math.round(base / 2 + Math.random() * (base / 2));
+};
+
+const scheduleReconnect = () => {
+  if (retryTimer || !hasSubscribers()) return;
+  setStatus('connecting');
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    attempt += 1;
+    connect();
+  }, getRetryDelay());
+};
+
+const resetHeartbeat = () => {
+  if (heartbeatTimer) clearTimeout(heartbeatTimer);
+  heartbeatTimer = setTimeout(() => {
+    // Connection went silent - drop it and reconnect
+    console.warn('Event stream heartbeat timed out - reconnecting');
+    controller?.abort();
+  }, HEARTBEAT_TIMEOUT_MS);
+};
+
+/**
+ * Dispatch one parsed SSE block (the lines between two blank lines)
+ */
+const dispatchBlock = (block: string) => {
+  let eventName = 'message';
+  let id: string | null = null;
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    // Lines starting with ':' are comments (used as heartbeats)
+    if (!line || line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') eventName = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id') id = value;
+  }
+
+  if (id) {
+    sessionStorage.setItem(LAST_EVENT_ID_KEY, id);
+  }
+
+  if (data.length === 0) return;
+
+  try {
+    const payload = JSON.parse(data.join('\n'));
+    const event = { ...payload, type: eventName } as RealtimeEvent;
+    eventListeners.forEach((listener) => listener(event));
+  } catch (error) {
+    console.error('Failed to parse realtime event:', error);
+  }
+};
+
+/**
+ * Open the event stream. fetch() is used instead of EventSource so that
+ * the Authorization and X-Tenant-ID headers can be sent.
+ */
+const connect = async () => {
+  if (controller || !hasSubscribers()) return;
+
+  const token = getToken();
+  if (!token) {
+    setStatus('closed');
+    return;
+  }
+
+  const headers: Record<string, string> = {
+    Accept: 'text/event-stream',
+    Authorization: `Bearer ${token}`,
+  };
+  const tenantId = getTenantId();
+  if (tenantId) {
+    headers['X-Tenant-ID'] = tenantId;
+  }
+  // Resume from the last event we have seen
+  const lastEventId = sessionStorage.getItem(LAST_EVENT_ID_KEY);
+  if (lastEventId) {
+    headers['Last-Event-ID'] = lastEventId;
+  }
+
+  const currentController = new AbortController();
+  controller = currentController;
+  setStatus('connecting');
+
+  try {
+    const response = await fetch(`${streamBaseURL}${STREAM_PATH}`, {
+      headers,
+      signal: currentController.signal,
+      cache: 'no-store',
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      // Not allowed to stream - stay on polling fallback
+      console.warn('Event stream unauthorized - falling back to polling');
+      controller = null;
+      setStatus('closed');
+      return;
+    }
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Event stream failed with status ${response.status}`);
+    }
+
+    attempt = 0;
+    setStatus('open');
+    resetHeartbeat();
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      resetHeartbeat();
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        dispatchBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } catch (error) {
+    if (!currentController.signal.aborted) {
+      console.warn('Event stream disconnected:', error);
+    }
+  } finally {
+    if (heartbeatTimer) clearTimeout(heartbeatTimer);
+    heartbeatTimer = null;
+    if (controller === currentController) {
+      controller = null;
+      if (hasSubscribers()) {
+        scheduleReconnect();
+      } else {
+        setStatus('closed');
+      }
+    }
+  }
+};
+
+const disconnect = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const currentController = controller;
+  controller = null;
+  currentController?.abort();
+  setStatus('closed');
+};
+
+const disconnectIfIdle = () => {
+  if (!hasSubscribers()) {
+    disconnect();
+  }
+};
+
+// Stop the stream on logout and forget where it was, so the next account
+// doesn't resume from this one's position
+onSessionEnd(() => {
+  disconnect();
+  sessionStorage.removeItem(LAST_EVENT_ID_KEY);
+});
+
+// Reconnect straight away when the browser comes back online
+window.addEventListener('online', () => {
+  if (hasSubscribers() && !controller) {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    attempt = 0;
+    connect();
+  }
+});
+
+/**
+ * Subscribe to realtime events. The stream is opened on the first
+ * subscriber and closed when the last one leaves.
+ * @param listener - Called for every event received
+ * @returns Unsubscribe function
+ */
+export const subscribeToEvents = (listener: EventListener): (() => void) => {
+  eventListeners.add(listener);
+  connect();
+  return () => {
+    eventListeners.delete(listener);
+    disconnectIfIdle();
+  };
+};
+
+/**
+ * Subscribe to connection status changes
+ * @param listener - Called whenever the status changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToStatus = (listener: StatusListener): (() => void) => {
+  statusListeners.add(listener);
+  connect();
+  return () => {
+    statusListeners.delete(listener);
+    disconnectIfIdle();
+  };
+};
+
+/**
+ * Get the current connection status
+ * @returns 'open' when events are flowing, otherwise 'connecting' or 'closed'
+ */
+export const getRealtimeStatus = (): RealtimeStatus => {
+  return status;
+};
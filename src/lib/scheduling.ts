@@ -0,0 +1,44 @@
+import dayjs from 'dayjs';
+import { SERVICE_WINDOW_MS, getWindowRemainingMs } from './serviceWindow';
+
+// Scheduled messages need to be at least this far in the future
+const MIN_SCHEDULE_LEAD_MS = 60 * 1000;
+
+/**
+ * Value for a datetime-local input, in the browser's timezone
+ */
+export const toDateTimeInputValue = (date: Date | string | number): string => {
+  return dayjs(date).format('YYYY-MM-DDTHH:mm');
+};
+
+/**
+ * Suggested send time: the start of the next hour
+ */
+export const getDefaultScheduleTime = (now: number): Date => {
+  return dayjs(now).add(1, 'hour').startOf('hour').toDate();
+};
+
+/**
+ * Check a send time for a scheduled message
+ * @param lastInboundAt - For free-form messages, which must go out while the 24h window is open
+ * @returns An error message, or null if the time is fine
+ */
+export const validateScheduleTime = (
+  scheduledFor: Date,
+  now: number,
+  freeForm: boolean,
+  lastInboundAt?: string
+): string | null => {
+  if (Number.isNaN(scheduledFor.getTime())) {
+    return 'Please pick a date and time';
+  }
+  if (scheduledFor.getTime() < now + MIN_SCHEDULE_LEAD_MS) {
+    return 'Please pick a time in the future';
+  }
+  if (freeForm && getWindowRemainingMs(lastInboundAt, scheduledFor.getTime()) === 0) {
+    return lastInboundAt && getWindowRemainingMs(lastInboundAt, now) > 0
+      ? `The 24-hour window closes ${dayjs(new Date(lastInboundAt).getTime() + SERVICE_WINDOW_MS).format('DD MMM, HH:mm')}. Pick an earlier time or schedule a template.`
+      : 'The 24-hour window is closed. Schedule a template instead.';
+  }
+  return null;
+};
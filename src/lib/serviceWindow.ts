@@ -0,0 +1,53 @@
+import axios from 'axios';
+import type { Message } from './api';
+
+/**
+ * WhatsApp only allows free-form messages within 24 hours of the customer's
+ * last message. Outside that window, only approved templates can be sent.
+ */
+export const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Below this, the countdown is highlighted so staff reply in time
+export const WINDOW_WARNING_MS = 2 * 60 * 60 * 1000;
+
+// Meta error code for a free-form message sent outside the window
+const WINDOW_CLOSED_ERROR_CODE = 131047;
+
+/**
+ * Time left in the service window
+ * @returns Milliseconds remaining, or 0 if the window is closed (or was never opened)
+ */
+export const getWindowRemainingMs = (lastInboundAt: string | undefined, now: number): number => {
+  if (!lastInboundAt) return 0;
+  return Math.max(0, new Date(lastInboundAt).getTime() + SERVICE_WINDOW_MS - now);
+};
+
+/**
+ * Format the remaining window time, e.g. "23h 5m" or "12m"
+ */
+export const formatWindowRemaining = (ms: number): string => {
+  const totalMinutes = Math.ceil(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+/**
+ * Latest inbound time for a chat, taking loaded messages into account
+ * in case they are newer than the chat summary
+ */
+export const getLastInboundAt = (chatLastInboundAt: string | undefined, messages: Message[]): string | undefined => {
+  const lastInbound = [...messages].reverse().find((m) => m.direction === 'IN');
+  if (!lastInbound) return chatLastInboundAt;
+  if (!chatLastInboundAt) return lastInbound.createdAt;
+  return new Date(lastInbound.createdAt) > new Date(chatLastInboundAt) ? lastInbound.createdAt : chatLastInboundAt;
+};
+
+/**
+ * Whether a send failed because the service window has closed
+ */
+export const isWindowClosedError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) return false;
+  const data = error.response?.data;
+  return data?.code === WINDOW_CLOSED_ERROR_CODE || data?.error?.code === WINDOW_CLOSED_ERROR_CODE;
+};
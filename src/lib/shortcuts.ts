@@ -0,0 +1,39 @@
+/**
+ * Name of the shortcut a key press makes, e.g. 'j', 'Enter' or 'mod+k'
+ * ("mod" is Ctrl, or Cmd on a Mac)
+ */
+export const getShortcutKey = (event: KeyboardEvent): string | null => {
+  if (event.altKey) return null;
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  return event.ctrlKey || event.metaKey ? `mod+${key}` : key;
+};
+
+/**
+ * Whether a key press belongs to whatever has focus rather than to a shortcut.
+ * Plain keys are typing in text fields, and Enter/Space activate buttons and links.
+ */
+export const isOwnedByTarget = (event: KeyboardEvent, shortcut: string): boolean => {
+  const target = event.target;
+  if (!(target instanceof HTMLElement) || shortcut.startsWith('mod+')) return false;
+  if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  return (shortcut === 'Enter' || shortcut === ' ') && ['BUTTON', 'A'].includes(target.tagName);
+};
+
+/**
+ * Whether a modal dialog is open (or the key press came from inside one).
+ * Page shortcuts are ignored then, so they don't act on what's behind it.
+ */
+export const isBlockedByDialog = (event: KeyboardEvent): boolean => {
+  const target = event.target;
+  if (target instanceof Element && target.closest('[role="dialog"]')) return true;
+  return document.querySelector('[role="dialog"][aria-modal="true"]') !== null;
+};
+
+/**
+ * Label for a shortcut as shown to the user, e.g. "Ctrl+K" or "⌘K"
+ */
+export const formatShortcut = (shortcut: string): string => {
+  if (!shortcut.startsWith('mod+')) return shortcut;
+  const key = shortcut.slice(4).toUpperCase();
+  return /Mac|iPhone|iPad/.test(navigator.platform) ? `⌘${key}` : `Ctrl+${key}`;
+};
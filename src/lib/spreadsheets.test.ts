@@ -0,0 +1,176 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseXlsx, toCsv } from './spreadsheets';
+
+// Zip archive with every file stored uncompressed (CRCs are left at 0, the
+// reader doesn't check them)
+const buildZip = (files: Record<string, string>): ArrayBuffer => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([path, content]) => {
+    const name = encoder.encode(path);
+    const data = encoder.encode(content);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local);
+    centralParts.push(central);
+    offset += local.length;
+  });
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centralParts.length, true);
+  endView.setUint16(10, centralParts.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const zip = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  parts.reduce((position, part) => {
+    zip.set(part, position);
+    return position + part.length;
+  }, 0);
+  return zip.buffer;
+};
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+const relationshipXml = (id: string, type: string, target: string) =>
+  `<Relationship Id="${id}" Type="${RELATIONSHIPS_NS}/${type}" Target="${target}"/>`;
+
+// Workbook whose sheets are listed in this order, as tab name -> file in
+// xl/worksheets, with its shared strings at the given relationship target
+const buildWorkbook = (sheets: [string, string][], files: Record<string, string>, sharedStringsTarget?: string) => {
+  const sheetList = sheets
+    .map(([name], index) => `<sheet name="${name}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+    .join('');
+  const relationships = [
+    ...sheets.map(([, file], index) => relationshipXml(`rId${index + 1}`, 'worksheet', `worksheets/${file}`)),
+    ...(sharedStringsTarget ? [relationshipXml('rIdStrings', 'sharedStrings', sharedStringsTarget)] : []),
+  ].join('');
+
+  return buildZip({
+    'xl/workbook.xml': `<workbook xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIPS_NS}"><sheets>${sheetList}</sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">${relationships}</Relationships>`,
+    ...files,
+  });
+};
+
+const sheetXml = (rows: string) => `<worksheet xmlns="${MAIN_NS}"><sheetData>${rows}</sheetData></worksheet>`;
+
+describe('parseCsv', () => {
+  it('reads quoted cells with commas, quotes and newlines', () => {
+    expect(parseCsv('﻿Name,Phone\r\n"Rao, Anita","98765 ""43210"""\n"Two\nlines",1')).toEqual([
+      ['Name', 'Phone'],
+      ['Rao, Anita', '98765 "43210"'],
+      ['Two\nlines', '1'],
+    ]);
+  });
+
+  it('round-trips through toCsv', () => {
+    const rows = [['a,b', 'say "hi"', 'plain'], ['line\nbreak', '', 'x']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('parseXlsx', () => {
+  it('reads shared, inline, boolean and number cells at their columns', async () => {
+    const buffer = buildWorkbook(
+      [['Patients', 'sheet1.xml']],
+      {
+        'xl/sharedStrings.xml': `<sst xmlns="${MAIN_NS}"><si><t>Name</t></si><si><r><t>Anita </t></r><r><t>Rao</t></r></si></sst>`,
+        'xl/worksheets/sheet1.xml': sheetXml(
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Consent</t></is></c></row>' +
+            '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3"><v>919876543210</v></c><c r="C3" t="b"><v>1</v></c></row>'
+        ),
+      },
+      'sharedStrings.xml'
+    );
+
+    expect(await parseXlsx(buffer)).toEqual([
+      ['Name', '', 'Consent'],
+      [],
+      ['Anita Rao', '919876543210', 'TRUE'],
+    ]);
+  });
+
+  it('reads the first tab even when its file is not sheet1.xml', async () => {
+    const buffer = buildWorkbook(
+      [
+        ['Patients', 'sheet2.xml'],
+        ['Notes', 'sheet1.xml'],
+      ],
+      {
+        'xl/worksheets/sheet1.xml': sheetXml('<row r="1"><c r="A1" t="inlineStr"><is><t>Notes</t></is></c></row>'),
+        'xl/worksheets/sheet2.xml': sheetXml('<row r="1"><c r="A1" t="inlineStr"><is><t>Patients</t></is></c></row>'),
+      }
+    );
+
+    expect(await parseXlsx(buffer)).toEqual([['Patients']]);
+  });
+
+  it('leaves out phonetic readings', async () => {
+    const buffer = buildWorkbook(
+      [['Patients', 'sheet1.xml']],
+      {
+        'xl/sharedStrings.xml':
+          `<sst xmlns="${MAIN_NS}">` +
+          '<si><t>山田</t><rPh sb="0" eb="2"><t>ヤマダ</t></rPh></si>' +
+          '<si><r><t>花</t></r><r><t>子</t></r><rPh sb="0" eb="2"><t>ハナコ</t></rPh></si>' +
+          '</sst>',
+        'xl/worksheets/sheet1.xml': sheetXml(
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c>' +
+            '<c r="C1" t="inlineStr"><is><t>太郎</t><rPh sb="0" eb="2"><t>タロウ</t></rPh></is></c></row>'
+        ),
+      },
+      'sharedStrings.xml'
+    );
+
+    expect(await parseXlsx(buffer)).toEqual([['山田', '花子', '太郎']]);
+  });
+
+  it('finds the shared strings through the workbook relationships', async () => {
+    const buffer = buildWorkbook(
+      [['Patients', 'sheet1.xml']],
+      {
+        'xl/strings/patients.xml': `<sst xmlns="${MAIN_NS}"><si><t>Name</t></si></sst>`,
+        'xl/worksheets/sheet1.xml': sheetXml('<row r="1"><c r="A1" t="s"><v>0</v></c></row>'),
+      },
+      '/xl/strings/patients.xml'
+    );
+
+    expect(await parseXlsx(buffer)).toEqual([['Name']]);
+  });
+
+  it('rejects files that are not workbooks', async () => {
+    await expect(parseXlsx(new TextEncoder().encode('Name,Phone').buffer as ArrayBuffer)).rejects.toThrow(
+      'not a valid .xlsx workbook'
+    );
+    await expect(parseXlsx(buildZip({ 'readme.txt': 'hello' }))).rejects.toThrow('no sheets');
+  });
+});
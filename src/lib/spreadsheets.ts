@@ -0,0 +1,205 @@
+// Zip record signatures
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+// Zip compression methods
+const STORED = 0;
+const DEFLATED = 8;
+
+// Spreadsheet formats we can read
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with commas,
+ * newlines and "" escapes, and Excel's byte order mark.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Turn rows of cells into CSV text, quoting cells where needed
+ */
+export const toCsv = (rows: string[][]): string => {
+  return rows
+    .map((row) => row.map((cell) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(','))
+    .join('\r\n');
+};
+
+// Files inside a zip archive, by path
+const readZipEntries = async (buffer: ArrayBuffer): Promise<Map<string, () => Promise<string>>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 64 KB (its comment can be that long)
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('This file is not a valid .xlsx workbook');
+
+  const entries = new Map<string, () => Promise<string>>();
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < entryCount && view.getUint32(offset, true) === CENTRAL_DIRECTORY_ENTRY; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      const dataStart =
+        localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = bytes.slice(dataStart, dataStart + compressedSize);
+      if (method === STORED) return decoder.decode(data);
+      if (method !== DEFLATED) throw new Error('This workbook uses an unsupported compression method');
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+// 0-based column index of a cell reference, e.g. 2 for "C7"
+const getColumnIndex = (reference: string): number => {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] || 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const byTag = (parent: Document | Element, tag: string) => Array.from(parent.getElementsByTagNameNS('*', tag));
+
+const childrenByTag = (parent: Element, tag: string) =>
+  Array.from(parent.children).filter((child) => child.localName === tag);
+
+// Text of a shared or inline string: its own <t>, or its rich text runs. The
+// phonetic reading (<rPh>) also holds a <t> and is left out.
+const getStringText = (item: Element): string =>
+  [...childrenByTag(item, 't'), ...childrenByTag(item, 'r').flatMap((run) => childrenByTag(run, 't'))]
+    .map((t) => t.textContent)
+    .join('');
+
+// Files of the workbook's first sheet and its shared strings. Sheets are
+// listed in tab order in workbook.xml, and every part is found through the
+// workbook's relationships rather than by its usual file name.
+const getWorkbookParts = async (
+  entries: Map<string, () => Promise<string>>,
+  parser: DOMParser
+): Promise<{ sheetPath: string | null; sharedStringsPath: string | null }> => {
+  const readWorkbook = entries.get('xl/workbook.xml');
+  const readRelationships = entries.get('xl/_rels/workbook.xml.rels');
+  if (!readWorkbook || !readRelationships) return { sheetPath: null, sharedStringsPath: null };
+
+  const relationships = byTag(parser.parseFromString(await readRelationships(), 'application/xml'), 'Relationship');
+  const findTarget = (matches: (relationship: Element) => boolean) => {
+    const target = relationships.find(matches)?.getAttribute('Target');
+    if (!target) return null;
+    // Targets are relative to xl/ unless they start from the package root
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  };
+
+  const sheet = byTag(parser.parseFromString(await readWorkbook(), 'application/xml'), 'sheet')[0];
+  // r:id - the prefix is bound to a different namespace in strict workbooks
+  const sheetId = Array.from(sheet?.attributes || []).find(
+    (attribute) => attribute.localName === 'id' && attribute.namespaceURI
+  )?.value;
+
+  return {
+    sheetPath: sheetId ? findTarget((relationship) => relationship.getAttribute('Id') === sheetId) : null,
+    sharedStringsPath: findTarget((relationship) => !!relationship.getAttribute('Type')?.endsWith('/sharedStrings')),
+  };
+};
+
+/**
+ * Read the first sheet of an .xlsx workbook into rows of cells, as text
+ */
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const entries = await readZipEntries(buffer);
+  const parser = new DOMParser();
+  const { sheetPath, sharedStringsPath } = await getWorkbookParts(entries, parser);
+  const readSheet = sheetPath ? entries.get(sheetPath) : undefined;
+  if (!readSheet) throw new Error('This workbook has no sheets');
+
+  const readSharedStrings = sharedStringsPath ? entries.get(sharedStringsPath) : undefined;
+  const sharedStrings = readSharedStrings
+    ? byTag(parser.parseFromString(await readSharedStrings(), 'application/xml'), 'si').map(getStringText)
+    : [];
+
+  const sheet = parser.parseFromString(await readSheet(), 'application/xml');
+  const rows: string[][] = [];
+  byTag(sheet, 'row').forEach((rowElement) => {
+    const row: string[] = [];
+    byTag(rowElement, 'c').forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? getColumnIndex(reference) : position;
+      const value = byTag(cell, 'v')[0]?.textContent ?? '';
+      switch (cell.getAttribute('t')) {
+        case 's':
+          row[index] = sharedStrings[Number(value)] ?? '';
+          break;
+        case 'inlineStr': {
+          const inline = byTag(cell, 'is')[0];
+          row[index] = inline ? getStringText(inline) : '';
+          break;
+        }
+        case 'b':
+          row[index] = value === '1' ? 'TRUE' : 'FALSE';
+          break;
+        default:
+          row[index] = value;
+      }
+    });
+    // Keep rows at their sheet row number, so errors can point back to them
+    rows[Number(rowElement.getAttribute('r') || rows.length + 1) - 1] = Array.from(row, (cell) => cell ?? '');
+  });
+  return Array.from(rows, (row) => row ?? []);
+};
+
+/**
+ * Read an uploaded CSV or .xlsx file into rows of cells
+ */
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  return /\.xlsx$/i.test(file.name) ? parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+};
@@ -0,0 +1,143 @@
+import dayjs from 'dayjs';
+import type {
+  AppointmentResponse,
+  MessageTemplate,
+  TemplateStatus,
+  TemplateVariable,
+  TemplateVariableSource,
+} from './api';
+
+/**
+ * Languages a template can be created in (Meta language codes)
+ */
+export const TEMPLATE_LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'en_US', name: 'English (US)' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'mr', name: 'Marathi' },
+  { code: 'gu', name: 'Gujarati' },
+  { code: 'bn', name: 'Bengali' },
+  { code: 'ta', name: 'Tamil' },
+  { code: 'te', name: 'Telugu' },
+  { code: 'kn', name: 'Kannada' },
+];
+
+/**
+ * Where a template variable can be filled from
+ */
+export const VARIABLE_SOURCES: { value: TemplateVariableSource; label: string }[] = [
+  { value: 'PATIENT_NAME', label: 'Patient name' },
+  { value: 'PATIENT_PHONE', label: 'Patient phone' },
+  { value: 'CLINIC_NAME', label: 'Clinic name' },
+  { value: 'APPOINTMENT_DATE', label: 'Appointment date' },
+  { value: 'APPOINTMENT_TIME', label: 'Appointment time' },
+  { value: 'SERVICE_NAME', label: 'Service name' },
+  { value: 'PROVIDER_NAME', label: 'Doctor / provider name' },
+  { value: 'CUSTOM', label: 'Type when sending' },
+];
+
+/**
+ * Badge colours per approval status
+ */
+export const TEMPLATE_STATUS_COLORS: Record<TemplateStatus, string> = {
+  APPROVED: 'bg-green-100 text-green-800',
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  PAUSED: 'bg-orange-100 text-orange-800',
+  DISABLED: 'bg-gray-100 text-gray-800',
+};
+
+/**
+ * Data available for filling template variables
+ */
+export interface TemplateContext {
+  patientName?: string;
+  patientPhone?: string;
+  clinicName?: string;
+  appointment?: AppointmentResponse | null;
+}
+
+/**
+ * Find the positional variables ({{1}}, {{2}}, ...) used in a piece of text
+ * @returns Sorted, de-duplicated variable indexes
+ */
+export const extractVariables = (text: string): number[] => {
+  const indexes = new Set<number>();
+  for (const match of text.matchAll(/\{\{(\d+)\}\}/g)) {
+    indexes.add(Number(match[1]));
+  }
+  return [...indexes].sort((a, b) => a - b);
+};
+
+/**
+ * Replace {{n}} placeholders with values[n - 1]. Missing values keep the placeholder.
+ */
+export const renderTemplateText = (text: string, values: string[]): string => {
+  return text.replace(/\{\{(\d+)\}\}/g, (placeholder, index) => values[Number(index) - 1] || placeholder);
+};
+
+/**
+ * Build the value list for a preview from each variable's example
+ */
+export const getExampleValues = (variables: TemplateVariable[] = []): string[] => {
+  const values: string[] = [];
+  variables.forEach((v) => {
+    values[v.index - 1] = v.example;
+  });
+  return values;
+};
+
+/**
+ * Resolve a single variable source against the context
+ * @returns The value, or '' if it isn't available
+ */
+export const resolveVariable = (source: TemplateVariableSource, context: TemplateContext): string => {
+  const { appointment } = context;
+  switch (source) {
+    case 'PATIENT_NAME':
+      return context.patientName || '';
+    case 'PATIENT_PHONE':
+      return context.patientPhone || '';
+    case 'CLINIC_NAME':
+      return context.clinicName || '';
+    case 'APPOINTMENT_DATE':
+      return appointment ? dayjs(appointment.startTime).format('DD MMM YYYY') : '';
+    case 'APPOINTMENT_TIME':
+      return appointment ? dayjs(appointment.startTime).format('h:mm A') : '';
+    case 'SERVICE_NAME':
+      return appointment?.serviceName || '';
+    case 'PROVIDER_NAME':
+      return appointment?.providerName || '';
+    default:
+      return '';
+  }
+};
+
+/**
+ * Prefill body variable values for a template from the context
+ * @returns One value per body variable, in order ({{1}} first)
+ */
+export const prefillTemplateVariables = (
+  template: MessageTemplate,
+  context: TemplateContext
+): string[] => {
+  const count = Math.max(0, ...extractVariables(template.body));
+  return Array.from({ length: count }, (_, i) => {
+    const variable = template.variables?.find((v) => v.index === i + 1);
+    return variable ? resolveVariable(variable.source, context) : '';
+  });
+};
+
+/**
+ * Pick the patient's next upcoming appointment, if any
+ */
+export const getNextAppointment = (
+  appointments: AppointmentResponse[]
+): AppointmentResponse | null => {
+  const now = dayjs();
+  return (
+    appointments
+      .filter((a) => dayjs(a.startTime).isAfter(now) && a.status !== 'CANCELLED')
+      .sort((a, b) => dayjs(a.startTime).valueOf() - dayjs(b.startTime).valueOf())[0] || null
+  );
+};
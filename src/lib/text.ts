@@ -0,0 +1,4 @@
+/**
+ * Escape text for use as a literal inside a regular expression
+ */
+export const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
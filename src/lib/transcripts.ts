@@ -0,0 +1,193 @@
+import dayjs from 'dayjs';
+import { getChatMessages, type Chat, type Message, type TranscriptFormat } from './api';
+import { getSenderName } from './messages';
+
+const HISTORY_PAGE_SIZE = 200;
+
+export const TRANSCRIPT_FORMATS: { value: TranscriptFormat; label: string; description: string }[] = [
+  { value: 'PDF', label: 'PDF', description: 'Printable copy for records and legal requests' },
+  { value: 'HTML', label: 'HTML', description: 'Opens in any browser' },
+  { value: 'JSON', label: 'JSON', description: 'Machine-readable, for records systems' },
+];
+
+export interface TranscriptMessage {
+  id: string;
+  timestamp: string; // ISO 8601 with offset
+  direction: 'IN' | 'OUT';
+  sender: string;
+  type: string;
+  text: string;
+  mediaUrl?: string;
+  mediaFileName?: string;
+  status?: string;
+  errorMessage?: string;
+  internalNote: boolean;
+}
+
+export interface Transcript {
+  chatId: string;
+  customerName?: string;
+  customerPhone: string;
+  clinicName?: string;
+  exportedAt: string;
+  exportedBy?: string;
+  messages: TranscriptMessage[];
+}
+
+/**
+ * Every message in a chat, oldest first
+ */
+export const loadFullHistory = async (chatId: string): Promise<Message[]> => {
+  const pages: Message[][] = [];
+  let before: string | undefined;
+  do {
+    const page = await getChatMessages(chatId, { before, limit: HISTORY_PAGE_SIZE });
+    pages.unshift(page.content);
+    before = page.nextCursor ?? undefined;
+  } while (before);
+  return pages.flat();
+};
+
+// Text for messages that have no body of their own
+const describeContent = (message: Message): string => {
+  if (message.location) {
+    const { latitude, longitude, name, address } = message.location;
+    return [name, address, `${latitude}, ${longitude}`].filter(Boolean).join(' - ');
+  }
+  if (message.contacts?.length) {
+    return message.contacts.map((c) => `${c.name} (${c.phones.join(', ')})`).join('; ');
+  }
+  return message.content || '';
+};
+
+/**
+ * Build a transcript of a chat
+ * @param includeNotes - Internal staff notes are left out unless asked for
+ */
+export const buildTranscript = (
+  chat: Chat,
+  messages: Message[],
+  options: { includeNotes: boolean; clinicName?: string; exportedBy?: string }
+): Transcript => ({
+  chatId: chat.id,
+  customerName: chat.customerName,
+  customerPhone: chat.customerPhone,
+  clinicName: options.clinicName,
+  exportedAt: dayjs().format(),
+  exportedBy: options.exportedBy,
+  messages: messages
+    .filter((m) => options.includeNotes || m.type !== 'NOTE')
+    .map((m) => ({
+      id: m.id,
+      timestamp: dayjs(m.createdAt).format(),
+      direction: m.direction,
+      sender: getSenderName(m, chat.customerName || chat.customerPhone),
+      type: m.type || 'TEXT',
+      text: describeContent(m),
+      mediaUrl: m.media?.url,
+      mediaFileName: m.media?.fileName,
+      status: m.direction === 'OUT' && m.type !== 'NOTE' ? m.status : undefined,
+      errorMessage: m.errorMessage,
+      internalNote: m.type === 'NOTE',
+    })),
+});
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatTimestamp = (timestamp: string) => dayjs(timestamp).format('DD MMM YYYY, HH:mm:ss (UTCZ)');
+
+/**
+ * Standalone HTML page for a transcript, styled for print
+ */
+export const renderTranscriptHtml = (transcript: Transcript): string => {
+  const customer = transcript.customerName
+    ? `${transcript.customerName} (${transcript.customerPhone})`
+    : transcript.customerPhone;
+
+  const rows = transcript.messages
+    .map((m) => {
+      const media = m.mediaUrl
+        ? `<div><a href="${escapeHtml(m.mediaUrl)}">${escapeHtml(m.mediaFileName || m.mediaUrl)}</a></div>`
+        : '';
+      const status = m.internalNote
+        ? 'Internal note'
+        : m.status
+          ? escapeHtml(m.status + (m.errorMessage ? `: ${m.errorMessage}` : ''))
+          : '';
+      return `<tr class="${m.internalNote ? 'note' : m.direction === 'IN' ? 'in' : 'out'}">
+  <td>${escapeHtml(formatTimestamp(m.timestamp))}</td>
+  <td>${m.direction === 'IN' ? 'Received' : 'Sent'}</td>
+  <td>${escapeHtml(m.sender)}</td>
+  <td>${escapeHtml(m.text).replace(/\n/g, '<br>')}${media}</td>
+  <td>${status}</td>
+</tr>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>WhatsApp transcript - ${escapeHtml(customer)}</title>
+<style>
+  body { font-family: -apple-system, Segoe UI, Roboto, Arial, sans-serif; font-size: 12px; color: #111827; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  .meta { color: #4b5563; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #d1d5db; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  tr { page-break-inside: avoid; }
+  tr.in td { background: #ffffff; }
+  tr.out td { background: #eff6ff; }
+  tr.note td { background: #fefce8; }
+  td:first-child { white-space: nowrap; }
+</style>
+</head>
+<body>
+<h1>WhatsApp conversation with ${escapeHtml(customer)}</h1>
+<div class="meta">
+  ${transcript.clinicName ? `${escapeHtml(transcript.clinicName)}<br>` : ''}
+  ${transcript.messages.length} messages · Exported ${escapeHtml(formatTimestamp(transcript.exportedAt))}${
+    transcript.exportedBy ? ` by ${escapeHtml(transcript.exportedBy)}` : ''
+  }
+</div>
+<table>
+  <thead>
+    <tr><th>Time</th><th>Direction</th><th>Sender</th><th>Message</th><th>Status</th></tr>
+  </thead>
+  <tbody>
+${rows}
+  </tbody>
+</table>
+</body>
+</html>`;
+};
+
+/**
+ * File name for an export, e.g. "transcript-919876543210-2026-10-19.html"
+ */
+export const getTranscriptFileName = (transcript: Transcript, extension: string): string => {
+  return `transcript-${transcript.customerPhone.replace(/\D/g, '')}-${dayjs().format('YYYY-MM-DD')}.${extension}`;
+};
+
+/**
+ * Open an empty window to print into. Call it straight from the click handler -
+ * browsers block pop-ups opened after an await.
+ */
+export const openPrintWindow = (): Window | null => window.open('', '_blank');
+
+/**
+ * Show HTML in a window from openPrintWindow and bring up the print dialog
+ */
+export const printHtml = (printWindow: Window, html: string) => {
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { detectLanguages } from './api';
+import { detectMessageLanguage, getMessageLanguage, stubTranslationProvider } from './translation';
+
+vi.mock('./api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./api')>()),
+  detectLanguages: vi.fn(),
+}));
+
+describe('stubTranslationProvider', () => {
+  it('detects the language from the script', async () => {
+    expect(await stubTranslationProvider.detectLanguages(['नमस्ते', 'வணக்கம்', 'Hello', '👍'])).toEqual([
+      'hi',
+      'ta',
+      'en',
+      null,
+    ]);
+  });
+
+  it('tags translations with the target language', async () => {
+    expect(await stubTranslationProvider.translate('Hello', 'hi')).toEqual({
+      text: '[hi] Hello',
+      sourceLanguage: 'en',
+      targetLanguage: 'hi',
+    });
+    expect((await stubTranslationProvider.translate('Hello', 'en')).text).toBe('Hello');
+  });
+});
+
+describe('detectMessageLanguage', () => {
+  beforeEach(() => {
+    vi.mocked(detectLanguages).mockReset();
+  });
+
+  it('detects messages asked for together in one request', async () => {
+    vi.mocked(detectLanguages).mockResolvedValue(['hi', 'en']);
+
+    const languages = await Promise.all([detectMessageLanguage('m1', 'नमस्ते'), detectMessageLanguage('m2', 'Hello')]);
+
+    expect(languages).toEqual(['hi', 'en']);
+    expect(detectLanguages).toHaveBeenCalledTimes(1);
+    expect(detectLanguages).toHaveBeenCalledWith(['नमस्ते', 'Hello']);
+    expect(getMessageLanguage('m1')).toBe('hi');
+  });
+
+  it('detects each message only once', async () => {
+    vi.mocked(detectLanguages).mockResolvedValue(['en']);
+
+    await Promise.all([detectMessageLanguage('m3', 'Hi'), detectMessageLanguage('m3', 'Hi')]);
+    await detectMessageLanguage('m3', 'Hi');
+
+    expect(detectLanguages).toHaveBeenCalledTimes(1);
+    expect(detectLanguages).toHaveBeenCalledWith(['Hi']);
+  });
+
+  it('prefers the language the server tagged', () => {
+    expect(getMessageLanguage('m1', 'mr')).toBe('mr');
+  });
+
+  it('detects again after a failed detection', async () => {
+    vi.mocked(detectLanguages).mockRejectedValueOnce(new Error('Network Error'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await detectMessageLanguage('m4', 'Hola')).toBeNull();
+    expect(getMessageLanguage('m4')).toBeUndefined();
+
+    vi.mocked(detectLanguages).mockResolvedValueOnce(['es']);
+    expect(await detectMessageLanguage('m4', 'Hola')).toBe('es');
+    expect(getMessageLanguage('m4')).toBe('es');
+  });
+});
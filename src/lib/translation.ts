@@ -0,0 +1,189 @@
+import { getUserId } from './auth';
+import { detectLanguages, translateText, type TranslationResult } from './api';
+import { selectProvider, tagWithLanguage } from './providers';
+
+/**
+ * Languages the clinic and its staff can work in (ISO 639-1)
+ */
+export const LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'hi', name: 'Hindi (हिन्दी)' },
+  { code: 'mr', name: 'Marathi (मराठी)' },
+  { code: 'gu', name: 'Gujarati (ગુજરાતી)' },
+  { code: 'bn', name: 'Bengali (বাংলা)' },
+  { code: 'ta', name: 'Tamil (தமிழ்)' },
+  { code: 'te', name: 'Telugu (తెలుగు)' },
+  { code: 'kn', name: 'Kannada (ಕನ್ನಡ)' },
+];
+
+/**
+ * English name of a language, e.g. "Hindi" for 'hi'
+ */
+export const getLanguageName = (code: string): string => {
+  const language = LANGUAGES.find((l) => l.code === code);
+  return language ? language.name.split(' (')[0] : code.toUpperCase();
+};
+
+/**
+ * Anything that can detect and translate text (picked by VITE_TRANSLATION_PROVIDER)
+ */
+export interface TranslationProvider {
+  detectLanguages: (texts: string[]) => Promise<(string | null)[]>;
+  translate: (text: string, targetLanguage: string, sourceLanguage?: string) => Promise<TranslationResult>;
+}
+
+export const apiTranslationProvider: TranslationProvider = {
+  detectLanguages,
+  translate: translateText,
+};
+
+// Unicode blocks of the Indian scripts we support. Devanagari is shared by
+// Hindi and Marathi, so the stub always reports Hindi for it.
+const SCRIPT_LANGUAGES: { pattern: RegExp; code: string }[] = [
+  { pattern: /[\u0900-\u097F]/, code: 'hi' },
+  { pattern: /[\u0980-\u09FF]/, code: 'bn' },
+  { pattern: /[\u0A80-\u0AFF]/, code: 'gu' },
+  { pattern: /[\u0B80-\u0BFF]/, code: 'ta' },
+  { pattern: /[\u0C00-\u0C7F]/, code: 'te' },
+  { pattern: /[\u0C80-\u0CFF]/, code: 'kn' },
+  { pattern: /[A-Za-z]/, code: 'en' },
+];
+
+const detectScript = (text: string) => SCRIPT_LANGUAGES.find((s) => s.pattern.test(text))?.code ?? null;
+
+/**
+ * Local stand-in that detects the language from its script and "translates"
+ * by tagging the text with the target language
+ */
+export const stubTranslationProvider: TranslationProvider = {
+  detectLanguages: async (texts) => texts.map(detectScript),
+  translate: async (text, targetLanguage, sourceLanguage) => {
+    const source = sourceLanguage || detectScript(text) || 'en';
+    return {
+      text: tagWithLanguage(text, targetLanguage, source),
+      sourceLanguage: source,
+      targetLanguage,
+    };
+  },
+};
+
+type TranslationListener = () => void;
+
+// Constants
+const STAFF_LANGUAGE_KEY_PREFIX = 'waas_translation_language_';
+const DETECT_BATCH_DELAY_MS = 50; // Messages rendered together are detected in one request
+const MAX_DETECT_BATCH = 50;
+
+// Module state
+const provider = selectProvider(import.meta.env.VITE_TRANSLATION_PROVIDER, {
+  api: apiTranslationProvider,
+  stub: stubTranslationProvider,
+});
+const listeners = new Set<TranslationListener>();
+const detectedLanguages = new Map<string, string | null>(); // By message ID
+const pendingDetections = new Map<string, Promise<string | null>>();
+const detectionQueue = new Map<string, { text: string; resolve: (language: string | null) => void }>();
+let detectionTimer: ReturnType<typeof setTimeout> | null = null;
+const translations = new Map<string, Promise<TranslationResult>>(); // By message ID and target language
+
+const notify = () => {
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Subscribe to detected languages and the staff language
+ * @returns Unsubscribe function
+ */
+export const subscribeToTranslation = (listener: TranslationListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Language the current staff member reads - messages are translated into it
+ */
+export const getStaffLanguage = (): string => {
+  const saved = localStorage.getItem(`${STAFF_LANGUAGE_KEY_PREFIX}${getUserId() || 'anonymous'}`);
+  if (saved) return saved;
+  const browserLanguage = navigator.language.split('-')[0];
+  return LANGUAGES.some((l) => l.code === browserLanguage) ? browserLanguage : 'en';
+};
+
+export const setStaffLanguage = (code: string) => {
+  localStorage.setItem(`${STAFF_LANGUAGE_KEY_PREFIX}${getUserId() || 'anonymous'}`, code);
+  notify();
+};
+
+/**
+ * Language of a message if known - from the server, or detected earlier
+ * @returns undefined until detected, null when it couldn't be told
+ */
+export const getMessageLanguage = (messageId: string, serverLanguage?: string): string | null | undefined => {
+  return serverLanguage ?? detectedLanguages.get(messageId);
+};
+
+// Detect the queued messages, a batch at a time
+const flushDetections = async () => {
+  detectionTimer = null;
+  const batch = [...detectionQueue].slice(0, MAX_DETECT_BATCH);
+  batch.forEach(([messageId]) => detectionQueue.delete(messageId));
+  if (detectionQueue.size > 0) detectionTimer = setTimeout(flushDetections, 0);
+
+  let languages: (string | null)[] = [];
+  try {
+    languages = await provider.detectLanguages(batch.map(([, { text }]) => text));
+    batch.forEach(([messageId], index) => detectedLanguages.set(messageId, languages[index] ?? null));
+  } catch (error) {
+    // Nothing is remembered, so the messages are detected again next time
+    console.error('Failed to detect languages:', error);
+  }
+
+  batch.forEach(([messageId]) => pendingDetections.delete(messageId));
+  notify();
+  batch.forEach(([, { resolve }], index) => resolve(languages[index] ?? null));
+};
+
+/**
+ * Detect a message's language once, for messages the server didn't tag.
+ * Messages asked for at about the same time are detected in one request.
+ */
+export const detectMessageLanguage = (messageId: string, text: string): Promise<string | null> => {
+  if (detectedLanguages.has(messageId)) return Promise.resolve(detectedLanguages.get(messageId) ?? null);
+
+  let pending = pendingDetections.get(messageId);
+  if (!pending) {
+    pending = new Promise((resolve) => detectionQueue.set(messageId, { text, resolve }));
+    pendingDetections.set(messageId, pending);
+    detectionTimer ??= setTimeout(flushDetections, DETECT_BATCH_DELAY_MS);
+  }
+  return pending;
+};
+
+/**
+ * Translate a message, reusing earlier translations of it
+ */
+export const translateMessage = (
+  messageId: string,
+  text: string,
+  targetLanguage: string,
+  sourceLanguage?: string
+): Promise<TranslationResult> => {
+  const key = `${messageId}:${targetLanguage}`;
+  let translation = translations.get(key);
+  if (!translation) {
+    translation = provider.translate(text, targetLanguage, sourceLanguage);
+    // Let a failed translation be retried
+    translation.catch(() => translations.delete(key));
+    translations.set(key, translation);
+  }
+  return translation;
+};
+
+/**
+ * Translate a reply before it is sent
+ */
+export const translateReply = (text: string, targetLanguage: string): Promise<TranslationResult> => {
+  return provider.translate(text, targetLanguage);
+};
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, startOfWeek, endOfWeek, isToday } from 'date-fns';
+import { useSearchParams } from 'react-router-dom';
+import { format, parseISO, isValid, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, startOfWeek, endOfWeek, isToday } from 'date-fns';
 import { Plus } from 'lucide-react';
 import api from '../lib/api';
 import AddAppointmentModal from '../components/AddAppointmentModal';
@@ -31,6 +32,20 @@ const AppointmentsPage = () => {
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [searchParams] = useSearchParams();
+  const [shownDateParam, setShownDateParam] = useState<string | null>(null);
+
+  // Show the day given in the URL, e.g. when jumping to an appointment
+  const dateParam = searchParams.get('date');
+  if (dateParam !== shownDateParam) {
+    setShownDateParam(dateParam);
+    const date = dateParam ? parseISO(dateParam) : null;
+    if (date && isValid(date)) {
+      setViewMode('calendar');
+      setCurrentMonth(date);
+      setSelectedDate(date);
+    }
+  }
   const [stats, setStats] = useState({
     total: 0,
     pending: 0,
@@ -541,7 +556,7 @@ const BookingDetailModal = ({
   onCancel: (id: string) => void;
 }) => {
   return (
-    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         {/* Modal Header */}
         <div className="px-6 py-4 border-b flex justify-between items-center sticky top-0 bg-white">
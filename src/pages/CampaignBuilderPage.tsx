@@ -0,0 +1,569 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight, Users } from 'lucide-react';
+import {
+  listTemplates,
+  listCustomerTags,
+  queryCustomers,
+  countCampaignAudience,
+  getTenantProfile,
+  createCampaign,
+  getApiErrorMessage,
+  type CampaignAudienceCount,
+  type CampaignVariable,
+  type Customer,
+  type CustomerFilter,
+  type MessageTemplate,
+} from '../lib/api';
+import {
+  CAMPAIGN_VARIABLE_SOURCES,
+  DEFAULT_MESSAGES_PER_MINUTE,
+  THROTTLE_OPTIONS,
+  formatSendDuration,
+  getDefaultCampaignVariables,
+  renderCampaignValues,
+} from '../lib/campaigns';
+import { canSendMarketing } from '../lib/consent';
+import { filterFromSearchParams } from '../lib/customers';
+import { getDefaultScheduleTime, toDateTimeInputValue, validateScheduleTime } from '../lib/scheduling';
+import TemplatePreview from '../components/TemplatePreview';
+import { useDebounce } from '../hooks/useDebounce';
+
+const STEPS = ['Template', 'Audience', 'Preview', 'Send'];
+// Matching customers loaded to list on the audience step and to preview
+const AUDIENCE_SAMPLE_SIZE = 100;
+
+const CampaignBuilderPage = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [step, setStep] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [clinicName, setClinicName] = useState<string>();
+
+  // Campaign
+  const [name, setName] = useState('');
+  const [template, setTemplate] = useState<MessageTemplate | null>(null);
+  const [variables, setVariables] = useState<CampaignVariable[]>([]);
+  const [headerMediaUrl, setHeaderMediaUrl] = useState('');
+  // Audience can be handed over from the customer list filters
+  const [audience, setAudience] = useState<CustomerFilter>(() => filterFromSearchParams(searchParams));
+  const [audienceCount, setAudienceCount] = useState<CampaignAudienceCount | null>(null);
+  const [audienceSample, setAudienceSample] = useState<Customer[]>([]);
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [sendLater, setSendLater] = useState(false);
+  const [scheduleTime, setScheduleTime] = useState(() => toDateTimeInputValue(getDefaultScheduleTime(Date.now())));
+  const [messagesPerMinute, setMessagesPerMinute] = useState(DEFAULT_MESSAGES_PER_MINUTE);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [templateData, tags, tenant] = await Promise.all([
+        listTemplates('APPROVED'),
+        listCustomerTags(),
+        getTenantProfile().catch(() => null),
+      ]);
+      setTemplates(templateData);
+      setAllTags(tags);
+      setClinicName(tenant?.name);
+    } catch (err) {
+      console.error('Failed to load campaign data:', err);
+      setError('Failed to load templates and customers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The server counts the audience; only a sample of it is loaded for the lists
+  const debouncedSearch = useDebounce(audience.search || '', 300);
+  const { tags, lastVisitFrom, lastVisitTo, hasUpcomingAppointment } = audience;
+  useEffect(() => {
+    let cancelled = false;
+    const filter = { search: debouncedSearch, tags, lastVisitFrom, lastVisitTo, hasUpcomingAppointment };
+    setAudienceCount(null);
+    Promise.all([countCampaignAudience(filter), queryCustomers({ ...filter, size: AUDIENCE_SAMPLE_SIZE })])
+      .then(([count, sample]) => {
+        if (cancelled) return;
+        setAudienceCount(count);
+        setAudienceSample(sample.content);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Failed to count campaign audience:', err);
+        setError(getApiErrorMessage(err, 'Failed to count the audience'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSearch, tags, lastVisitFrom, lastVisitTo, hasUpcomingAppointment]);
+
+  // Opted-out customers are never messaged, whatever the audience
+  const recipientCount = audienceCount ? audienceCount.matching - audienceCount.optedOut : 0;
+  const optedOutCount = audienceCount?.optedOut ?? 0;
+  // Recipients from the loaded sample, listed and previewed
+  const recipients = audienceSample.filter((customer) => canSendMarketing(customer.consent?.status));
+  const needsHeaderMedia = !!template?.header && template.header.format !== 'TEXT';
+  const previewCustomer = recipients[Math.min(previewIndex, recipients.length - 1)];
+
+  const handleSelectTemplate = (selected: MessageTemplate) => {
+    setTemplate(selected);
+    setVariables(getDefaultCampaignVariables(selected));
+    setHeaderMediaUrl('');
+  };
+
+  const updateVariable = (index: number, changes: Partial<CampaignVariable>) => {
+    setVariables((prev) => prev.map((v) => (v.index === index ? { ...v, ...changes } : v)));
+  };
+
+  const toggleTag = (tag: string) => {
+    const tags = audience.tags || [];
+    setAudience({ ...audience, tags: tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag] });
+    setPreviewIndex(0);
+  };
+
+  // Why the current step can't be left yet, if anything
+  const getStepError = (): string | null => {
+    if (step === 0) {
+      if (!name.trim()) return 'Please give the campaign a name';
+      if (!template) return 'Please choose a template';
+      if (variables.some((v) => v.source === 'CUSTOM' && !v.value?.trim())) return 'Please fill in every variable';
+      if (needsHeaderMedia && !headerMediaUrl.trim()) return 'Please provide a link to the header file';
+    }
+    if (step === 1 && !audienceCount) return 'Still counting the audience, please wait';
+    if (step === 1 && recipientCount === 0) return 'No customers match this audience';
+    return null;
+  };
+
+  const handleNext = () => {
+    const stepError = getStepError();
+    if (stepError) {
+      setError(stepError);
+      return;
+    }
+    setError('');
+    setStep(step + 1);
+  };
+
+  const handleSubmit = async () => {
+    if (!template) return;
+
+    const scheduledFor = new Date(scheduleTime);
+    if (sendLater) {
+      const timeError = validateScheduleTime(scheduledFor, Date.now(), false);
+      if (timeError) {
+        setError(timeError);
+        return;
+      }
+    } else if (!confirm(`Send "${name}" to ${recipientCount} customers now?`)) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError('');
+      const campaign = await createCampaign({
+        name: name.trim(),
+        templateName: template.name,
+        templateLanguage: template.language,
+        variables,
+        headerMediaUrl: needsHeaderMedia ? headerMediaUrl : undefined,
+        audience,
+        scheduledFor: sendLater ? scheduledFor.toISOString() : undefined,
+        messagesPerMinute,
+      });
+      navigate(`/campaigns/${campaign.id}`);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to create campaign'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl">
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/campaigns')}
+          className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Campaigns
+        </button>
+        <h1 className="text-3xl font-bold text-gray-900">New Campaign</h1>
+      </div>
+
+      {/* Steps */}
+      <div className="flex items-center gap-2 mb-6">
+        {STEPS.map((title, index) => (
+          <div key={title} className="flex items-center gap-2 flex-1">
+            <div
+              className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold ${
+                index === step
+                  ? 'bg-blue-600 text-white'
+                  : index < step
+                  ? 'bg-green-500 text-white'
+                  : 'bg-gray-200 text-gray-500'
+              }`}
+            >
+              {index < step ? '✓' : index + 1}
+            </div>
+            <span className="text-sm text-gray-700">{title}</span>
+            {index < STEPS.length - 1 && (
+              <div className={`flex-1 h-1 ${index < step ? 'bg-green-500' : 'bg-gray-200'}`} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+        )}
+
+        {/* Step 1: Template */}
+        {step === 0 && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Campaign name *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Flu vaccination drive"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Template *</label>
+              {templates.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No approved templates yet.{' '}
+                  <a href="/settings" className="text-blue-600 hover:text-blue-700 font-medium">
+                    Create one in Settings
+                  </a>
+                </p>
+              ) : (
+                <select
+                  value={template?.id || ''}
+                  onChange={(e) => {
+                    const selected = templates.find((t) => t.id === e.target.value);
+                    if (selected) handleSelectTemplate(selected);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Select a template...</option>
+                  {templates.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name} ({t.language}, {t.category.toLowerCase()})
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {template && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-3">
+                  {needsHeaderMedia && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Header {template.header?.format.toLowerCase()} link *
+                      </label>
+                      <input
+                        type="url"
+                        value={headerMediaUrl}
+                        onChange={(e) => setHeaderMediaUrl(e.target.value)}
+                        placeholder="https://"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                  {variables.map((variable) => (
+                    <div key={variable.index}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1 font-mono">
+                        {`{{${variable.index}}}`}
+                      </label>
+                      <div className="flex gap-2">
+                        <select
+                          value={variable.source}
+                          onChange={(e) =>
+                            updateVariable(variable.index, {
+                              source: e.target.value as CampaignVariable['source'],
+                            })
+                          }
+                          className="px-2 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        >
+                          {CAMPAIGN_VARIABLE_SOURCES.map((source) => (
+                            <option key={source.value} value={source.value}>
+                              {source.label}
+                            </option>
+                          ))}
+                        </select>
+                        {variable.source === 'CUSTOM' && (
+                          <input
+                            type="text"
+                            value={variable.value || ''}
+                            onChange={(e) => updateVariable(variable.index, { value: e.target.value })}
+                            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                          />
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  {variables.length === 0 && !needsHeaderMedia && (
+                    <p className="text-sm text-gray-500">This template has no variables.</p>
+                  )}
+                </div>
+                <TemplatePreview
+                  header={template.header}
+                  body={template.body}
+                  footer={template.footer}
+                  buttons={template.buttons}
+                  values={renderCampaignValues(variables, recipients[0], clinicName)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Step 2: Audience */}
+        {step === 1 && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name or phone contains</label>
+              <input
+                type="text"
+                value={audience.search || ''}
+                onChange={(e) => {
+                  setAudience({ ...audience, search: e.target.value || undefined });
+                  setPreviewIndex(0);
+                }}
+                placeholder="Leave empty for everyone"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            {allTags.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Customers tagged with any of</p>
+                <div className="flex flex-wrap gap-2">
+                  {allTags.map((tag) => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTag(tag)}
+                      className={`px-3 py-1 text-xs rounded-full transition ${
+                        audience.tags?.includes(tag)
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                      }`}
+                    >
+                      {tag}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Filters carried over from the customer list */}
+            {(audience.lastVisitFrom || audience.lastVisitTo || audience.hasUpcomingAppointment) && (
+              <div className="flex items-center gap-3 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                <p className="flex-1 text-gray-700">
+                  {[
+                    (audience.lastVisitFrom || audience.lastVisitTo) &&
+                      ['Last visit', audience.lastVisitFrom && `from ${audience.lastVisitFrom}`, audience.lastVisitTo && `to ${audience.lastVisitTo}`]
+                        .filter(Boolean)
+                        .join(' '),
+                    audience.hasUpcomingAppointment && 'Has an upcoming appointment',
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+                <button
+                  onClick={() => {
+                    setAudience({ search: audience.search, tags: audience.tags });
+                    setPreviewIndex(0);
+                  }}
+                  className="text-xs text-gray-500 hover:text-gray-700"
+                >
+                  Remove
+                </button>
+              </div>
+            )}
+
+            <div className="border border-gray-200 rounded-lg">
+              <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 bg-gray-50">
+                <Users className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium text-gray-900">
+                  {audienceCount ? `${recipientCount} recipients` : 'Counting...'}
+                </span>
+              </div>
+              <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+                {recipients.map((customer) => (
+                  <li key={customer.id} className="flex justify-between px-4 py-2 text-sm">
+                    <span className="text-gray-900">{customer.name || '—'}</span>
+                    <span className="text-gray-500">{customer.phoneNumber}</span>
+                  </li>
+                ))}
+                {recipientCount > recipients.length && (
+                  <li className="px-4 py-2 text-sm text-gray-500">and {recipientCount - recipients.length} more...</li>
+                )}
+              </ul>
+            </div>
+            {optedOutCount > 0 && (
+              <p className="text-xs text-gray-500">
+                {optedOutCount} matching customer{optedOutCount !== 1 ? 's have' : ' has'} opted out of marketing
+                messages and will be skipped.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Step 3: Preview */}
+        {step === 2 && template && previewCustomer && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{previewCustomer.name || previewCustomer.phoneNumber}</p>
+                <p className="text-xs text-gray-500">{previewCustomer.phoneNumber}</p>
+              </div>
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <button
+                  onClick={() => setPreviewIndex(Math.max(0, previewIndex - 1))}
+                  disabled={previewIndex === 0}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  title="Previous recipient"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                </button>
+                {Math.min(previewIndex, recipients.length - 1) + 1} / {recipients.length}
+                <button
+                  onClick={() => setPreviewIndex(Math.min(recipients.length - 1, previewIndex + 1))}
+                  disabled={previewIndex >= recipients.length - 1}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  title="Next recipient"
+                >
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+            <div className="max-w-md">
+              <TemplatePreview
+                header={template.header}
+                body={template.body}
+                footer={template.footer}
+                buttons={template.buttons}
+                values={renderCampaignValues(variables, previewCustomer, clinicName)}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Step 4: Send */}
+        {step === 3 && (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input type="radio" checked={!sendLater} onChange={() => setSendLater(false)} />
+                Start sending now
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input type="radio" checked={sendLater} onChange={() => setSendLater(true)} />
+                Schedule for
+                <input
+                  type="datetime-local"
+                  value={scheduleTime}
+                  min={toDateTimeInputValue(Date.now())}
+                  onChange={(e) => {
+                    setScheduleTime(e.target.value);
+                    setSendLater(true);
+                  }}
+                  className="px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sending speed</label>
+              <select
+                value={messagesPerMinute}
+                onChange={(e) => setMessagesPerMinute(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {THROTTLE_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {option} messages per minute
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {recipientCount} messages will take {formatSendDuration(recipientCount, messagesPerMinute)}.
+                Sending slowly keeps your number in good standing with WhatsApp.
+              </p>
+            </div>
+
+            <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-700 space-y-1">
+              <p>
+                <span className="text-gray-500">Campaign:</span> {name}
+              </p>
+              <p>
+                <span className="text-gray-500">Template:</span> <span className="font-mono">{template?.name}</span>
+              </p>
+              <p>
+                <span className="text-gray-500">Recipients:</span> {recipientCount}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Navigation */}
+        <div className="flex justify-between mt-8 pt-6 border-t">
+          <button
+            onClick={() => {
+              setError('');
+              setStep(step - 1);
+            }}
+            disabled={step === 0}
+            className="px-6 py-2 rounded-lg font-semibold bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            Back
+          </button>
+          {step < STEPS.length - 1 ? (
+            <button
+              onClick={handleNext}
+              className="px-6 py-2 rounded-lg font-semibold text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Continue
+            </button>
+          ) : (
+            <button
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="px-6 py-2 rounded-lg font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {submitting ? 'Saving...' : sendLater ? 'Schedule Campaign' : 'Send Campaign'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CampaignBuilderPage;
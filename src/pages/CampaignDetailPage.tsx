@@ -0,0 +1,335 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { ArrowLeft, Pause, Play, XCircle } from 'lucide-react';
+import {
+  getCampaign,
+  getCampaignRecipients,
+  updateCampaignStatus,
+  getApiErrorMessage,
+  type Campaign,
+  type CampaignRecipientStatus,
+  type PagedCampaignRecipients,
+} from '../lib/api';
+import { useInterval } from '../hooks/useInterval';
+import { useRealtimeEvent, useRealtimeStatus } from '../hooks/useRealtime';
+import { CAMPAIGN_STATUS_COLORS, RECIPIENT_STATUS_LABELS, toPercent } from '../lib/campaigns';
+
+const PAGE_SIZE = 50;
+const POLL_INTERVAL = 10000;
+
+const RECIPIENT_STATUS_COLORS: Record<CampaignRecipientStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-800',
+  SENT: 'bg-blue-100 text-blue-800',
+  DELIVERED: 'bg-blue-100 text-blue-800',
+  READ: 'bg-green-100 text-green-800',
+  REPLIED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  OPTED_OUT: 'bg-yellow-100 text-yellow-800',
+};
+
+const CampaignDetailPage = () => {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const realtimeStatus = useRealtimeStatus();
+  const [campaign, setCampaign] = useState<Campaign | null>(null);
+  const [recipients, setRecipients] = useState<PagedCampaignRecipients | null>(null);
+  const [statusFilter, setStatusFilter] = useState<CampaignRecipientStatus | ''>('');
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    const fetchCampaign = async () => {
+      try {
+        setLoading(true);
+        setCampaign(await getCampaign(id));
+        setError(null);
+      } catch (err) {
+        console.error('Failed to fetch campaign:', err);
+        setError('Failed to load campaign');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchCampaign();
+  }, [id]);
+
+  // Recipients only change status when one of the counters moves, so polls and
+  // events that change nothing don't reload the page of recipients
+  const counts = campaign?.stats;
+  const statsKey = counts
+    ? [counts.sent, counts.delivered, counts.read, counts.replied, counts.failed, counts.optedOut].join(',')
+    : '';
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchRecipients = async () => {
+      try {
+        const data = await getCampaignRecipients(id, { status: statusFilter || undefined, page, size: PAGE_SIZE });
+        if (!cancelled) setRecipients(data);
+      } catch (err) {
+        console.error('Failed to fetch campaign recipients:', err);
+      }
+    };
+    fetchRecipients();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, statusFilter, page, statsKey]);
+
+  useRealtimeEvent((event) => {
+    if (event.type === 'campaign.updated' && event.campaign.id === id) {
+      setCampaign(event.campaign);
+    }
+  });
+
+  // Fall back to polling while messages are going out and events aren't flowing
+  const inProgress = campaign?.status === 'SENDING' || campaign?.status === 'SCHEDULED';
+  useInterval(
+    async () => {
+      try {
+        setCampaign(await getCampaign(id));
+      } catch (err) {
+        console.error('Failed to refresh campaign:', err);
+      }
+    },
+    inProgress && realtimeStatus !== 'open' ? POLL_INTERVAL : null
+  );
+
+  const handleAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (action === 'cancel' && !confirm('Cancel this campaign? Messages not yet sent will not go out.')) {
+      return;
+    }
+
+    try {
+      setUpdating(true);
+      setCampaign(await updateCampaignStatus(id, action));
+    } catch (err) {
+      console.error(`Failed to ${action} campaign:`, err);
+      alert(getApiErrorMessage(err, `Failed to ${action} campaign`));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleFilterChange = (status: CampaignRecipientStatus | '') => {
+    setStatusFilter(status);
+    setPage(0);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading campaign...</div>
+      </div>
+    );
+  }
+
+  if (error || !campaign) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-red-500">{error || 'Campaign not found'}</div>
+      </div>
+    );
+  }
+
+  const { stats } = campaign;
+  const processed = stats.sent + stats.failed + stats.optedOut;
+  const statCards = [
+    { label: 'Recipients', value: stats.recipients },
+    { label: 'Sent', value: stats.sent, percent: toPercent(stats.sent, stats.recipients) },
+    { label: 'Delivered', value: stats.delivered, percent: toPercent(stats.delivered, stats.sent) },
+    { label: 'Read', value: stats.read, percent: toPercent(stats.read, stats.sent) },
+    { label: 'Replied', value: stats.replied, percent: toPercent(stats.replied, stats.sent) },
+    { label: 'Failed', value: stats.failed, percent: toPercent(stats.failed, stats.recipients) },
+    { label: 'Opted out', value: stats.optedOut, percent: toPercent(stats.optedOut, stats.recipients) },
+  ];
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/campaigns')}
+          className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Campaigns
+        </button>
+        <div className="flex items-start justify-between">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <h1 className="text-3xl font-bold text-gray-900">{campaign.name}</h1>
+              <span className={`px-2 py-1 text-xs font-semibold rounded-full ${CAMPAIGN_STATUS_COLORS[campaign.status]}`}>
+                {campaign.status}
+              </span>
+            </div>
+            <p className="text-gray-600">
+              <span className="font-mono">{campaign.templateName}</span> · {campaign.messagesPerMinute} messages per
+              minute
+              {campaign.scheduledFor && campaign.status === 'SCHEDULED'
+                ? ` · starts ${dayjs(campaign.scheduledFor).format('MMM D, h:mm A')}`
+                : campaign.startedAt && ` · started ${dayjs(campaign.startedAt).format('MMM D, h:mm A')}`}
+              {campaign.createdByName && ` · by ${campaign.createdByName}`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {campaign.status === 'SENDING' && (
+              <button
+                onClick={() => handleAction('pause')}
+                disabled={updating}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Pause className="w-4 h-4" />
+                Pause
+              </button>
+            )}
+            {campaign.status === 'PAUSED' && (
+              <button
+                onClick={() => handleAction('resume')}
+                disabled={updating}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Play className="w-4 h-4" />
+                Resume
+              </button>
+            )}
+            {(campaign.status === 'SENDING' || campaign.status === 'PAUSED' || campaign.status === 'SCHEDULED') && (
+              <button
+                onClick={() => handleAction('cancel')}
+                disabled={updating}
+                className="flex items-center gap-2 px-4 py-2 border border-red-300 rounded-lg text-red-700 hover:bg-red-50 disabled:opacity-50"
+              >
+                <XCircle className="w-4 h-4" />
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Progress */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex justify-between text-sm text-gray-600 mb-2">
+          <span>Progress</span>
+          <span>
+            {processed} of {stats.recipients} processed
+          </span>
+        </div>
+        <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all"
+            style={{ width: `${toPercent(processed, stats.recipients)}%` }}
+          />
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4 mt-6">
+          {statCards.map((card) => (
+            <div key={card.label}>
+              <p className="text-xs text-gray-500 uppercase tracking-wider">{card.label}</p>
+              <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+              {card.percent !== undefined && <p className="text-xs text-gray-500">{card.percent}%</p>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Recipients */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="flex flex-wrap gap-2 px-6 py-3 border-b border-gray-200">
+          {(['', ...Object.keys(RECIPIENT_STATUS_LABELS)] as (CampaignRecipientStatus | '')[]).map((status) => (
+            <button
+              key={status || 'ALL'}
+              onClick={() => handleFilterChange(status)}
+              className={`px-3 py-1 text-xs rounded-full transition ${
+                statusFilter === status ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {status ? RECIPIENT_STATUS_LABELS[status] : 'All'}
+            </button>
+          ))}
+        </div>
+
+        {!recipients || recipients.content.length === 0 ? (
+          <div className="p-12 text-center text-gray-500">No recipients</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Name
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Phone Number
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Updated
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {recipients.content.map((recipient) => (
+                  <tr
+                    key={recipient.customerId}
+                    onClick={() => recipient.chatId && navigate(`/chats?chatId=${recipient.chatId}`)}
+                    className={`transition-colors ${recipient.chatId ? 'hover:bg-gray-50 cursor-pointer' : ''}`}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {recipient.name || '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{recipient.phone}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`px-2 py-1 text-xs font-semibold rounded-full ${RECIPIENT_STATUS_COLORS[recipient.status]}`}
+                        title={recipient.errorMessage}
+                      >
+                        {RECIPIENT_STATUS_LABELS[recipient.status]}
+                      </span>
+                      {recipient.errorMessage && (
+                        <p className="text-xs text-red-600 mt-1">{recipient.errorMessage}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {recipient.updatedAt ? dayjs(recipient.updatedAt).format('MMM D, h:mm A') : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {recipients && recipients.totalPages > 1 && (
+          <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 text-sm text-gray-600">
+            <span>
+              Page {recipients.number + 1} of {recipients.totalPages} · {recipients.totalElements} recipients
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= recipients.totalPages - 1}
+                className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignDetailPage;
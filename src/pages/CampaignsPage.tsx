@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { Megaphone, Plus } from 'lucide-react';
+import { listCampaigns, type Campaign } from '../lib/api';
+import { useRealtimeEvent } from '../hooks/useRealtime';
+import { CAMPAIGN_STATUS_COLORS, toPercent } from '../lib/campaigns';
+
+const CampaignsPage = () => {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, []);
+
+  // Keep progress of running campaigns current
+  useRealtimeEvent((event) => {
+    if (event.type !== 'campaign.updated') return;
+    setCampaigns((prev) => prev.map((c) => (c.id === event.campaign.id ? event.campaign : c)));
+  });
+
+  const fetchCampaigns = async () => {
+    try {
+      setLoading(true);
+      const data = await listCampaigns();
+      setCampaigns(data);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch campaigns:', err);
+      setError('Failed to load campaigns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatRate = (count: number, total: number) => `${toPercent(count, total)}%`;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading campaigns...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-red-500">{error}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Campaigns</h1>
+          <p className="text-gray-600">Send a template to a group of customers and track how it lands</p>
+        </div>
+        <button
+          onClick={() => navigate('/campaigns/new')}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4" />
+          New Campaign
+        </button>
+      </div>
+
+      {campaigns.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-12 text-center">
+          <Megaphone className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+          <p className="text-gray-500 text-lg">No campaigns yet</p>
+          <p className="text-sm text-gray-400 mt-1">
+            Filter your customers by tag and message them all at once
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Campaign
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Recipients
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Delivered
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Read
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Replied
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {campaigns.map((campaign) => (
+                  <tr
+                    key={campaign.id}
+                    onClick={() => navigate(`/campaigns/${campaign.id}`)}
+                    className="hover:bg-gray-50 cursor-pointer transition-colors"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{campaign.name}</div>
+                      <div className="text-xs text-gray-500 font-mono">{campaign.templateName}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`px-2 py-1 text-xs font-semibold rounded-full ${CAMPAIGN_STATUS_COLORS[campaign.status]}`}
+                      >
+                        {campaign.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {campaign.stats.recipients}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {formatRate(campaign.stats.delivered, campaign.stats.sent)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {formatRate(campaign.stats.read, campaign.stats.sent)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {formatRate(campaign.stats.replied, campaign.stats.sent)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {dayjs(campaign.startedAt || campaign.scheduledFor || campaign.createdAt).format(
+                        'MMM D, YYYY h:mm A'
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CampaignsPage;
@@ -6,23 +6,31 @@ import ChatPanel from '../components/ChatPanel';
 const ChatsPage = () => {
   const [searchParams] = useSearchParams();
   const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
+  // Message to scroll to (from a search result or a deep link)
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
 
-  // Handle chatId from query params (when navigating from customers page)
+  // Handle chatId (and optional messageId) from query params (when navigating from customers page)
   useEffect(() => {
     const chatIdParam = searchParams.get('chatId');
     if (chatIdParam) {
       setSelectedChatId(chatIdParam);
+      setFocusMessageId(searchParams.get('messageId'));
     }
   }, [searchParams]);
 
+  const handleSelect = (chatId: string, messageId?: string) => {
+    setSelectedChatId(chatId);
+    setFocusMessageId(messageId || null);
+  };
+
   return (
     <div className="flex h-full">
       <ChatList 
         selectedChatId={selectedChatId} 
-        onSelect={setSelectedChatId} 
+        onSelect={handleSelect}
       />
       {selectedChatId ? (
-        <ChatPanel chatId={selectedChatId} />
+        <ChatPanel key={selectedChatId} chatId={selectedChatId} focusMessageId={focusMessageId} />
       ) : (
         <div className="flex-1 flex items-center justify-center bg-gray-50">
           <div className="text-center">
@@ -0,0 +1,526 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import dayjs from 'dayjs';
+import {
+  ArrowLeft,
+  Bell,
+  Calendar,
+  CalendarPlus,
+  CreditCard,
+  Lock,
+  MessageCircle,
+  Pencil,
+} from 'lucide-react';
+import {
+  getCustomer,
+  updateCustomer,
+  getPatientHistory,
+  listCustomerReminders,
+  listCustomerPayments,
+  getChatMessages,
+  startChat,
+  getApiErrorMessage,
+  type AppointmentResponse,
+  type Customer,
+  type PaymentStatus,
+} from '../lib/api';
+import {
+  buildCustomerTimeline,
+  parseTags,
+  type CustomerHistory,
+  type TimelineEntry,
+  type TimelineEntryType,
+} from '../lib/customers';
+import { CONSENT_STATUS_COLORS, CONSENT_STATUS_LABELS } from '../lib/consent';
+import { getSenderName } from '../lib/messages';
+import CustomerConsentCard from '../components/CustomerConsentCard';
+import AddAppointmentModal from '../components/AddAppointmentModal';
+
+// Messages loaded into the timeline at a time
+const MESSAGE_PAGE_SIZE = 50;
+
+const TIMELINE_FILTERS: { value: TimelineEntryType | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'MESSAGE', label: 'Messages' },
+  { value: 'APPOINTMENT', label: 'Appointments' },
+  { value: 'REMINDER', label: 'Reminders' },
+  { value: 'PAYMENT', label: 'Payments' },
+  { value: 'NOTE', label: 'Notes' },
+];
+
+const TIMELINE_ICONS: Record<TimelineEntryType, { icon: React.ElementType; color: string }> = {
+  MESSAGE: { icon: MessageCircle, color: 'bg-blue-100 text-blue-600' },
+  NOTE: { icon: Lock, color: 'bg-yellow-100 text-yellow-700' },
+  APPOINTMENT: { icon: Calendar, color: 'bg-purple-100 text-purple-600' },
+  REMINDER: { icon: Bell, color: 'bg-indigo-100 text-indigo-600' },
+  PAYMENT: { icon: CreditCard, color: 'bg-green-100 text-green-600' },
+};
+
+const APPOINTMENT_STATUS_COLORS: Record<string, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  CONFIRMED: 'bg-green-100 text-green-800',
+  COMPLETED: 'bg-blue-100 text-blue-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+const PAYMENT_STATUS_COLORS: Record<PaymentStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  PAID: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  REFUNDED: 'bg-gray-100 text-gray-800',
+};
+
+const EMPTY_HISTORY: CustomerHistory = { messages: [], appointments: [], reminders: [], payments: [] };
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+
+const CustomerDetailPage = () => {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [history, setHistory] = useState<CustomerHistory>(EMPTY_HISTORY);
+  // Parts of the history that failed to load
+  const [unavailable, setUnavailable] = useState<string[]>([]);
+  // Cursor for older messages in the customer's chat
+  const [messageCursor, setMessageCursor] = useState<string | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<TimelineEntryType | ''>('');
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState({ name: '', email: '', tags: '' });
+  const [saving, setSaving] = useState(false);
+  const [startingChat, setStartingChat] = useState(false);
+  const [showBookingModal, setShowBookingModal] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchCustomer = async () => {
+      try {
+        setLoading(true);
+        const data = await getCustomer(id);
+        if (cancelled) return;
+        setCustomer(data);
+        setError(null);
+
+        // Show whatever loads - one missing source shouldn't hide the rest
+        const failed: string[] = [];
+        const load = <T,>(label: string, request: Promise<T>, fallback: T) =>
+          request.catch((err) => {
+            console.error(`Failed to load ${label}:`, err);
+            failed.push(label);
+            return fallback;
+          });
+        const [messagePage, appointments, reminders, payments] = await Promise.all([
+          data.chatId
+            ? load('messages', getChatMessages(data.chatId, { limit: MESSAGE_PAGE_SIZE }), null)
+            : Promise.resolve(null),
+          load('appointments', getPatientHistory(id).then((h) => h.appointments), []),
+          load('reminders', listCustomerReminders(id), []),
+          load('payments', listCustomerPayments(id), []),
+        ]);
+        if (cancelled) return;
+        setHistory({ messages: messagePage?.content ?? [], appointments, reminders, payments });
+        setMessageCursor(messagePage?.nextCursor ?? null);
+        setUnavailable(failed);
+      } catch (err) {
+        console.error('Failed to fetch customer:', err);
+        if (!cancelled) setError('Failed to load customer');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchCustomer();
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const loadOlderMessages = async () => {
+    if (!customer?.chatId || !messageCursor) return;
+    try {
+      setLoadingOlder(true);
+      const page = await getChatMessages(customer.chatId, { before: messageCursor, limit: MESSAGE_PAGE_SIZE });
+      setHistory((prev) => ({ ...prev, messages: [...page.content, ...prev.messages] }));
+      setMessageCursor(page.nextCursor ?? null);
+    } catch (err) {
+      console.error('Failed to load older messages:', err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const startEditing = () => {
+    if (!customer) return;
+    setForm({ name: customer.name || '', email: customer.email || '', tags: (customer.tags || []).join(', ') });
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customer) return;
+    try {
+      setSaving(true);
+      const updated = await updateCustomer(customer.id, {
+        name: form.name.trim() || undefined,
+        email: form.email.trim() || undefined,
+        tags: parseTags(form.tags),
+      });
+      setCustomer({ ...customer, ...updated });
+      setEditing(false);
+    } catch (err) {
+      console.error('Failed to update customer:', err);
+      alert(getApiErrorMessage(err, 'Failed to save customer details'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Open the customer's chat, starting one if they have never messaged
+  const handleMessage = async () => {
+    if (!customer) return;
+    if (customer.chatId) {
+      navigate(`/chats?chatId=${customer.chatId}`);
+      return;
+    }
+    try {
+      setStartingChat(true);
+      const chat = await startChat({ phone: customer.phoneNumber, name: customer.name });
+      navigate(`/chats?chatId=${chat.id}`);
+    } catch (err) {
+      console.error('Failed to start chat:', err);
+      alert(getApiErrorMessage(err, 'Failed to start a conversation'));
+      setStartingChat(false);
+    }
+  };
+
+  const handleBooked = (appointment: AppointmentResponse) => {
+    setShowBookingModal(false);
+    setHistory((prev) => ({ ...prev, appointments: [...prev.appointments, appointment] }));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading customer...</div>
+      </div>
+    );
+  }
+
+  if (error || !customer) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-red-500">{error || 'Customer not found'}</div>
+      </div>
+    );
+  }
+
+  const displayName = customer.name || customer.phoneNumber;
+  // Until every message is loaded, the timeline stops at the oldest loaded
+  // one, so other activity isn't shown without the messages around it
+  const cutoff = messageCursor ? history.messages[0]?.createdAt : undefined;
+  const timeline = buildCustomerTimeline(history).filter(
+    (entry) => !cutoff || new Date(entry.at).getTime() >= new Date(cutoff).getTime()
+  );
+  const visibleEntries = filter ? timeline.filter((entry) => entry.type === filter) : timeline;
+
+  const renderEntry = (entry: TimelineEntry) => {
+    switch (entry.type) {
+      case 'MESSAGE':
+      case 'NOTE': {
+        const { message } = entry;
+        return (
+          <button
+            onClick={() => navigate(`/chats?chatId=${customer.chatId}&messageId=${message.id}`)}
+            className="text-left w-full"
+          >
+            <p className="text-sm font-medium text-gray-900">
+              {entry.type === 'NOTE' ? `Note by ${message.authorName || 'staff'}` : getSenderName(message, displayName)}
+            </p>
+            <p className="text-sm text-gray-700 line-clamp-3 whitespace-pre-wrap">
+              {message.content || (message.media ? `[${message.type?.toLowerCase()}]` : '')}
+            </p>
+          </button>
+        );
+      }
+      case 'APPOINTMENT': {
+        const { appointment } = entry;
+        return (
+          <button
+            onClick={() => navigate(`/appointments?date=${dayjs(appointment.startTime).format('YYYY-MM-DD')}`)}
+            className="text-left w-full"
+          >
+            <div className="flex items-center gap-2">
+              <p className="text-sm font-medium text-gray-900">
+                {appointment.serviceName} with {appointment.providerName}
+              </p>
+              <span
+                className={`px-2 py-0.5 text-xs font-medium rounded ${
+                  APPOINTMENT_STATUS_COLORS[appointment.status] || 'bg-gray-100 text-gray-800'
+                }`}
+              >
+                {appointment.status}
+              </span>
+            </div>
+            {appointment.notes && <p className="text-sm text-gray-600">{appointment.notes}</p>}
+          </button>
+        );
+      }
+      case 'REMINDER':
+        return (
+          <div>
+            <p className="text-sm font-medium text-gray-900">
+              Reminder sent{entry.reminder.serviceName && ` for ${entry.reminder.serviceName}`}
+              <span className="ml-2 text-xs font-normal text-gray-500">{entry.reminder.status.toLowerCase()}</span>
+            </p>
+            <p className="text-sm text-gray-700 line-clamp-2">{entry.reminder.content}</p>
+          </div>
+        );
+      case 'PAYMENT':
+        return (
+          <div>
+            <div className="flex items-center gap-2">
+              <p className="text-sm font-medium text-gray-900">
+                {formatAmount(entry.payment.amount, entry.payment.currency)}
+              </p>
+              <span className={`px-2 py-0.5 text-xs font-medium rounded ${PAYMENT_STATUS_COLORS[entry.payment.status]}`}>
+                {entry.payment.status}
+              </span>
+            </div>
+            {entry.payment.description && <p className="text-sm text-gray-600">{entry.payment.description}</p>}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/customers')}
+          className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Customers
+        </button>
+        <div className="flex items-start justify-between">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <h1 className="text-3xl font-bold text-gray-900">{displayName}</h1>
+              <span
+                className={`px-2 py-1 text-xs rounded-full ${CONSENT_STATUS_COLORS[customer.consent?.status || 'UNKNOWN']}`}
+              >
+                {CONSENT_STATUS_LABELS[customer.consent?.status || 'UNKNOWN']}
+              </span>
+            </div>
+            <p className="text-gray-600">
+              {customer.phoneNumber}
+              {customer.email && ` · ${customer.email}`} · customer since{' '}
+              {dayjs(customer.createdAt).format('MMM D, YYYY')}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleMessage}
+              disabled={startingChat}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <MessageCircle className="w-4 h-4" />
+              {startingChat ? 'Opening...' : 'Message'}
+            </button>
+            <button
+              onClick={() => setShowBookingModal(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              <CalendarPlus className="w-4 h-4" />
+              Book appointment
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Profile */}
+        <div className="space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Details</h2>
+              {!editing && (
+                <button onClick={startEditing} className="p-1 text-gray-400 hover:text-gray-600" title="Edit details">
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            {editing ? (
+              <form onSubmit={handleSave} className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                  <input
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+                  <input
+                    type="text"
+                    value={form.tags}
+                    onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                    placeholder="e.g. vip, braces"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Separate tags with commas</p>
+                </div>
+                <div className="flex justify-end gap-2 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setEditing(false)}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <dl className="space-y-3 text-sm">
+                <div>
+                  <dt className="text-gray-500">Name</dt>
+                  <dd className="text-gray-900">{customer.name || <span className="text-gray-400">—</span>}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Phone</dt>
+                  <dd className="text-gray-900">{customer.phoneNumber}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Email</dt>
+                  <dd className="text-gray-900">{customer.email || <span className="text-gray-400">—</span>}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Tags</dt>
+                  <dd className="flex flex-wrap gap-1 mt-1">
+                    {customer.tags && customer.tags.length > 0 ? (
+                      customer.tags.map((tag) => (
+                        <span key={tag} className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-800">
+                          {tag}
+                        </span>
+                      ))
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </dd>
+                </div>
+              </dl>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <CustomerConsentCard
+              customerId={customer.id}
+              onChange={(consent) => setCustomer({ ...customer, consent })}
+            />
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <div className="lg:col-span-2 bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Timeline</h2>
+            <div className="flex gap-1">
+              {TIMELINE_FILTERS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setFilter(option.value)}
+                  className={`px-3 py-1 text-xs rounded-full transition ${
+                    filter === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {unavailable.length > 0 && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              Couldn't load {unavailable.join(', ')}. The timeline may be incomplete.
+            </div>
+          )}
+
+          {visibleEntries.length === 0 ? (
+            <p className="py-12 text-center text-gray-500">{cutoff ? 'Nothing here in this period' : 'Nothing here yet'}</p>
+          ) : (
+            <ol className="space-y-4">
+              {visibleEntries.map((entry) => {
+                const { icon: Icon, color } = TIMELINE_ICONS[entry.type];
+                return (
+                  <li key={entry.id}>
+                    <div className="flex gap-3">
+                      <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${color}`}>
+                        <Icon className="w-4 h-4" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        {renderEntry(entry)}
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          {dayjs(entry.at).format('ddd, DD MMM YYYY · h:mm A')}
+                        </p>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          {cutoff && (
+            <div className="mt-4 pt-4 border-t border-dashed border-gray-300 text-center">
+              <p className="text-xs text-gray-500 mb-2">
+                Showing activity since {dayjs(cutoff).format('DD MMM YYYY, h:mm A')}
+              </p>
+              <button
+                onClick={loadOlderMessages}
+                disabled={loadingOlder}
+                className="px-4 py-2 text-sm text-blue-600 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                {loadingOlder ? 'Loading...' : 'Load older activity'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showBookingModal && (
+        <AddAppointmentModal
+          isOpen
+          onClose={() => setShowBookingModal(false)}
+          onSuccess={handleBooked}
+          defaultPhone={customer.phoneNumber}
+          defaultPatientName={customer.name}
+          chatId={customer.chatId}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CustomerDetailPage;
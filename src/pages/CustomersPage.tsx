@@ -1,72 +1,113 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import dayjs from 'dayjs';
 import relativeTime from 'dayjs/plugin/relativeTime';
-import api from '../lib/api';
+import { ArrowDown, ArrowUp, Megaphone, Upload } from 'lucide-react';
+import {
+  listCustomerTags,
+  queryCustomers,
+  type Customer,
+  type CustomerQuery,
+  type CustomerSortField,
+  type PagedCustomers,
+} from '../lib/api';
+import { CONSENT_STATUS_COLORS, CONSENT_STATUS_LABELS } from '../lib/consent';
+import {
+  filterToSearchParams,
+  hasCustomerFilter,
+  queryFromSearchParams,
+  queryToSearchParams,
+} from '../lib/customers';
+import { useDebounce } from '../hooks/useDebounce';
+import ImportCustomersModal from '../components/ImportCustomersModal';
 
 dayjs.extend(relativeTime);
 
-interface Customer {
-  id: string;
-  name?: string;
-  phoneNumber: string;
-  tags?: string[];
-  chatId?: string;
-  lastMessageAt?: string;
-  createdAt: string;
-}
+// Customers per page
+const PAGE_SIZE = 50;
+
+const SORTABLE_COLUMNS: Partial<Record<string, CustomerSortField>> = {
+  Name: 'name',
+  Visits: 'totalVisits',
+  'Last Message': 'lastMessageAt',
+  Created: 'createdAt',
+};
+
+const COLUMNS = ['Name', 'Phone Number', 'Tags', 'Consent', 'Visits', 'Last Message', 'Created'];
 
 const CustomersPage = () => {
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [filteredCustomers, setFilteredCustomers] = useState<Customer[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [customers, setCustomers] = useState<PagedCustomers | null>(null);
+  const [allTags, setAllTags] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  // Bumped to reload the list (e.g. after an import)
+  const [refreshKey, setRefreshKey] = useState(0);
   const navigate = useNavigate();
 
-  // Fetch customers
+  // The URL holds the view, so it survives a reload and can be shared
+  const query = queryFromSearchParams(searchParams);
+  const filtered = hasCustomerFilter(query);
+
+  // Only the search box is debounced - sorting and paging apply straight away
+  const debouncedSearch = useDebounce(query.search || '', 300);
+  const requestKey = queryToSearchParams({ ...query, search: debouncedSearch }).toString();
+
   useEffect(() => {
-    fetchCustomers();
-  }, []);
+    listCustomerTags()
+      .then(setAllTags)
+      .catch((err) => console.error('Failed to fetch customer tags:', err));
+  }, [refreshKey]);
 
-  // Filter customers based on search query
   useEffect(() => {
-    if (!searchQuery.trim()) {
-      setFilteredCustomers(customers);
-    } else {
-      const query = searchQuery.toLowerCase();
-      const filtered = customers.filter(customer => {
-        const name = customer.name?.toLowerCase() || '';
-        const phone = customer.phoneNumber.toLowerCase();
-        return name.includes(query) || phone.includes(query);
-      });
-      setFilteredCustomers(filtered);
-    }
-  }, [searchQuery, customers]);
-
-  const fetchCustomers = async () => {
-    try {
-      setLoading(true);
-      const response = await api.get<Customer[]>('/api/customers');
-      setCustomers(response.data);
-      setFilteredCustomers(response.data);
-      setError(null);
-    } catch (err: any) {
-      console.error('Failed to fetch customers:', err);
-      setError('Failed to load customers');
-    } finally {
-      setLoading(false);
-    }
+    let cancelled = false;
+    const fetchCustomers = async () => {
+      try {
+        setLoading(true);
+        const data = await queryCustomers({
+          ...queryFromSearchParams(new URLSearchParams(requestKey)),
+          size: PAGE_SIZE,
+        });
+        if (cancelled) return;
+        setCustomers(data);
+        setError(null);
+      } catch (err) {
+        console.error('Failed to fetch customers:', err);
+        if (!cancelled) setError('Failed to load customers');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchCustomers();
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, refreshKey]);
+
+  // Any change other than paging goes back to the first page
+  const updateQuery = (changes: Partial<CustomerQuery>) => {
+    setSearchParams(queryToSearchParams({ ...query, page: 0, ...changes }), { replace: true });
   };
 
-  const handleRowClick = (customer: Customer) => {
-    if (customer.chatId) {
-      navigate(`/chats?chatId=${customer.chatId}`);
+  const toggleTag = (tag: string) => {
+    const tags = query.tags || [];
+    updateQuery({ tags: tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag] });
+  };
+
+  const toggleSort = (field: CustomerSortField) => {
+    if (query.sort === field) {
+      updateQuery({ direction: query.direction === 'asc' ? 'desc' : 'asc' });
     } else {
-      alert('No chat found for this customer');
+      updateQuery({ sort: field, direction: field === 'name' ? 'asc' : 'desc' });
     }
   };
 
+  // Open the campaign builder with the current filters as the audience
+  const handleCreateCampaign = () => {
+    navigate(`/campaigns/new?${filterToSearchParams(query).toString()}`);
+  };
+
   const formatLastMessage = (timestamp?: string) => {
     if (!timestamp) return 'No messages';
     return dayjs(timestamp).fromNow();
@@ -76,18 +117,12 @@ const CustomersPage = () => {
     return customer.name || customer.phoneNumber;
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <div className="text-gray-500">Loading customers...</div>
-      </div>
-    );
-  }
+  const totalCount = customers?.totalElements ?? 0;
 
-  if (error) {
+  if (!customers) {
     return (
       <div className="flex items-center justify-center h-64">
-        <div className="text-red-500">{error}</div>
+        {error ? <div className="text-red-500">{error}</div> : <div className="text-gray-500">Loading customers...</div>}
       </div>
     );
   }
@@ -95,56 +130,145 @@ const CustomersPage = () => {
   return (
     <div>
       {/* Header */}
-      <div className="mb-6">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Customers</h1>
-        <p className="text-gray-600">
-          Manage your customer database and view chat history
-        </p>
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Customers</h1>
+          <p className="text-gray-600">
+            Manage your customer database and view chat history
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            title="Import patients from a CSV or Excel file"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button
+            onClick={handleCreateCampaign}
+            disabled={totalCount === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            title="Send a campaign to the customers matching these filters"
+          >
+            <Megaphone className="w-4 h-4" />
+            Message {filtered ? totalCount : 'all'}
+          </button>
+        </div>
       </div>
 
-      {/* Search Box */}
+      {/* Filters */}
       <div className="mb-6">
         <input
           type="text"
           placeholder="Search by name or phone number..."
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
+          value={query.search || ''}
+          onChange={(e) => updateQuery({ search: e.target.value || undefined })}
           className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
         />
+        <div className="flex flex-wrap items-center gap-4 mt-3 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500">Last visit</span>
+            <input
+              type="date"
+              value={query.lastVisitFrom || ''}
+              max={query.lastVisitTo}
+              onChange={(e) => updateQuery({ lastVisitFrom: e.target.value || undefined })}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="date"
+              value={query.lastVisitTo || ''}
+              min={query.lastVisitFrom}
+              onChange={(e) => updateQuery({ lastVisitTo: e.target.value || undefined })}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!query.hasUpcomingAppointment}
+              onChange={(e) => updateQuery({ hasUpcomingAppointment: e.target.checked || undefined })}
+            />
+            Has an upcoming appointment
+          </label>
+          {filtered && (
+            <button
+              onClick={() => setSearchParams(queryToSearchParams({ sort: query.sort, direction: query.direction }))}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            <span className="text-sm text-gray-500">Tags:</span>
+            {allTags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                className={`px-3 py-1 text-xs rounded-full transition ${
+                  query.tags?.includes(tag)
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                }`}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+
       {/* Customers Table */}
-      {filteredCustomers.length === 0 ? (
+      {customers.content.length === 0 ? (
         <div className="bg-white rounded-lg shadow p-12 text-center">
           <p className="text-gray-500 text-lg">
-            {searchQuery ? 'No customers found matching your search' : 'No customers yet'}
+            {loading ? 'Loading customers...' : filtered ? 'No customers found matching your filters' : 'No customers yet'}
           </p>
         </div>
       ) : (
-        <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className={`bg-white rounded-lg shadow overflow-hidden ${loading ? 'opacity-60' : ''}`}>
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Name
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Phone Number
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Tags
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Last Message
-                  </th>
+                  {COLUMNS.map((column) => {
+                    const field = SORTABLE_COLUMNS[column];
+                    const SortIcon = query.direction === 'asc' ? ArrowUp : ArrowDown;
+                    return (
+                      <th
+                        key={column}
+                        className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {field ? (
+                          <button
+                            onClick={() => toggleSort(field)}
+                            className="flex items-center gap-1 uppercase tracking-wider hover:text-gray-700"
+                          >
+                            {column}
+                            {query.sort === field && <SortIcon className="w-3 h-3" />}
+                          </button>
+                        ) : (
+                          column
+                        )}
+                      </th>
+                    );
+                  })}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {filteredCustomers.map((customer) => (
+                {customers.content.map((customer) => (
                   <tr
                     key={customer.id}
-                    onClick={() => handleRowClick(customer)}
+                    onClick={() => navigate(`/customers/${customer.id}`)}
                     className="hover:bg-gray-50 cursor-pointer transition-colors"
                   >
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -175,23 +299,78 @@ const CustomersPage = () => {
                         )}
                       </div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`px-2 py-1 text-xs rounded-full ${CONSENT_STATUS_COLORS[customer.consent?.status || 'UNKNOWN']}`}
+                        title={
+                          customer.consent?.updatedAt
+                            ? `Since ${dayjs(customer.consent.updatedAt).format('DD MMM YYYY')}`
+                            : undefined
+                        }
+                      >
+                        {CONSENT_STATUS_LABELS[customer.consent?.status || 'UNKNOWN']}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-700">{customer.totalVisits ?? 0}</div>
+                      {customer.lastVisitAt && (
+                        <div className="text-xs text-gray-500">
+                          last {dayjs(customer.lastVisitAt).format('DD MMM YYYY')}
+                        </div>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-700">
                         {formatLastMessage(customer.lastMessageAt)}
                       </div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-700">{dayjs(customer.createdAt).format('DD MMM YYYY')}</div>
+                    </td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
+
+          {customers.totalPages > 1 && (
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 text-sm text-gray-600">
+              <span>
+                Page {customers.number + 1} of {customers.totalPages}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setSearchParams(queryToSearchParams({ ...query, page: customers.number - 1 }))}
+                  disabled={customers.number === 0}
+                  className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setSearchParams(queryToSearchParams({ ...query, page: customers.number + 1 }))}
+                  disabled={customers.number >= customers.totalPages - 1}
+                  className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       )}
 
       {/* Results Count */}
       <div className="mt-4 text-sm text-gray-600">
-        Showing {filteredCustomers.length} of {customers.length} customer{customers.length !== 1 ? 's' : ''}
+        {totalCount} customer{totalCount !== 1 ? 's' : ''}
+        {filtered && ' match these filters'}
       </div>
+
+      {showImport && (
+        <ImportCustomersModal
+          onClose={() => setShowImport(false)}
+          onImported={() => setRefreshKey((key) => key + 1)}
+        />
+      )}
     </div>
   );
 };
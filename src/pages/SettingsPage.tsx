@@ -1,13 +1,18 @@
 import { useState, useEffect } from 'react';
-import { Settings, Building2, Clock, DollarSign, Bell, CreditCard, Globe, Users } from 'lucide-react';
+import { Settings, Building2, Clock, DollarSign, Bell, CreditCard, Globe, Users, FileText, MessageSquareText } from 'lucide-react';
 import api from '../lib/api';
 import WhatsAppSettingsTab from '../components/WhatsAppSettingsTab';
 import StaffManagementTab from '../components/StaffManagementTab';
+import WhatsAppTemplatesTab from '../components/WhatsAppTemplatesTab';
+import CannedResponsesTab from '../components/CannedResponsesTab';
+import { LANGUAGES, setStaffLanguage } from '../lib/translation';
+import { useStaffLanguage } from '../hooks/useTranslation';
 
 interface TenantConfig {
   business_name?: string;
   preferred_language?: string;
   system_prompt?: string;
+  bot_handback_minutes?: number; // Hand a paused chat back to the AI after this long without staff replies (0 = never)
   whatsapp_phone_number_id?: string;
   whatsapp_access_token?: string;
   razorpay_key_id?: string;
@@ -37,17 +42,6 @@ interface ReminderSettings {
   messageTemplate2hr: string;
 }
 
-const LANGUAGES = [
-  { code: 'en', name: 'English' },
-  { code: 'hi', name: 'Hindi (हिन्दी)' },
-  { code: 'mr', name: 'Marathi (मराठी)' },
-  { code: 'gu', name: 'Gujarati (ગુજરાતી)' },
-  { code: 'bn', name: 'Bengali (বাংলা)' },
-  { code: 'ta', name: 'Tamil (தமிழ்)' },
-  { code: 'te', name: 'Telugu (తెలుగు)' },
-  { code: 'kn', name: 'Kannada (ಕನ್ನಡ)' },
-];
-
 const SPECIALIZATIONS = [
   'General Practice',
   'Dermatology',
@@ -82,6 +76,7 @@ const SettingsPage = () => {
   const [loading, setLoading] = useState(true);
   const [tenant, setTenant] = useState<Tenant | null>(null);
   const [activeSection, setActiveSection] = useState<string>('profile');
+  const staffLanguage = useStaffLanguage();
   
   // Form states
   const [profileData, setProfileData] = useState({
@@ -96,7 +91,8 @@ const SettingsPage = () => {
   
   const [languageData, setLanguageData] = useState({
     preferredLanguage: 'en',
-    systemPrompt: ''
+    systemPrompt: '',
+    botHandbackMinutes: 30
   });
   
   const [paymentData, setPaymentData] = useState({
@@ -151,7 +147,8 @@ const SettingsPage = () => {
 
       setLanguageData({
         preferredLanguage: tenant.config?.preferred_language || 'en',
-        systemPrompt: tenant.config?.system_prompt || ''
+        systemPrompt: tenant.config?.system_prompt || '',
+        botHandbackMinutes: tenant.config?.bot_handback_minutes ?? 30
       });
 
       setPaymentData({
@@ -213,7 +210,8 @@ const SettingsPage = () => {
         config: {
           ...tenant!.config,
           preferred_language: languageData.preferredLanguage,
-          system_prompt: languageData.systemPrompt
+          system_prompt: languageData.systemPrompt,
+          bot_handback_minutes: languageData.botHandbackMinutes
         }
       };
       await api.put('/api/tenants/me', updatedTenant);
@@ -344,6 +342,30 @@ const SettingsPage = () => {
                 <span>WhatsApp</span>
               </button>
               
+              <button
+                onClick={() => setActiveSection('templates')}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                  activeSection === 'templates'
+                    ? 'bg-blue-50 text-blue-700 font-medium'
+                    : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <FileText className="w-5 h-5" />
+                <span>Message Templates</span>
+              </button>
+              
+              <button
+                onClick={() => setActiveSection('canned')}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                  activeSection === 'canned'
+                    ? 'bg-blue-50 text-blue-700 font-medium'
+                    : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <MessageSquareText className="w-5 h-5" />
+                <span>Canned Responses</span>
+              </button>
+              
               <button
                 onClick={() => setActiveSection('reminders')}
                 className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
@@ -553,6 +575,23 @@ const SettingsPage = () => {
                   </p>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Hand Back to AI After (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={languageData.botHandbackMinutes}
+                    onChange={(e) => setLanguageData({ ...languageData, botHandbackMinutes: parseInt(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="mt-1 text-sm text-gray-500">
+                    When staff reply, the AI assistant pauses for that chat. It takes over again after this many
+                    minutes without a staff reply. Set to 0 to keep it paused until turned back on.
+                  </p>
+                </div>
+
                 <div className="flex justify-end">
                   <button
                     type="submit"
@@ -563,6 +602,26 @@ const SettingsPage = () => {
                   </button>
                 </div>
               </form>
+
+              <div className="mt-8 pt-6 border-t border-gray-200">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Translate Conversations Into
+                </label>
+                <select
+                  value={staffLanguage}
+                  onChange={(e) => setStaffLanguage(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {LANGUAGES.map((lang) => (
+                    <option key={lang.code} value={lang.code}>
+                      {lang.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                  Just for you. Patient messages in other languages can be translated into this one from the chat.
+                </p>
+              </div>
             </div>
           )}
 
@@ -574,6 +633,12 @@ const SettingsPage = () => {
             <WhatsAppSettingsTab />
           )}
 
+          {/* Message Templates Section */}
+          {activeSection === 'templates' && <WhatsAppTemplatesTab />}
+
+          {/* Canned Responses Section */}
+          {activeSection === 'canned' && <CannedResponsesTab />}
+
           {/* Reminders Section */}
           {activeSection === 'reminders' && (
             <div className="bg-white rounded-lg shadow p-6">
@@ -583,6 +648,11 @@ const SettingsPage = () => {
               </div>
               
               <form onSubmit={saveReminders} className="space-y-6">
+                <p className="text-sm text-gray-600">
+                  Reminders are not sent to patients who opted out by replying STOP. They can opt back in by
+                  replying START.
+                </p>
+
                 <div className="space-y-4">
                   <div className="flex items-center gap-3">
                     <input